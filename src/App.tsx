@@ -4,29 +4,53 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter as Router, Routes, Route } from "react-router-dom";
 import { SidebarProvider } from "@/components/ui/sidebar";
+import { SessionContextProvider } from "@supabase/auth-helpers-react";
+import { supabase } from "@/integrations/supabase/client";
+import { RequireAuth } from "@/components/RequireAuth";
+import { WorkspaceProvider } from "@/hooks/use-workspace";
 import Repositories from "./pages/Repositories";
 import WebTools from "./pages/WebTools";
+import History from "./pages/History";
+import PullRequests from "./pages/PullRequests";
+import Merge from "./pages/Merge";
+import Credentials from "./pages/Credentials";
+import Workspaces from "./pages/Workspaces";
+import Approvals from "./pages/Approvals";
+import Drift from "./pages/Drift";
+import Login from "./pages/Login";
 
 const queryClient = new QueryClient();
 
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Sonner />
-        <Router>
-          <SidebarProvider>
-            <Routes>
-              <Route path="/" element={<Repositories />} />
-              <Route path="/repositories" element={<Repositories />} />
-              <Route path="/web-tools" element={<WebTools />} />
-            </Routes>
-          </SidebarProvider>
-        </Router>
-      </TooltipProvider>
+      <SessionContextProvider supabaseClient={supabase}>
+        <WorkspaceProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Sonner />
+            <Router>
+              <SidebarProvider>
+                <Routes>
+                  <Route path="/login" element={<Login />} />
+                  <Route path="/" element={<RequireAuth><Repositories /></RequireAuth>} />
+                  <Route path="/repositories" element={<RequireAuth><Repositories /></RequireAuth>} />
+                  <Route path="/pull-requests" element={<RequireAuth><PullRequests /></RequireAuth>} />
+                  <Route path="/merge" element={<RequireAuth><Merge /></RequireAuth>} />
+                  <Route path="/approvals" element={<RequireAuth><Approvals /></RequireAuth>} />
+                  <Route path="/drift" element={<RequireAuth><Drift /></RequireAuth>} />
+                  <Route path="/history" element={<RequireAuth><History /></RequireAuth>} />
+                  <Route path="/credentials" element={<RequireAuth><Credentials /></RequireAuth>} />
+                  <Route path="/workspaces" element={<RequireAuth><Workspaces /></RequireAuth>} />
+                  <Route path="/web-tools" element={<RequireAuth><WebTools /></RequireAuth>} />
+                </Routes>
+              </SidebarProvider>
+            </Router>
+          </TooltipProvider>
+        </WorkspaceProvider>
+      </SessionContextProvider>
     </QueryClientProvider>
   );
 }
 
-export default App;
\ No newline at end of file
+export default App;
@@ -1,10 +1,15 @@
-import { GitBranch, GitCommit, GitMerge, GitPullRequest, Settings, Code2 } from "lucide-react";
+import { ClipboardCheck, GitBranch, GitCommit, GitCompare, GitMerge, GitPullRequest, Settings, Code2, History, KeyRound, LogOut, Users } from "lucide-react";
+import { useSession, useSupabaseClient } from "@supabase/auth-helpers-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useWorkspace } from "@/hooks/use-workspace";
 import {
   Sidebar,
   SidebarContent,
+  SidebarFooter,
   SidebarGroup,
   SidebarGroupContent,
   SidebarGroupLabel,
+  SidebarHeader,
   SidebarMenu,
   SidebarMenuButton,
   SidebarMenuItem,
@@ -31,6 +36,31 @@ const items = [
     url: "/merge",
     icon: GitMerge,
   },
+  {
+    title: "Approvals",
+    url: "/approvals",
+    icon: ClipboardCheck,
+  },
+  {
+    title: "Drift",
+    url: "/drift",
+    icon: GitCompare,
+  },
+  {
+    title: "History",
+    url: "/history",
+    icon: History,
+  },
+  {
+    title: "Credentials",
+    url: "/credentials",
+    icon: KeyRound,
+  },
+  {
+    title: "Workspaces",
+    url: "/workspaces",
+    icon: Users,
+  },
   {
     title: "Web Dev Tools",
     url: "/web-tools",
@@ -44,8 +74,28 @@ const items = [
 ];
 
 export function AppSidebar() {
+  const session = useSession();
+  const supabase = useSupabaseClient();
+  const { workspaces, current, setCurrent } = useWorkspace();
+
   return (
     <Sidebar>
+      {workspaces.length > 0 && (
+        <SidebarHeader>
+          <Select value={current?.id} onValueChange={setCurrent}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select workspace" />
+            </SelectTrigger>
+            <SelectContent>
+              {workspaces.map((workspace) => (
+                <SelectItem key={workspace.id} value={workspace.id}>
+                  {workspace.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </SidebarHeader>
+      )}
       <SidebarContent>
         <SidebarGroup>
           <SidebarGroupLabel>Git Tools</SidebarGroupLabel>
@@ -65,6 +115,18 @@ export function AppSidebar() {
           </SidebarGroupContent>
         </SidebarGroup>
       </SidebarContent>
+      {session && (
+        <SidebarFooter>
+          <SidebarMenu>
+            <SidebarMenuItem>
+              <SidebarMenuButton onClick={() => supabase.auth.signOut()} className="flex items-center gap-3">
+                <LogOut className="h-5 w-5" />
+                <span className="truncate">Sign out {session.user.email}</span>
+              </SidebarMenuButton>
+            </SidebarMenuItem>
+          </SidebarMenu>
+        </SidebarFooter>
+      )}
     </Sidebar>
   );
 }
\ No newline at end of file
@@ -0,0 +1,56 @@
+import { Badge } from "@/components/ui/badge";
+import { Layers } from "lucide-react";
+import { describeOperationError } from "@/lib/operation-errors";
+import type { PushBatchResult } from "@shared/operations";
+
+interface BatchPushSummaryProps {
+  results: PushBatchResult[];
+  repositories: { id: string; url: string; nickname?: string }[];
+}
+
+// One row per target of a batch push, with what happened to it
+export function BatchPushSummary({ results, repositories }: BatchPushSummaryProps) {
+  const failed = results.filter(result => result.status === 'failed');
+
+  const getRepoLabel = (id: string) => {
+    const repo = repositories.find(r => r.id === id);
+    return repo ? repo.nickname || repo.url : "Deleted repository";
+  };
+
+  return (
+    <div className="space-y-3 bg-background/50 p-3 rounded-md text-sm">
+      <div className="flex items-center gap-2 flex-wrap">
+        <Layers className="h-4 w-4 text-primary" />
+        <span className="font-medium">Batch push</span>
+        <Badge variant="secondary">{results.length - failed.length} pushed</Badge>
+        {failed.length > 0 && <Badge variant="destructive">{failed.length} failed</Badge>}
+      </div>
+
+      <div className="space-y-1">
+        {results.map(result => (
+          <div key={result.targetRepoId} className="flex items-start justify-between gap-2">
+            <span className="truncate">{getRepoLabel(result.targetRepoId)}</span>
+            {result.status === 'succeeded' ? (
+              <span className="text-xs text-muted-foreground shrink-0">
+                {result.pullRequest ? (
+                  <a href={result.pullRequest.url} target="_blank" rel="noopener noreferrer" className="underline">
+                    Pull request #{result.pullRequest.number}
+                  </a>
+                ) : (
+                  <span className="font-mono">{result.sha?.substring(0, 7)}</span>
+                )}
+              </span>
+            ) : (
+              <span className="text-xs text-red-500 text-right">
+                {describeOperationError(
+                  { success: false, code: result.code ?? "internal", error: result.error ?? "Unknown error" },
+                  "Push failed"
+                ).description}
+              </span>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
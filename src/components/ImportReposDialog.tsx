@@ -0,0 +1,251 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { describeOperationError, readOperationError } from "@/lib/operation-errors";
+import { invokeGitOperation, readLastCommits } from "@/lib/git-operations";
+import { normalizeRepoUrl } from "@/lib/registry";
+import type { OwnerRepoSummary } from "@shared/operations";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface ImportReposDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workspaceId: string;
+  // URLs already in the workspace, which are not offered again
+  existingUrls: string[];
+  // The first repository of a workspace becomes its master
+  hasMaster: boolean;
+  onImported: () => void;
+}
+
+// Lists a GitHub organization's or user's repositories through
+// git-operations and adds the selected ones to the workspace
+export function ImportReposDialog({ open, onOpenChange, workspaceId, existingUrls, hasMaster, onImported }: ImportReposDialogProps) {
+  const [owner, setOwner] = useState("");
+  const [host, setHost] = useState("github.com");
+  const [includeArchived, setIncludeArchived] = useState(false);
+  const [includeForks, setIncludeForks] = useState(false);
+  const [repos, setRepos] = useState<OwnerRepoSummary[]>([]);
+  const [nextPage, setNextPage] = useState<number | null>(null);
+  const [selected, setSelected] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const existing = new Set(existingUrls.map(normalizeRepoUrl));
+  const selectedRepos = repos.filter(repo => repo.url in selected);
+
+  useEffect(() => {
+    if (!open) {
+      setRepos([]);
+      setNextPage(null);
+      setSelected({});
+    }
+  }, [open]);
+
+  const showOperationError = async (error: unknown, fallback: string) => {
+    const { title, description } = describeOperationError(await readOperationError(error), fallback);
+    toast({ title, description, variant: "destructive" });
+  };
+
+  const fetchPage = async (page: number) => {
+    try {
+      setIsLoading(true);
+      const { data, error } = await invokeGitOperation({
+        type: 'listOwnerRepos',
+        workspaceId,
+        owner: owner.trim(),
+        host: host.trim() || undefined,
+        page,
+        includeArchived,
+        includeForks
+      });
+
+      if (error) throw error;
+
+      setRepos(prev => page === 1 ? data.repositories : [...prev, ...data.repositories]);
+      setNextPage(data.nextPage);
+      if (page === 1) setSelected({});
+    } catch (error) {
+      console.error('Error listing repositories:', error);
+      await showOperationError(error, "Failed to list repositories");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleRepo = (repo: OwnerRepoSummary, checked: boolean) => {
+    setSelected(prev => {
+      const next = { ...prev };
+      if (checked) {
+        next[repo.url] = "";
+      } else {
+        delete next[repo.url];
+      }
+      return next;
+    });
+  };
+
+  const handleImport = async () => {
+    if (selectedRepos.length === 0) return;
+
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('repositories')
+        .insert(selectedRepos.map(repo => ({
+          url: repo.url,
+          name: repo.name,
+          nickname: selected[repo.url].trim() || null,
+          provider: 'github',
+          workspace_id: workspaceId,
+          status: 'synced'
+        })))
+        .select('id');
+
+      if (error) throw error;
+
+      // The master flag is only set through git-operations
+      if (!hasMaster && data.length > 0) {
+        await invokeGitOperation({ type: 'setMaster', targetRepoId: data[0].id });
+      }
+
+      const commits = await readLastCommits(data.map(repo => repo.id));
+      const failed = commits.filter(result => result.status === 'failed').length;
+
+      toast({
+        title: "Success",
+        description: `Imported ${data.length} ${data.length === 1 ? "repository" : "repositories"}` +
+          (failed > 0 ? `; the last commit of ${failed} could not be read` : ""),
+      });
+      onImported();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error importing repositories:', error);
+      toast({
+        title: "Error",
+        description: "Failed to import repositories",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Repositories</DialogTitle>
+          <DialogDescription>
+            List the repositories of a GitHub organization or user and add the ones you select to this workspace.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="flex flex-col gap-2 md:flex-row">
+            <Input
+              placeholder="Organization or user"
+              value={owner}
+              onChange={(e) => setOwner(e.target.value)}
+              className="bg-background/50"
+              disabled={isLoading}
+            />
+            <Input
+              placeholder="github.com"
+              value={host}
+              onChange={(e) => setHost(e.target.value)}
+              className="bg-background/50 md:w-48"
+              disabled={isLoading}
+            />
+            <Button onClick={() => fetchPage(1)} disabled={isLoading || !owner.trim()}>
+              {isLoading && repos.length === 0 ? "Loading..." : "List"}
+            </Button>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-6">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={includeArchived}
+                onCheckedChange={(checked) => setIncludeArchived(checked === true)}
+                disabled={isLoading}
+              />
+              Include archived
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={includeForks}
+                onCheckedChange={(checked) => setIncludeForks(checked === true)}
+                disabled={isLoading}
+              />
+              Include forks
+            </label>
+          </div>
+
+          {repos.length > 0 && (
+            <div className="max-h-80 overflow-y-auto space-y-2">
+              {repos.map(repo => {
+                const alreadyAdded = existing.has(normalizeRepoUrl(repo.url));
+                const isSelected = repo.url in selected;
+
+                return (
+                  <div key={repo.url} className="p-2 rounded-md bg-background/50 space-y-2">
+                    <label className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={isSelected}
+                        onCheckedChange={(checked) => toggleRepo(repo, checked === true)}
+                        disabled={isLoading || alreadyAdded}
+                      />
+                      <span className="font-medium truncate">{repo.name}</span>
+                      {repo.private && <Badge variant="outline">private</Badge>}
+                      {repo.archived && <Badge variant="outline">archived</Badge>}
+                      {repo.fork && <Badge variant="outline">fork</Badge>}
+                      {alreadyAdded && <Badge variant="secondary">added</Badge>}
+                    </label>
+                    {repo.description && (
+                      <p className="text-xs text-muted-foreground truncate">{repo.description}</p>
+                    )}
+                    {isSelected && (
+                      <Input
+                        placeholder="Label (optional)"
+                        value={selected[repo.url]}
+                        onChange={(e) => setSelected(prev => ({ ...prev, [repo.url]: e.target.value }))}
+                        className="bg-background/50 h-8"
+                        disabled={isLoading}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {nextPage && (
+            <Button variant="outline" size="sm" onClick={() => fetchPage(nextPage)} disabled={isLoading}>
+              {isLoading ? "Loading..." : "Load More"}
+            </Button>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={isLoading || selectedRepos.length === 0}>
+            Import {selectedRepos.length > 0 ? selectedRepos.length : ""} Selected
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,122 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { isJobFinished, jobErrorBody, type OperationJob } from "@/hooks/use-operation-jobs";
+import { describeOperationError, readOperationError } from "@/lib/operation-errors";
+import { invokeGitOperation } from "@/lib/git-operations";
+import type { JobOperation, JobStep } from "@shared/operations";
+import { ListTodo, Loader2 } from "lucide-react";
+
+interface JobQueueProps {
+  jobs: OperationJob[];
+  repositories: { id: string; url: string; nickname?: string | null }[];
+  canOperate: boolean;
+}
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  queued: "outline",
+  running: "secondary",
+  succeeded: "default",
+  failed: "destructive",
+  cancelled: "outline",
+};
+
+// Operations running in the background for the current workspace, with the
+// step each one has reached. Rows update as the worker writes to them.
+export function JobQueue({ jobs, repositories, canOperate }: JobQueueProps) {
+  const [cancelling, setCancelling] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const getRepoLabel = (id: string) => {
+    const repo = repositories.find(r => r.id === id);
+    return repo ? repo.nickname || repo.url : "Deleted repository";
+  };
+
+  const describeJob = (operation: JobOperation) => {
+    const route = `${getRepoLabel(operation.sourceRepoId)} → ${getRepoLabel(operation.targetRepoId)}`;
+    switch (operation.type) {
+      case 'push':
+        return `Push ${route} (${operation.pushType})`;
+      case 'merge':
+        return `Merge ${operation.sourceBranch} into ${operation.targetBranch}`;
+      case 'syncTags':
+        return `Sync tags ${route}`;
+    }
+  };
+
+  const handleCancel = async (job: OperationJob) => {
+    try {
+      setCancelling(job.id);
+      const { data, error } = await invokeGitOperation({ type: 'cancelJob', jobId: job.id });
+
+      if (error) throw error;
+
+      toast({
+        title: "Cancelling",
+        description: data.status === 'cancelled'
+          ? "The job was cancelled before it started."
+          : "The job stops before its next step.",
+      });
+    } catch (error) {
+      console.error('Error cancelling job:', error);
+      const { title, description } = describeOperationError(await readOperationError(error), "Failed to cancel job");
+      toast({ title, description, variant: "destructive" });
+    } finally {
+      setCancelling(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4 pt-4 border-t border-border/50">
+      <h3 className="text-lg font-medium flex items-center gap-2">
+        <ListTodo className="h-5 w-5" />
+        Jobs
+      </h3>
+
+      {jobs.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No recent jobs.</p>
+      ) : (
+        <div className="space-y-2">
+          {jobs.map(job => {
+            const steps = (job.steps ?? []) as unknown as JobStep[];
+            const currentStep = steps[steps.length - 1];
+
+            return (
+              <div key={job.id} className="p-3 rounded-md bg-background/50 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 min-w-0">
+                    {job.status === 'running' && <Loader2 className="h-4 w-4 animate-spin shrink-0" />}
+                    <span className="font-medium truncate">
+                      {describeJob(job.operation as unknown as JobOperation)}
+                    </span>
+                    <Badge variant={STATUS_VARIANTS[job.status] ?? "outline"}>{job.status}</Badge>
+                  </div>
+                  {canOperate && !isJobFinished(job) && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => handleCancel(job)}
+                      disabled={cancelling === job.id || job.cancel_requested}
+                    >
+                      {job.cancel_requested ? "Cancelling..." : "Cancel"}
+                    </Button>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {job.created_by_label && `${job.created_by_label} · `}
+                  {new Date(job.created_at).toLocaleString()}
+                  {job.status === 'running' && currentStep && ` · ${currentStep.name}...`}
+                  {isJobFinished(job) && steps.length > 0 && ` · ${steps.length} step${steps.length === 1 ? "" : "s"}`}
+                </div>
+                {job.status === 'failed' && (
+                  <p className="text-xs text-destructive">{jobErrorBody(job).error}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
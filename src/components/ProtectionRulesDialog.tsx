@@ -0,0 +1,241 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { AllowedWindow } from "@shared/operations";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface ProtectionRulesDialogProps {
+  repository: { id: string; url: string; nickname?: string } | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const RULES = [
+  { key: "block_force_push", label: "Block force pushes", description: "Force and force-with-lease pushes are refused." },
+  { key: "require_preview", label: "Require a preview", description: "Pushes and merges must come from a preview of the current branch heads." },
+  { key: "require_approval", label: "Require a second approver", description: "Changes need approval from another workspace member." },
+] as const;
+
+type RuleFlags = Record<(typeof RULES)[number]["key"], boolean>;
+
+const NO_RULES: RuleFlags = { block_force_push: false, require_preview: false, require_approval: false };
+
+// Edits the rules git-operations enforces before pushing or merging into a
+// repository. Only workspace admins may save them.
+export function ProtectionRulesDialog({ repository, onOpenChange }: ProtectionRulesDialogProps) {
+  const [flags, setFlags] = useState<RuleFlags>(NO_RULES);
+  const [windows, setWindows] = useState<AllowedWindow[]>([]);
+  const [timezone, setTimezone] = useState("UTC");
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchRules = useCallback(async (repositoryId: string) => {
+    try {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('protection_rules')
+        .select('*')
+        .eq('repository_id', repositoryId)
+        .maybeSingle();
+
+      if (error) throw error;
+
+      setFlags(data
+        ? { block_force_push: data.block_force_push, require_preview: data.require_preview, require_approval: data.require_approval }
+        : NO_RULES);
+      setWindows((data?.allowed_windows as unknown as AllowedWindow[]) ?? []);
+      setTimezone(data?.timezone ?? Intl.DateTimeFormat().resolvedOptions().timeZone);
+    } catch (error) {
+      console.error('Error fetching protection rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch protection rules",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [toast]);
+
+  const repositoryId = repository?.id;
+
+  useEffect(() => {
+    if (repositoryId) fetchRules(repositoryId);
+  }, [repositoryId, fetchRules]);
+
+  const updateWindow = (index: number, changes: Partial<AllowedWindow>) => {
+    setWindows(prev => prev.map((window, i) => i === index ? { ...window, ...changes } : window));
+  };
+
+  const toggleDay = (index: number, day: number) => {
+    const days = windows[index].days;
+    updateWindow(index, { days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort((a, b) => a - b) });
+  };
+
+  const handleSave = async () => {
+    if (!repository) return;
+
+    if (windows.some(window => window.days.length === 0 || !window.start || !window.end)) {
+      toast({
+        title: "Error",
+        description: "Every allowed window needs at least one day and a start and end time",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const { error } = await supabase
+        .from('protection_rules')
+        .upsert({
+          repository_id: repository.id,
+          ...flags,
+          allowed_windows: windows as unknown as Json,
+          timezone,
+          updated_at: new Date().toISOString(),
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Protection rules saved",
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving protection rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save protection rules. Only workspace admins can change them.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!repository} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Protection Rules</DialogTitle>
+          <DialogDescription>
+            Enforced by git-operations for every push and merge into {repository?.nickname || repository?.url}.
+            Pull requests are not affected.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {RULES.map(rule => (
+            <label key={rule.key} className="flex items-start justify-between gap-4">
+              <span className="space-y-1">
+                <span className="block text-sm font-medium">{rule.label}</span>
+                <span className="block text-xs text-muted-foreground">{rule.description}</span>
+              </span>
+              <Switch
+                checked={flags[rule.key]}
+                onCheckedChange={(checked) => setFlags(prev => ({ ...prev, [rule.key]: checked }))}
+                disabled={isLoading}
+              />
+            </label>
+          ))}
+
+          <div className="space-y-2 pt-4 border-t border-border/50">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">Allowed time windows</span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="text-xs"
+                onClick={() => setWindows(prev => [...prev, { days: [1, 2, 3, 4, 5], start: "09:00", end: "17:00" }])}
+                disabled={isLoading}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add window
+              </Button>
+            </div>
+            {windows.length === 0 && (
+              <p className="text-xs text-muted-foreground">No windows: changes are allowed at any time.</p>
+            )}
+            {windows.map((window, index) => (
+              <div key={index} className="flex flex-wrap items-center gap-2 p-2 rounded-md bg-background/50">
+                {WEEKDAYS.map((label, day) => (
+                  <Button
+                    key={label}
+                    variant={window.days.includes(day) ? "default" : "outline"}
+                    size="sm"
+                    className="h-7 px-2 text-xs"
+                    onClick={() => toggleDay(index, day)}
+                    disabled={isLoading}
+                  >
+                    {label}
+                  </Button>
+                ))}
+                <Input
+                  type="time"
+                  value={window.start}
+                  onChange={(e) => updateWindow(index, { start: e.target.value })}
+                  className="h-7 w-28 bg-background/50"
+                  disabled={isLoading}
+                />
+                <span className="text-xs text-muted-foreground">to</span>
+                <Input
+                  type="time"
+                  value={window.end}
+                  onChange={(e) => updateWindow(index, { end: e.target.value })}
+                  className="h-7 w-28 bg-background/50"
+                  disabled={isLoading}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => setWindows(prev => prev.filter((_, i) => i !== index))}
+                  disabled={isLoading}
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+            {windows.length > 0 && (
+              <div className="space-y-1">
+                <label htmlFor="protectionTimezone" className="text-xs text-muted-foreground">Time zone</label>
+                <Input
+                  id="protectionTimezone"
+                  placeholder="e.g., Europe/Berlin"
+                  value={timezone}
+                  onChange={(e) => setTimezone(e.target.value)}
+                  className="bg-background/50"
+                  disabled={isLoading}
+                />
+              </div>
+            )}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={isLoading}>
+            Save Rules
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,107 @@
+import { Badge } from "@/components/ui/badge";
+import { AlertTriangle, ArrowDown, ArrowUp, FileText, GitCommit } from "lucide-react";
+import type { CompareResponse } from "@shared/operations";
+
+export type PushPreviewData = CompareResponse;
+
+interface PushPreviewProps {
+  preview: PushPreviewData;
+  pushType: string;
+}
+
+const statusLabels: Record<PushPreviewData['mergeStatus'], string> = {
+  'identical': "In sync",
+  'fast-forward': "Fast-forward",
+  'behind': "Behind target",
+  'merge': "Merge required",
+  'conflicting': "Conflicting",
+};
+
+const getOutcome = (preview: PushPreviewData, pushType: string) => {
+  if (preview.mergeStatus === 'identical') {
+    return "Target branch already matches the source. Nothing will change.";
+  }
+  if (pushType === 'pull-request') {
+    return `A pull request into ${preview.targetBranch} will be opened with ${preview.aheadBy} commit(s). The target branch is not changed until it is merged.`;
+  }
+  if (preview.mergeStatus === 'fast-forward') {
+    return `Target branch will be fast-forwarded by ${preview.aheadBy} commit(s).`;
+  }
+  if (pushType === 'regular') {
+    return "Target branch has commits the source does not. A regular push will be rejected as non-fast-forward.";
+  }
+  return `Target branch will be overwritten, discarding ${preview.behindBy} commit(s) that only exist on ${preview.targetBranch}.`;
+};
+
+export function PushPreview({ preview, pushType }: PushPreviewProps) {
+  const isDestructive = preview.behindBy > 0 && ['force', 'force-with-lease'].includes(pushType);
+
+  return (
+    <div className="space-y-3 bg-background/50 p-3 rounded-md text-sm">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="font-medium">{preview.sourceBranch}</span>
+        <span className="text-muted-foreground">→</span>
+        <span className="font-medium">{preview.targetBranch}</span>
+        <Badge variant={preview.mergeStatus === 'conflicting' ? "destructive" : "secondary"}>
+          {statusLabels[preview.mergeStatus]}
+        </Badge>
+      </div>
+
+      <div className="flex items-center gap-4 text-muted-foreground">
+        <span className="flex items-center gap-1">
+          <ArrowUp className="h-3 w-3" />
+          {preview.aheadBy} ahead
+        </span>
+        <span className="flex items-center gap-1">
+          <ArrowDown className="h-3 w-3" />
+          {preview.behindBy} behind
+        </span>
+        <span className="flex items-center gap-1">
+          <FileText className="h-3 w-3" />
+          {preview.files.length} file(s) changed
+        </span>
+      </div>
+
+      <p className={isDestructive ? "text-red-500 flex items-center gap-1" : "text-muted-foreground"}>
+        {isDestructive && <AlertTriangle className="h-4 w-4" />}
+        {getOutcome(preview, pushType)}
+      </p>
+
+      {preview.conflictingFiles.length > 0 && (
+        <div className="space-y-1">
+          <div className="font-medium">Changed on both sides</div>
+          {preview.conflictingFiles.map(filename => (
+            <div key={filename} className="text-xs font-mono text-red-500">{filename}</div>
+          ))}
+        </div>
+      )}
+
+      {preview.commits.length > 0 && (
+        <div className="space-y-1">
+          <div className="font-medium">Incoming commits</div>
+          {preview.commits.slice(0, 5).map(commit => (
+            <div key={commit.sha} className="flex items-center gap-2 text-xs">
+              <GitCommit className="h-3 w-3 text-muted-foreground" />
+              <span className="font-mono">{commit.sha.substring(0, 7)}</span>
+              <span className="truncate">{commit.message}</span>
+            </div>
+          ))}
+          {preview.commits.length > 5 && (
+            <div className="text-xs text-muted-foreground">and {preview.commits.length - 5} more</div>
+          )}
+        </div>
+      )}
+
+      {preview.htmlUrl && (
+        <a
+          href={preview.htmlUrl}
+          target="_blank"
+          rel="noreferrer"
+          className="text-xs text-primary underline"
+        >
+          View full comparison
+        </a>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,329 @@
+import { useState, useEffect } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { invokeGitOperation, readLastCommits } from "@/lib/git-operations";
+import {
+  diffRegistry,
+  loadRegistrySyncRules,
+  normalizeRepoUrl,
+  parseRegistry,
+  type RegistryDiff,
+  type RegistryRepository,
+  type RegistrySyncRule,
+} from "@/lib/registry";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface RegistryImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  workspaceId: string;
+  repositories: RegistryRepository[];
+  onApplied: () => void;
+}
+
+// Reads an exported registry, shows how it differs from the workspace and
+// applies the difference. Removing repositories missing from the file is
+// opt-in, as it also deletes their history; sync rules missing from a file
+// that lists sync rules are always removed.
+export function RegistryImportDialog({ open, onOpenChange, workspaceId, repositories, onApplied }: RegistryImportDialogProps) {
+  const [text, setText] = useState("");
+  const [diff, setDiff] = useState<RegistryDiff | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [warnings, setWarnings] = useState<string[]>([]);
+  const [applyRemovals, setApplyRemovals] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) {
+      setText("");
+      setDiff(null);
+      setErrors([]);
+      setWarnings([]);
+      setApplyRemovals(false);
+    }
+  }, [open]);
+
+  // Any edit invalidates the reviewed difference
+  useEffect(() => {
+    setDiff(null);
+  }, [text]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) setText(await file.text());
+  };
+
+  const handleReview = async () => {
+    const result = parseRegistry(text);
+    if (result.errors) {
+      setErrors(result.errors);
+      setWarnings([]);
+      setDiff(null);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      const rules = result.syncRules ? await loadRegistrySyncRules(repositories) : [];
+
+      setErrors([]);
+      setWarnings(result.warnings);
+      setDiff(diffRegistry(repositories, result.entries, rules, result.syncRules));
+    } catch (error) {
+      console.error('Error fetching sync rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch sync rules",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const describeRule = (rule: RegistrySyncRule) =>
+    `${rule.source_url}${rule.source_branch ? `@${rule.source_branch}` : ""} → ` +
+    `${rule.target_url}${rule.target_branch ? `@${rule.target_branch}` : ""}`;
+
+  const handleApply = async () => {
+    if (!diff) return;
+
+    try {
+      setIsLoading(true);
+
+      const { data: added, error: insertError } = diff.added.length > 0
+        ? await supabase
+          .from('repositories')
+          .insert(diff.added.map(entry => ({
+            url: entry.url,
+            name: entry.name,
+            nickname: entry.nickname,
+            provider: entry.provider,
+            groups: entry.groups,
+            workspace_id: workspaceId,
+            status: 'synced'
+          })))
+          .select('id, url')
+        : { data: [], error: null };
+
+      if (insertError) throw insertError;
+
+      for (const { repository, entry } of diff.changed) {
+        const { error } = await supabase
+          .from('repositories')
+          .update({ name: entry.name, nickname: entry.nickname, provider: entry.provider, groups: entry.groups })
+          .eq('id', repository.id);
+
+        if (error) throw error;
+      }
+
+      if (applyRemovals && diff.removed.length > 0) {
+        const { error } = await supabase
+          .from('repositories')
+          .delete()
+          .in('id', diff.removed.map(repo => repo.id));
+
+        if (error) throw error;
+      }
+
+      const { syncRules } = diff;
+
+      if (syncRules.removed.length > 0) {
+        const { error } = await supabase
+          .from('sync_rules')
+          .delete()
+          .in('id', syncRules.removed.map(rule => rule.id));
+
+        if (error) throw error;
+      }
+
+      for (const { rule, entry } of syncRules.changed) {
+        const { error } = await supabase
+          .from('sync_rules')
+          .update({ push_type: entry.push_type, schedule: entry.schedule, run_on_push: entry.run_on_push, enabled: entry.enabled })
+          .eq('id', rule.id);
+
+        if (error) throw error;
+      }
+
+      if (syncRules.added.length > 0) {
+        // Rules may push between repositories added above
+        const ids = new Map([...repositories, ...added].map(repo => [normalizeRepoUrl(repo.url), repo.id]));
+        const { error } = await supabase
+          .from('sync_rules')
+          .insert(syncRules.added.map(rule => ({
+            source_repository_id: ids.get(normalizeRepoUrl(rule.source_url))!,
+            target_repository_id: ids.get(normalizeRepoUrl(rule.target_url))!,
+            source_branch: rule.source_branch,
+            target_branch: rule.target_branch,
+            push_type: rule.push_type,
+            schedule: rule.schedule,
+            run_on_push: rule.run_on_push,
+            enabled: rule.enabled
+          })));
+
+        if (error) throw error;
+      }
+
+      // The master flag is only set through git-operations
+      const newMaster = [...diff.added, ...diff.changed.map(change => change.entry)].find(entry => entry.is_master);
+      if (newMaster) {
+        const masterId = diff.changed.find(change => change.entry === newMaster)?.repository.id ??
+          added.find(repo => repo.url === newMaster.url)?.id;
+        if (masterId) {
+          const { error } = await invokeGitOperation({ type: 'setMaster', targetRepoId: masterId });
+          if (error) throw error;
+        }
+      }
+
+      await readLastCommits(added.map(repo => repo.id));
+
+      toast({
+        title: "Success",
+        description: `${diff.added.length} added, ${diff.changed.length} changed` +
+          (applyRemovals ? `, ${diff.removed.length} removed` : "") +
+          (syncRuleCount > 0 ? `; ${syncRuleCount} sync ${syncRuleCount === 1 ? "rule" : "rules"} updated` : ""),
+      });
+      onApplied();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error importing registry:', error);
+      toast({
+        title: "Error",
+        description: "Failed to apply the registry. Changes made before the failure were kept; review the file again.",
+        variant: "destructive",
+      });
+      onApplied();
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const syncRuleCount = diff ? diff.syncRules.added.length + diff.syncRules.changed.length + diff.syncRules.removed.length : 0;
+  const hasChanges = !!diff &&
+    (diff.added.length > 0 || diff.changed.length > 0 || (applyRemovals && diff.removed.length > 0) || syncRuleCount > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Registry</DialogTitle>
+          <DialogDescription>
+            Paste or choose an exported JSON or YAML registry. Repositories are matched by URL, ignoring .git, letter case and HTTPS or SSH; sync rules by their repositories and branches.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <input
+            type="file"
+            accept=".json,.yaml,.yml,application/json,application/yaml,text/yaml"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            className="text-sm"
+            disabled={isLoading}
+          />
+          <Textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder={"version: 1\nrepositories:\n  - url: https://github.com/acme/app\n    provider: github\n    groups: [backend]"}
+            className="bg-background/50 font-mono text-xs min-h-40"
+            disabled={isLoading}
+          />
+
+          {errors.length > 0 && (
+            <div className="space-y-1">
+              {errors.map(error => (
+                <p key={error} className="text-xs text-destructive">{error}</p>
+              ))}
+            </div>
+          )}
+          {warnings.map(warning => (
+            <p key={warning} className="text-xs text-muted-foreground">{warning}</p>
+          ))}
+
+          {diff && (
+            <div className="max-h-72 overflow-y-auto space-y-2 text-sm">
+              {diff.added.length === 0 && diff.changed.length === 0 && diff.removed.length === 0 && syncRuleCount === 0 && (
+                <p className="text-muted-foreground">The workspace already matches this registry.</p>
+              )}
+              {diff.added.map(entry => (
+                <div key={entry.url} className="flex items-center gap-2">
+                  <Badge variant="secondary">added</Badge>
+                  <span className="truncate">{entry.nickname || entry.url}</span>
+                </div>
+              ))}
+              {diff.changed.map(({ repository, fields }) => (
+                <div key={repository.id} className="flex items-center gap-2">
+                  <Badge variant="outline">changed</Badge>
+                  <span className="truncate">{repository.nickname || repository.url}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">{fields.join(", ")}</span>
+                </div>
+              ))}
+              {diff.removed.map(repo => (
+                <div key={repo.id} className={`flex items-center gap-2 ${applyRemovals ? "" : "opacity-50"}`}>
+                  <Badge variant="destructive">removed</Badge>
+                  <span className="truncate">{repo.nickname || repo.url}</span>
+                </div>
+              ))}
+              {diff.syncRules.added.map(rule => (
+                <div key={describeRule(rule)} className="flex items-center gap-2">
+                  <Badge variant="secondary">rule added</Badge>
+                  <span className="truncate">{describeRule(rule)}</span>
+                </div>
+              ))}
+              {diff.syncRules.changed.map(({ rule, fields }) => (
+                <div key={rule.id} className="flex items-center gap-2">
+                  <Badge variant="outline">rule changed</Badge>
+                  <span className="truncate">{describeRule(rule)}</span>
+                  <span className="text-xs text-muted-foreground shrink-0">{fields.join(", ")}</span>
+                </div>
+              ))}
+              {diff.syncRules.removed.map(rule => (
+                <div key={rule.id} className="flex items-center gap-2">
+                  <Badge variant="destructive">rule removed</Badge>
+                  <span className="truncate">{describeRule(rule)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {diff && diff.removed.length > 0 && (
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={applyRemovals}
+                onCheckedChange={(checked) => setApplyRemovals(checked === true)}
+                disabled={isLoading}
+              />
+              Delete the {diff.removed.length} {diff.removed.length === 1 ? "repository" : "repositories"} missing from the file
+            </label>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isLoading}>
+            Cancel
+          </Button>
+          {diff ? (
+            <Button onClick={handleApply} disabled={isLoading || !hasChanges}>
+              {isLoading ? "Applying..." : "Apply Changes"}
+            </Button>
+          ) : (
+            <Button onClick={handleReview} disabled={isLoading || !text.trim()}>
+              Review Changes
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,12 +1,33 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
+import { Link } from "react-router-dom";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
-import { GitBranch, GitCommit, Star, History, Tag, AlertTriangle, Trash2, Edit2, RefreshCw } from "lucide-react";
+import { GitBranch, GitCommit, Star, History, Tag, Trash2, Edit2, RefreshCw, Shield, Download, Upload, FileDown } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
+import { PushPreview, PushPreviewData } from "@/components/PushPreview";
+import { SyncTimeline } from "@/components/SyncTimeline";
+import { SyncRules } from "@/components/SyncRules";
+import { JobQueue } from "@/components/JobQueue";
+import { TagSyncSummary, TagSyncData } from "@/components/TagSyncSummary";
+import { BatchPushSummary } from "@/components/BatchPushSummary";
+import { ProtectionRulesDialog } from "@/components/ProtectionRulesDialog";
+import { ImportReposDialog } from "@/components/ImportReposDialog";
+import { RegistryImportDialog } from "@/components/RegistryImportDialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { PROVIDER_LABELS, detectProvider, getHost, requiresGitTransport } from "@/lib/providers";
+import { describeOperationError, readOperationError } from "@/lib/operation-errors";
+import { invokeGitOperation } from "@/lib/git-operations";
+import { exportRegistry, loadRegistrySyncRules, type RegistryFormat } from "@/lib/registry";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { useOperationJobs, jobErrorBody, type OperationJob } from "@/hooks/use-operation-jobs";
+import { useSession } from "@supabase/auth-helpers-react";
+import type { Tables } from "@/integrations/supabase/types";
+import type { BranchSummary, JobOperation, PushBatchResult, PushResponse, PushType } from "@shared/operations";
+import { ToastAction } from "@/components/ui/toast";
 import {
   AlertDialog,
   AlertDialogAction,
@@ -23,39 +44,147 @@ interface Repository {
   url: string;
   name?: string;
   nickname?: string;
+  provider?: string;
+  credential_id?: string | null;
   is_master?: boolean;
   last_sync?: string;
   status?: string;
   last_commit?: string;
   last_commit_date?: string;
+  groups?: string[];
 }
 
 export function RepoManager() {
   const [repositories, setRepositories] = useState<Repository[]>([]);
   const [repoUrl, setRepoUrl] = useState("");
   const [repoLabel, setRepoLabel] = useState("");
-  const [pushType, setPushType] = useState("regular");
+  const [repoProvider, setRepoProvider] = useState("auto");
+  const [repoCredential, setRepoCredential] = useState("auto");
+  const [credentials, setCredentials] = useState<Tables<"credential_summaries">[]>([]);
+  const [pushType, setPushType] = useState<PushType>("regular");
   const [selectedSourceRepo, setSelectedSourceRepo] = useState("");
   const [selectedTargetRepo, setSelectedTargetRepo] = useState("");
-  const [lastAction, setLastAction] = useState<string>("");
-  const [showMasterWarning, setShowMasterWarning] = useState(false);
-  const [confirmationStep, setConfirmationStep] = useState(0);
+  const [sourceBranches, setSourceBranches] = useState<BranchSummary[]>([]);
+  const [targetBranches, setTargetBranches] = useState<BranchSummary[]>([]);
+  const [selectedSourceBranch, setSelectedSourceBranch] = useState("");
+  const [selectedTargetBranch, setSelectedTargetBranch] = useState("");
+  const [extraRefspecs, setExtraRefspecs] = useState("");
+  const [syncTagsAfterPush, setSyncTagsAfterPush] = useState(false);
+  const [includeReleases, setIncludeReleases] = useState(false);
+  const [tagSyncResult, setTagSyncResult] = useState<TagSyncData | null>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
+  const [preview, setPreview] = useState<PushPreviewData | null>(null);
+  // Batch mode pushes the source into the default branch of several targets
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchTargets, setBatchTargets] = useState<string[]>([]);
+  const [batchResults, setBatchResults] = useState<PushBatchResult[] | null>(null);
+  const [targetRequiresApproval, setTargetRequiresApproval] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [repoToDelete, setRepoToDelete] = useState<string | null>(null);
   const [editingRepo, setEditingRepo] = useState<Repository | null>(null);
+  const [protectedRepo, setProtectedRepo] = useState<Repository | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [showRegistryImport, setShowRegistryImport] = useState(false);
+  // Jobs queued here that synchronize tags once their push succeeds
+  const tagSyncJobs = useRef(new Set<string>());
   const { toast } = useToast();
+  const session = useSession();
+  const { current: workspace } = useWorkspace();
+  const jobs = useOperationJobs(workspace?.id, (job) => handleJobFinished(job));
+
+  // Mirrors the checks git-operations and the database enforce, so actions
+  // the role does not allow are not offered
+  const isAdmin = workspace?.role === 'admin';
+  const canOperate = isAdmin || workspace?.role === 'operator';
+  const targetIsMaster = !!repositories.find(repo => repo.id === selectedTargetRepo)?.is_master;
+  const pushesToMaster = pushType !== 'pull-request' && targetIsMaster;
+  // Nobody pushes into these directly: a push request is approved by a
+  // second member and then executed from the Approvals page
+  const needsApproval = pushesToMaster || (pushType !== 'pull-request' && targetRequiresApproval);
+  // Push requests only cover branches, so tags are never synced into these
+  const canSyncTags = !targetIsMaster && !targetRequiresApproval;
+  // Targets picked before the source changed may include it
+  const selectedBatchTargets = batchTargets.filter(id =>
+    id !== selectedSourceRepo && repositories.some(repo => repo.id === id && !repo.is_master));
 
-  // Fetch repositories from Supabase
   useEffect(() => {
-    fetchRepositories();
+    fetchCredentials();
   }, []);
 
-  const fetchRepositories = async () => {
+  // A preview only describes the selection it was made for
+  useEffect(() => {
+    setPreview(null);
+  }, [selectedSourceRepo, selectedTargetRepo, selectedSourceBranch, selectedTargetBranch, pushType, extraRefspecs]);
+
+  // Shows what went wrong in git-operations and, where it helps, a link to
+  // the provider's comparison of the selected branches
+  const showOperationError = async (error: unknown, fallback: string) => {
+    const { title, description, showCompare } = describeOperationError(await readOperationError(error), fallback);
+    const compareUrl = showCompare ? preview?.htmlUrl : undefined;
+
+    toast({
+      title,
+      description,
+      variant: "destructive",
+      action: compareUrl ? (
+        <ToastAction altText="View comparison" onClick={() => window.open(compareUrl, "_blank")}>
+          View comparison
+        </ToastAction>
+      ) : undefined,
+    });
+  };
+
+  const fetchBranches = useCallback(async (
+    repoId: string,
+    setBranches: (branches: BranchSummary[]) => void,
+    setSelectedBranch?: (branch: string) => void
+  ) => {
+    try {
+      const { data, error } = await invokeGitOperation({
+        type: 'listBranches',
+        sourceRepoId: repoId
+      });
+
+      if (error) throw error;
+
+      setBranches(data.branches || []);
+      setSelectedBranch?.(data.defaultBranch || "");
+    } catch (error) {
+      console.error('Error fetching branches:', error);
+      const { title, description } = describeOperationError(await readOperationError(error), "Failed to fetch branches");
+      toast({ title, description, variant: "destructive" });
+    }
+  }, [toast]);
+
+  const fetchApprovalRule = async (repoId: string) => {
+    setTargetRequiresApproval(false);
+    if (!repoId) return;
+
+    const { data, error } = await supabase
+      .from('protection_rules')
+      .select('require_approval')
+      .eq('repository_id', repoId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching protection rules:', error);
+      return;
+    }
+    setTargetRequiresApproval(!!data?.require_approval);
+  };
+
+  const fetchRepositories = useCallback(async () => {
+    if (!workspace) {
+      setRepositories([]);
+      return;
+    }
+
     try {
       const { data, error } = await supabase
         .from('repositories')
         .select('*')
+        .eq('workspace_id', workspace.id)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -68,8 +197,49 @@ export function RepoManager() {
         variant: "destructive",
       });
     }
+  }, [workspace, toast]);
+
+  // Fetch repositories from Supabase
+  useEffect(() => {
+    fetchRepositories();
+  }, [fetchRepositories]);
+
+  // Load branches whenever the selected source or target repository changes
+  useEffect(() => {
+    setSourceBranches([]);
+    setSelectedSourceBranch("");
+    if (selectedSourceRepo) {
+      fetchBranches(selectedSourceRepo, setSourceBranches, setSelectedSourceBranch);
+    }
+  }, [selectedSourceRepo, fetchBranches]);
+
+  useEffect(() => {
+    setTargetBranches([]);
+    setSelectedTargetBranch("");
+    if (selectedTargetRepo) {
+      fetchBranches(selectedTargetRepo, setTargetBranches, setSelectedTargetBranch);
+    }
+    fetchApprovalRule(selectedTargetRepo);
+  }, [selectedTargetRepo, fetchBranches]);
+
+  // Secrets stay in the function; the view only lists what can be selected
+  const fetchCredentials = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('credential_summaries')
+        .select('*')
+        .order('name');
+
+      if (error) throw error;
+      setCredentials(data || []);
+    } catch (error) {
+      console.error('Error fetching credentials:', error);
+    }
   };
 
+  const repoHost = getHost(repoUrl);
+  const matchingCredentials = credentials.filter(credential => !repoHost || credential.host === repoHost.toLowerCase());
+
   const handleAddRepo = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -82,6 +252,16 @@ export function RepoManager() {
       return;
     }
 
+    const provider = repoProvider === "auto" ? detectProvider(repoUrl) : repoProvider;
+    if (!provider) {
+      toast({
+        title: "Error",
+        description: "Could not detect the provider from the URL, please select one",
+        variant: "destructive",
+      });
+      return;
+    }
+
     try {
       setIsLoading(true);
       const { data, error } = await supabase
@@ -90,7 +270,9 @@ export function RepoManager() {
           url: repoUrl,
           name: repoUrl.split('/').pop()?.replace('.git', '') || '',
           nickname: repoLabel,
-          is_master: repositories.length === 0,
+          provider,
+          credential_id: repoCredential === "auto" ? null : repoCredential,
+          workspace_id: workspace.id,
           status: 'synced'
         })
         .select()
@@ -98,18 +280,24 @@ export function RepoManager() {
 
       if (error) throw error;
 
+      // The master flag is only set through git-operations
+      if (repositories.length === 0) {
+        await invokeGitOperation({ type: 'setMaster', targetRepoId: data.id });
+      }
+
       // Fetch last commit information
-      await supabase.functions.invoke('git-operations', {
-        body: {
-          type: 'getLastCommit',
-          sourceRepoId: data.id
-        }
+      await invokeGitOperation({
+        type: 'getLastCommit',
+        sourceRepoId: data.id
       });
 
       await fetchRepositories(); // Refresh the list to get updated commit info
+      setHistoryRefreshKey(prev => prev + 1);
       
       setRepoUrl("");
       setRepoLabel("");
+      setRepoProvider("auto");
+      setRepoCredential("auto");
       
       toast({
         title: "Success",
@@ -127,6 +315,43 @@ export function RepoManager() {
     }
   };
 
+  // Downloads the workspace's repositories and sync rules in the format the
+  // registry import reads back
+  const handleExportRegistry = async (format: RegistryFormat) => {
+    let syncRules;
+    try {
+      syncRules = await loadRegistrySyncRules(repositories);
+    } catch (error) {
+      console.error('Error fetching sync rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch sync rules for the export",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const content = exportRegistry(
+      repositories.map(repo => ({
+        url: repo.url,
+        name: repo.name || "",
+        nickname: repo.nickname ?? null,
+        is_master: !!repo.is_master,
+        provider: repo.provider || "github",
+        groups: repo.groups ?? [],
+      })),
+      syncRules,
+      format
+    );
+
+    const blob = new Blob([content], { type: format === "json" ? "application/json" : "application/yaml" });
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(blob);
+    link.download = `${workspace?.name || "repositories"}-registry.${format === "json" ? "json" : "yaml"}`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  };
+
   const handleDeleteRepo = async (id: string) => {
     try {
       setIsLoading(true);
@@ -191,14 +416,15 @@ export function RepoManager() {
   const refreshLastCommit = async (id: string) => {
     try {
       setIsLoading(true);
-      await supabase.functions.invoke('git-operations', {
-        body: {
-          type: 'getLastCommit',
-          sourceRepoId: id
-        }
+      const { error } = await invokeGitOperation({
+        type: 'getLastCommit',
+        sourceRepoId: id
       });
 
+      if (error) throw error;
+
       await fetchRepositories(); // Refresh the list to get updated commit info
+      setHistoryRefreshKey(prev => prev + 1);
       
       toast({
         title: "Success",
@@ -206,16 +432,68 @@ export function RepoManager() {
       });
     } catch (error) {
       console.error('Error refreshing repository:', error);
+      await showOperationError(error, "Failed to refresh repository information");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handlePreviewPush = async () => {
+    if (!selectedSourceRepo || !selectedTargetRepo) {
       toast({
         title: "Error",
-        description: "Failed to refresh repository information",
+        description: "Please select both source and target repositories",
         variant: "destructive",
       });
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+
+      const { data, error } = await invokeGitOperation({
+        type: 'compare',
+        sourceRepoId: selectedSourceRepo,
+        targetRepoId: selectedTargetRepo,
+        sourceBranch: selectedSourceBranch || undefined,
+        targetBranch: selectedTargetBranch || undefined
+      });
+
+      if (error) throw error;
+
+      setPreview(data);
+    } catch (error) {
+      console.error('Error previewing push operation:', error);
+      await showOperationError(error, "Failed to preview push operation");
     } finally {
       setIsLoading(false);
     }
   };
 
+  const handleSyncTags = async (sourceRepoId: string, targetRepoId: string) => {
+    try {
+      const { data, error } = await invokeGitOperation({
+        type: 'syncTags',
+        sourceRepoId,
+        targetRepoId,
+        includeReleases
+      });
+
+      if (error) throw error;
+
+      setTagSyncResult(data);
+
+      toast({
+        title: data.conflicting.length > 0 ? "Tags partially synchronized" : "Success",
+        description: `${data.created.length} tag(s) created, ${data.skipped.length} identical, ${data.conflicting.length} conflicting`,
+        variant: data.conflicting.length > 0 ? "destructive" : "default",
+      });
+    } catch (error) {
+      console.error('Error synchronizing tags:', error);
+      await showOperationError(error, "Push completed but tags could not be synchronized");
+    }
+  };
+
   const handlePushRepo = async () => {
     if (!selectedSourceRepo || !selectedTargetRepo) {
       toast({
@@ -226,73 +504,166 @@ export function RepoManager() {
       return;
     }
 
-    const targetRepo = repositories.find(r => r.id === selectedTargetRepo);
-    
-    if (targetRepo?.is_master && confirmationStep === 0) {
-      setShowMasterWarning(true);
-      return;
-    }
-
     try {
       setIsLoading(true);
+      setTagSyncResult(null);
       
-      const { data, error } = await supabase.functions.invoke('git-operations', {
-        body: {
+      // The push runs as a background job; handleJobFinished reports it
+      const { data, error } = await invokeGitOperation({
+        type: 'enqueueJob',
+        operation: {
           type: 'push',
           sourceRepoId: selectedSourceRepo,
           targetRepoId: selectedTargetRepo,
-          pushType
+          pushType,
+          sourceBranch: selectedSourceBranch || undefined,
+          targetBranch: selectedTargetBranch || undefined,
+          expectedTargetSha: targetBranches.find(b => b.name === selectedTargetBranch)?.sha,
+          refspecs: extraRefspecs.split(/[\s,]+/).filter(Boolean),
+          previewId: preview?.previewId ?? undefined
         }
       });
 
       if (error) throw error;
 
-      const sourceRepo = repositories.find(r => r.id === selectedSourceRepo);
-      const actionMessage = `Pushed from ${sourceRepo?.nickname || sourceRepo?.url} to ${targetRepo?.nickname || targetRepo?.url} at ${new Date().toLocaleTimeString()}`;
-      setLastAction(actionMessage);
-      
-      await fetchRepositories(); // Refresh repositories list
-      
+      if (syncTagsAfterPush && canSyncTags) {
+        tagSyncJobs.current.add(data.jobId);
+      }
+      setPreview(null);
+
       toast({
-        title: "Success",
-        description: `Push completed with ${pushType} strategy`,
+        title: "Push queued",
+        description: "Follow its progress under Jobs. You can keep working meanwhile.",
       });
     } catch (error) {
-      console.error('Error during push operation:', error);
+      console.error('Error queueing push operation:', error);
+      await showOperationError(error, "Failed to queue push operation");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Called as jobs in the workspace finish. Everyone's jobs refresh the
+  // page; only the current user's own jobs are announced.
+  const handleJobFinished = async (job: OperationJob) => {
+    const operation = job.operation as unknown as JobOperation;
+    fetchRepositories();
+    setHistoryRefreshKey(prev => prev + 1);
+    if (operation.targetRepoId === selectedTargetRepo) {
+      fetchBranches(selectedTargetRepo, setTargetBranches);
+    }
+
+    const syncTags = tagSyncJobs.current.delete(job.id);
+    if (job.created_by !== session?.user.id || operation.type !== 'push') return;
+
+    if (job.status === 'succeeded') {
+      const result = job.result as unknown as PushResponse;
+      toast({
+        title: "Success",
+        description: operation.pushType === 'pull-request'
+          ? `Opened pull request #${result.pullRequest?.number}`
+          : `Push completed with ${operation.pushType} strategy`,
+      });
+
+      if (syncTags) {
+        await handleSyncTags(operation.sourceRepoId, operation.targetRepoId);
+      }
+    } else {
+      const { title, description } = describeOperationError(jobErrorBody(job), "Failed to complete push operation");
+      toast({ title, description, variant: "destructive" });
+    }
+  };
+
+  // Pushes into every selected target; failures are reported per target
+  // instead of stopping the batch
+  const handleBatchPush = async () => {
+    if (!selectedSourceRepo || selectedBatchTargets.length === 0) {
       toast({
         title: "Error",
-        description: "Failed to complete push operation",
+        description: "Please select a source and at least one target repository",
         variant: "destructive",
       });
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setBatchResults(null);
+
+      const { data, error } = await invokeGitOperation({
+        type: 'pushBatch',
+        sourceRepoId: selectedSourceRepo,
+        targetRepoIds: selectedBatchTargets,
+        pushType,
+        sourceBranch: selectedSourceBranch || undefined,
+        refspecs: extraRefspecs.split(/[\s,]+/).filter(Boolean)
+      });
+
+      if (error) throw error;
+
+      setBatchResults(data.results);
+      await fetchRepositories();
+
+      const failed = data.results.filter(result => result.status === 'failed').length;
+      toast({
+        title: failed > 0 ? "Batch push partially failed" : "Success",
+        description: `${data.results.length - failed} of ${data.results.length} repositories pushed with ${pushType} strategy`,
+        variant: failed > 0 ? "destructive" : "default",
+      });
+    } catch (error) {
+      console.error('Error during batch push:', error);
+      await showOperationError(error, "Failed to complete batch push");
     } finally {
       setIsLoading(false);
-      setConfirmationStep(0);
-      setShowMasterWarning(false);
+      setHistoryRefreshKey(prev => prev + 1);
     }
   };
 
-  const handleMasterWarningConfirm = () => {
-    setConfirmationStep(prev => prev + 1);
-    if (confirmationStep >= 2) {
-      handlePushRepo();
+  const toggleBatchTarget = (repoId: string, checked: boolean) => {
+    setBatchTargets(prev => checked ? [...prev, repoId] : prev.filter(id => id !== repoId));
+  };
+
+  // Submits the previewed push for approval instead of running it
+  const handleRequestApproval = async () => {
+    if (!preview?.previewId || pushType === 'pull-request') return;
+
+    try {
+      setIsLoading(true);
+
+      const { error } = await invokeGitOperation({
+        type: 'requestPush',
+        previewId: preview.previewId,
+        pushType
+      });
+
+      if (error) throw error;
+
+      setPreview(null);
+
+      toast({
+        title: "Push request submitted",
+        description: "Another workspace member has to approve it before it can be executed.",
+        action: (
+          <ToastAction altText="Open approvals" asChild>
+            <Link to="/approvals">Open approvals</Link>
+          </ToastAction>
+        ),
+      });
+    } catch (error) {
+      console.error('Error requesting push approval:', error);
+      await showOperationError(error, "Failed to submit push request");
+    } finally {
+      setIsLoading(false);
     }
   };
 
   const toggleMaster = async (id: string) => {
     try {
       setIsLoading(true);
-      
-      // Update all repositories to not be master
-      await supabase
-        .from('repositories')
-        .update({ is_master: false })
-        .neq('id', id);
 
-      // Set the selected repository as master
-      const { error } = await supabase
-        .from('repositories')
-        .update({ is_master: true })
-        .eq('id', id);
+      // git-operations checks that the caller is an admin of the workspace
+      // and unflags the previous master
+      const { error } = await invokeGitOperation({ type: 'setMaster', targetRepoId: id });
 
       if (error) throw error;
 
@@ -304,11 +675,7 @@ export function RepoManager() {
       });
     } catch (error) {
       console.error('Error toggling master repository:', error);
-      toast({
-        title: "Error",
-        description: "Failed to update master repository",
-        variant: "destructive",
-      });
+      await showOperationError(error, "Failed to update master repository");
     } finally {
       setIsLoading(false);
     }
@@ -321,43 +688,118 @@ export function RepoManager() {
         <h2 className="text-2xl font-semibold">Repository Manager</h2>
       </div>
       
-      <form onSubmit={handleAddRepo} className="space-y-4">
-        <div className="space-y-2">
-          <label htmlFor="repoUrl" className="text-sm font-medium">
-            Repository URL
-          </label>
-          <Input
-            id="repoUrl"
-            placeholder="https://github.com/username/repo.git"
-            value={repoUrl}
-            onChange={(e) => setRepoUrl(e.target.value)}
-            className="bg-background/50"
-            disabled={isLoading}
-          />
-        </div>
+      {!workspace ? (
+        <p className="text-sm text-muted-foreground">
+          Create a workspace on the <Link to="/workspaces" className="underline">Workspaces</Link> page to add repositories.
+        </p>
+      ) : isAdmin ? (
+        <form onSubmit={handleAddRepo} className="space-y-4">
+          <div className="space-y-2">
+            <label htmlFor="repoUrl" className="text-sm font-medium">
+              Repository URL
+            </label>
+            <Input
+              id="repoUrl"
+              placeholder="https://github.com/username/repo.git"
+              value={repoUrl}
+              onChange={(e) => setRepoUrl(e.target.value)}
+              className="bg-background/50"
+              disabled={isLoading}
+            />
+          </div>
 
-        <div className="space-y-2">
-          <label htmlFor="repoLabel" className="text-sm font-medium">
-            Repository Label (Optional)
-          </label>
-          <Input
-            id="repoLabel"
-            placeholder="e.g., Production, Staging, Feature-X"
-            value={repoLabel}
-            onChange={(e) => setRepoLabel(e.target.value)}
-            className="bg-background/50"
-            disabled={isLoading}
-          />
-        </div>
+          <div className="space-y-2">
+            <label htmlFor="repoLabel" className="text-sm font-medium">
+              Repository Label (Optional)
+            </label>
+            <Input
+              id="repoLabel"
+              placeholder="e.g., Production, Staging, Feature-X"
+              value={repoLabel}
+              onChange={(e) => setRepoLabel(e.target.value)}
+              className="bg-background/50"
+              disabled={isLoading}
+            />
+          </div>
 
-        <Button type="submit" className="w-full" disabled={isLoading}>
-          {isLoading ? "Adding..." : "Add Repository"}
-        </Button>
-      </form>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Provider</label>
+            <Select 
+              value={repoProvider} 
+              onValueChange={setRepoProvider}
+              disabled={isLoading}
+            >
+              <SelectTrigger className="bg-background/50">
+                <SelectValue placeholder="Select provider" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Auto-detect from URL</SelectItem>
+                {Object.entries(PROVIDER_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Credentials</label>
+            <Select
+              value={repoCredential}
+              onValueChange={setRepoCredential}
+              disabled={isLoading}
+            >
+              <SelectTrigger className="bg-background/50">
+                <SelectValue placeholder="Select credentials" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Shared owner credential or default token</SelectItem>
+                {matchingCredentials.map(credential => (
+                  <SelectItem key={credential.id} value={credential.id}>
+                    {credential.name} ({credential.host}{credential.owner ? `/${credential.owner}` : ''})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-muted-foreground">
+              Manage credentials on the <Link to="/credentials" className="underline">Credentials</Link> page.
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            <Button type="submit" className="flex-1" disabled={isLoading}>
+              {isLoading ? "Adding..." : "Add Repository"}
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setShowImport(true)} disabled={isLoading}>
+              <Download className="h-4 w-4 mr-2" />
+              Import from GitHub
+            </Button>
+            <Button type="button" variant="outline" onClick={() => setShowRegistryImport(true)} disabled={isLoading}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import Registry
+            </Button>
+          </div>
+        </form>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          Only workspace admins can add repositories. You are {workspace.role === 'operator' ? 'an operator' : 'a viewer'} in {workspace.name}.
+        </p>
+      )}
 
       <div className="space-y-4 pt-4 border-t border-border/50">
         <h3 className="text-lg font-medium">Push Repository</h3>
-        
+
+        <label className="flex items-center gap-2 text-sm">
+          <Checkbox
+            checked={batchMode}
+            onCheckedChange={(checked) => {
+              setBatchMode(checked === true);
+              setBatchResults(null);
+            }}
+            disabled={isLoading}
+          />
+          Push to several target repositories
+        </label>
+
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
           <div className="space-y-2">
             <label className="text-sm font-medium">Source Repository</label>
@@ -380,33 +822,127 @@ export function RepoManager() {
             </Select>
           </div>
 
+          {batchMode ? (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Target Repositories</label>
+              {/* The master only takes approved pushes, so it is never a batch target */}
+              <div className="max-h-48 overflow-y-auto space-y-2 p-3 rounded-md border border-input bg-background/50">
+                {repositories
+                  .filter(repo => repo.id !== selectedSourceRepo && !repo.is_master)
+                  .map(repo => (
+                    <label key={repo.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={batchTargets.includes(repo.id)}
+                        onCheckedChange={(checked) => toggleBatchTarget(repo.id, checked === true)}
+                        disabled={isLoading}
+                      />
+                      <span className="truncate">{repo.nickname || repo.url}</span>
+                    </label>
+                  ))}
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Target Repository</label>
+              <Select 
+                value={selectedTargetRepo} 
+                onValueChange={setSelectedTargetRepo}
+                disabled={isLoading}
+              >
+                <SelectTrigger className="bg-background/50">
+                  <SelectValue placeholder="Select target repository" />
+                </SelectTrigger>
+                <SelectContent>
+                  {repositories.map(repo => (
+                    <SelectItem key={repo.id} value={repo.id}>
+                      {repo.nickname || repo.url}
+                      {repo.is_master && <Star className="inline h-4 w-4 ml-2 text-red-500" />}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="space-y-2">
-            <label className="text-sm font-medium">Target Repository</label>
+            <label className="text-sm font-medium">Source Branch</label>
             <Select 
-              value={selectedTargetRepo} 
-              onValueChange={setSelectedTargetRepo}
-              disabled={isLoading}
+              value={selectedSourceBranch} 
+              onValueChange={setSelectedSourceBranch}
+              disabled={isLoading || sourceBranches.length === 0}
             >
               <SelectTrigger className="bg-background/50">
-                <SelectValue placeholder="Select target repository" />
+                <SelectValue placeholder="Select source branch" />
               </SelectTrigger>
               <SelectContent>
-                {repositories.map(repo => (
-                  <SelectItem key={repo.id} value={repo.id}>
-                    {repo.nickname || repo.url}
-                    {repo.is_master && <Star className="inline h-4 w-4 ml-2 text-red-500" />}
+                {sourceBranches.map(branch => (
+                  <SelectItem key={branch.name} value={branch.name}>
+                    {branch.name}
                   </SelectItem>
                 ))}
               </SelectContent>
             </Select>
           </div>
+
+          {batchMode ? (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Target Branch</label>
+              <p className="text-sm text-muted-foreground">
+                Each target's default branch. Every target is pushed on its own, and one failing does not stop the others.
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Target Branch</label>
+              <Select 
+                value={selectedTargetBranch} 
+                onValueChange={setSelectedTargetBranch}
+                disabled={isLoading || targetBranches.length === 0}
+              >
+                <SelectTrigger className="bg-background/50">
+                  <SelectValue placeholder="Select target branch" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targetBranches.map(branch => (
+                    <SelectItem key={branch.name} value={branch.name}>
+                      {branch.name}
+                      {branch.protected && <Badge variant="outline" className="ml-2 text-xs">protected</Badge>}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {!batchMode && requiresGitTransport(
+          repositories.find(r => r.id === selectedSourceRepo),
+          repositories.find(r => r.id === selectedTargetRepo)
+        ) && (
+          <p className="text-xs text-muted-foreground">
+            These repositories are on different hosts, so the push is performed over git.
+          </p>
+        )}
+
+        <div className="space-y-2">
+          <label htmlFor="extraRefspecs" className="text-sm font-medium">
+            Additional Refspecs (Optional)
+          </label>
+          <Input
+            id="extraRefspecs"
+            placeholder="e.g., refs/tags/v1.0.0 release:release"
+            value={extraRefspecs}
+            onChange={(e) => setExtraRefspecs(e.target.value)}
+            className="bg-background/50"
+            disabled={isLoading}
+          />
         </div>
 
         <div className="space-y-2">
           <label className="text-sm font-medium">Push Type</label>
           <Select 
             value={pushType} 
-            onValueChange={setPushType}
+            onValueChange={(value) => setPushType(value as PushType)}
             disabled={isLoading}
           >
             <SelectTrigger className="bg-background/50">
@@ -416,25 +952,123 @@ export function RepoManager() {
               <SelectItem value="regular">Regular Push</SelectItem>
               <SelectItem value="force">Force Push</SelectItem>
               <SelectItem value="force-with-lease">Force with Lease</SelectItem>
+              <SelectItem value="pull-request">Open as Pull Request</SelectItem>
             </SelectContent>
           </Select>
         </div>
 
-        <Button 
-          onClick={handlePushRepo} 
-          className="w-full"
-          disabled={isLoading}
-        >
-          {isLoading ? "Pushing..." : "Push Repository"}
-        </Button>
+        {!batchMode && canSyncTags && (
+          <div className="flex flex-wrap items-center gap-6">
+            <label className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={syncTagsAfterPush}
+                onCheckedChange={(checked) => setSyncTagsAfterPush(checked === true)}
+                disabled={isLoading}
+              />
+              Sync tags after push
+            </label>
+            {syncTagsAfterPush && (
+              <label className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={includeReleases}
+                  onCheckedChange={(checked) => setIncludeReleases(checked === true)}
+                  disabled={isLoading}
+                />
+                Include GitHub releases
+              </label>
+            )}
+          </div>
+        )}
+
+        {!batchMode && preview && <PushPreview preview={preview} pushType={pushType} />}
+
+        {!canOperate ? (
+          <p className="text-sm text-muted-foreground">Viewers cannot push. Ask a workspace admin for the operator role.</p>
+        ) : !batchMode && needsApproval && (
+          <p className="text-sm text-muted-foreground">
+            {pushesToMaster
+              ? "Pushes into the master repository need approval from a workspace admin other than you."
+              : "This repository's protection rules require a second member to approve pushes."}
+            {" "}Preview the push and request approval, or open a pull request instead.
+          </p>
+        )}
+
+        {batchMode ? (
+          <Button
+            onClick={handleBatchPush}
+            className="w-full"
+            disabled={isLoading || selectedBatchTargets.length === 0 || !canOperate}
+          >
+            {isLoading
+              ? "Pushing..."
+              : `${pushType === 'pull-request' ? "Open Pull Requests in" : "Push to"} ${selectedBatchTargets.length} ${selectedBatchTargets.length === 1 ? "Repository" : "Repositories"}`}
+          </Button>
+        ) : preview ? (
+          needsApproval ? (
+            <Button
+              onClick={handleRequestApproval}
+              className="w-full"
+              disabled={isLoading || preview.mergeStatus === 'identical' || !canOperate || !preview.previewId}
+            >
+              {isLoading ? "Submitting..." : "Request Approval"}
+            </Button>
+          ) : (
+            <Button 
+              onClick={handlePushRepo} 
+              className="w-full"
+              disabled={isLoading || preview.mergeStatus === 'identical' || !canOperate}
+            >
+              {isLoading ? "Queueing..." : pushType === 'pull-request' ? "Open Pull Request" : "Push Repository"}
+            </Button>
+          )
+        ) : (
+          <Button 
+            onClick={handlePreviewPush} 
+            className="w-full"
+            variant="secondary"
+            disabled={isLoading}
+          >
+            {isLoading ? "Comparing..." : "Preview Push"}
+          </Button>
+        )}
+
+        {tagSyncResult && <TagSyncSummary result={tagSyncResult} />}
+        {batchMode && batchResults && <BatchPushSummary results={batchResults} repositories={repositories} />}
       </div>
 
+      <JobQueue jobs={jobs} repositories={repositories} canOperate={canOperate} />
+
+      <SyncRules
+        repositories={repositories}
+        selection={{
+          sourceRepoId: selectedSourceRepo,
+          targetRepoId: selectedTargetRepo,
+          sourceBranch: selectedSourceBranch,
+          targetBranch: selectedTargetBranch,
+          pushType,
+        }}
+        canOperate={canOperate}
+        refreshKey={historyRefreshKey}
+      />
+
       {repositories.length > 0 && (
         <div className="space-y-4 pt-4 border-t border-border/50">
-          <h3 className="text-lg font-medium flex items-center gap-2">
-            <History className="h-5 w-5" />
-            Repository History
-          </h3>
+          <div className="flex items-center justify-between">
+            <h3 className="text-lg font-medium flex items-center gap-2">
+              <GitBranch className="h-5 w-5" />
+              Repositories
+            </h3>
+            <div className="flex items-center gap-1">
+              <Button variant="ghost" size="sm" className="text-xs" onClick={() => handleExportRegistry("json")}>
+                <FileDown className="h-3 w-3 mr-1" />
+                Export JSON
+              </Button>
+              <Button variant="ghost" size="sm" className="text-xs" onClick={() => handleExportRegistry("yaml")}>
+                <FileDown className="h-3 w-3 mr-1" />
+                Export YAML
+              </Button>
+            </div>
+          </div>
           <div className="space-y-2">
             {repositories.map(repo => (
               <div 
@@ -446,15 +1080,21 @@ export function RepoManager() {
                 <div className="flex items-center gap-2">
                   <GitCommit className={`h-4 w-4 ${repo.is_master ? 'text-red-500' : 'text-muted-foreground'}`} />
                   <span className="text-sm">{repo.url}</span>
+                  {repo.provider && (
+                    <Badge variant="outline">{PROVIDER_LABELS[repo.provider] || repo.provider}</Badge>
+                  )}
                   {repo.nickname && (
                     <Badge variant="secondary" className="flex items-center gap-1">
                       <Tag className="h-3 w-3" />
                       {repo.nickname}
                     </Badge>
                   )}
+                  {repo.groups?.map(group => (
+                    <Badge key={group} variant="outline" className="text-xs">{group}</Badge>
+                  ))}
                   {repo.is_master ? (
                     <Star className="h-4 w-4 text-red-500" />
-                  ) : (
+                  ) : isAdmin && (
                     <Button
                       variant="ghost"
                       size="sm"
@@ -475,29 +1115,56 @@ export function RepoManager() {
                     <RefreshCw className="h-3 w-3 mr-1" />
                     Refresh
                   </Button>
+                  {isAdmin && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setProtectedRepo(repo)}
+                      className="text-xs"
+                      disabled={isLoading}
+                    >
+                      <Shield className="h-3 w-3 mr-1" />
+                      Protection
+                    </Button>
+                  )}
+                  {isAdmin && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditingRepo(repo)}
+                      className="text-xs"
+                      disabled={isLoading}
+                    >
+                      <Edit2 className="h-3 w-3 mr-1" />
+                      Edit
+                    </Button>
+                  )}
                   <Button
                     variant="ghost"
                     size="sm"
-                    onClick={() => setEditingRepo(repo)}
                     className="text-xs"
-                    disabled={isLoading}
-                  >
-                    <Edit2 className="h-3 w-3 mr-1" />
-                    Edit
-                  </Button>
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => {
-                      setRepoToDelete(repo.id);
-                      setShowDeleteConfirm(true);
-                    }}
-                    className="text-xs text-destructive"
-                    disabled={isLoading}
+                    asChild
                   >
-                    <Trash2 className="h-3 w-3 mr-1" />
-                    Delete
+                    <Link to={`/history?repo=${repo.id}`}>
+                      <History className="h-3 w-3 mr-1" />
+                      History
+                    </Link>
                   </Button>
+                  {isAdmin && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setRepoToDelete(repo.id);
+                        setShowDeleteConfirm(true);
+                      }}
+                      className="text-xs text-destructive"
+                      disabled={isLoading}
+                    >
+                      <Trash2 className="h-3 w-3 mr-1" />
+                      Delete
+                    </Button>
+                  )}
                 </div>
                 <div className="text-xs text-muted-foreground space-y-1">
                   <div>Last synced: {repo.last_sync ? new Date(repo.last_sync).toLocaleString() : 'Never'}</div>
@@ -511,44 +1178,58 @@ export function RepoManager() {
         </div>
       )}
 
-      {lastAction && (
-        <div className="pt-4 border-t border-border/50">
-          <h3 className="text-lg font-medium mb-2">Last Action</h3>
-          <div className="bg-background/50 p-3 rounded-md">
-            <p className="text-sm text-muted-foreground">{lastAction}</p>
-          </div>
+      <div className="space-y-4 pt-4 border-t border-border/50">
+        <div className="flex items-center justify-between">
+          <h3 className="text-lg font-medium flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Recent Activity
+          </h3>
+          <Button variant="ghost" size="sm" className="text-xs" asChild>
+            <Link to="/history">View full history</Link>
+          </Button>
         </div>
+        <SyncTimeline repositories={repositories} limit={5} refreshKey={historyRefreshKey} />
+      </div>
+
+      <ProtectionRulesDialog
+        repository={protectedRepo}
+        onOpenChange={(open) => !open && setProtectedRepo(null)}
+      />
+
+      {workspace && (
+        <ImportReposDialog
+          open={showImport}
+          onOpenChange={setShowImport}
+          workspaceId={workspace.id}
+          existingUrls={repositories.map(repo => repo.url)}
+          hasMaster={repositories.some(repo => repo.is_master)}
+          onImported={() => {
+            fetchRepositories();
+            setHistoryRefreshKey(prev => prev + 1);
+          }}
+        />
       )}
 
-      <AlertDialog open={showMasterWarning} onOpenChange={setShowMasterWarning}>
-        <AlertDialogContent>
-          <AlertDialogHeader>
-            <AlertDialogTitle className="flex items-center gap-2">
-              <AlertTriangle className="h-5 w-5 text-red-500" />
-              Warning: Pushing to Master Repository
-            </AlertDialogTitle>
-            <AlertDialogDescription>
-              {confirmationStep === 0 && "This is a master repository. Are you sure you want to proceed with the push operation?"}
-              {confirmationStep === 1 && "Please confirm again. This action will modify the master repository."}
-              {confirmationStep === 2 && "Final confirmation required. This action cannot be undone."}
-            </AlertDialogDescription>
-          </AlertDialogHeader>
-          <AlertDialogFooter>
-            <AlertDialogCancel onClick={() => {
-              setConfirmationStep(0);
-              setShowMasterWarning(false);
-            }}>
-              Cancel
-            </AlertDialogCancel>
-            <AlertDialogAction
-              onClick={handleMasterWarningConfirm}
-              className="bg-red-500 hover:bg-red-600"
-            >
-              {confirmationStep === 2 ? "Confirm Push" : "Continue"}
-            </AlertDialogAction>
-          </AlertDialogFooter>
-        </AlertDialogContent>
-      </AlertDialog>
+      {workspace && (
+        <RegistryImportDialog
+          open={showRegistryImport}
+          onOpenChange={setShowRegistryImport}
+          workspaceId={workspace.id}
+          repositories={repositories.map(repo => ({
+            id: repo.id,
+            url: repo.url,
+            name: repo.name || "",
+            nickname: repo.nickname ?? null,
+            is_master: !!repo.is_master,
+            provider: repo.provider || "github",
+            groups: repo.groups ?? [],
+          }))}
+          onApplied={() => {
+            fetchRepositories();
+            setHistoryRefreshKey(prev => prev + 1);
+          }}
+        />
+      )}
 
       <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
         <AlertDialogContent>
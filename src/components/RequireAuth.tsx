@@ -0,0 +1,16 @@
+import { Navigate, useLocation } from "react-router-dom";
+import { useSessionContext } from "@supabase/auth-helpers-react";
+
+// Sends signed-out visitors to the login page and back here afterwards
+export function RequireAuth({ children }: { children: React.ReactNode }) {
+  const { session, isLoading } = useSessionContext();
+  const location = useLocation();
+
+  if (isLoading) return null;
+
+  if (!session) {
+    return <Navigate to="/login" replace state={{ from: location.pathname }} />;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,262 @@
+import { useState, useEffect, useCallback } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { parseCron } from "@shared/cron";
+import type { PushType } from "@shared/operations";
+import { CalendarClock, Trash2 } from "lucide-react";
+
+type SyncRule = Tables<"sync_rules">;
+
+interface SyncRulesProps {
+  repositories: { id: string; url: string; nickname?: string | null; is_master?: boolean | null }[];
+  // The push selected above, which new rules repeat on a schedule
+  selection: {
+    sourceRepoId: string;
+    targetRepoId: string;
+    sourceBranch: string;
+    targetBranch: string;
+    pushType: PushType;
+  };
+  canOperate: boolean;
+  refreshKey?: number;
+}
+
+// Pushes git-operations repeats on a schedule, or when repository-webhooks
+// hears that the source branch was pushed. Each rule runs as the member who
+// last changed it; failing rules stay flagged until a run succeeds.
+export function SyncRules({ repositories, selection, canOperate, refreshKey }: SyncRulesProps) {
+  const [rules, setRules] = useState<SyncRule[]>([]);
+  const [schedule, setSchedule] = useState("");
+  const [runOnPush, setRunOnPush] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const repositoryIds = repositories.map(repo => repo.id).join(",");
+  const scheduleIsValid = !!parseCron(schedule);
+  const targetIsMaster = !!repositories.find(repo => repo.id === selection.targetRepoId)?.is_master;
+
+  const fetchRules = useCallback(async () => {
+    if (!repositoryIds) {
+      setRules([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('sync_rules')
+        .select('*')
+        .in('target_repository_id', repositoryIds.split(","))
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      console.error('Error fetching sync rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch sync rules",
+        variant: "destructive",
+      });
+    }
+  }, [repositoryIds, toast]);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules, refreshKey]);
+
+  const handleAddRule = async () => {
+    if (selection.pushType === 'pull-request') return;
+
+    try {
+      setIsLoading(true);
+      // The database records the current user as the member the rule runs as
+      const { error } = await supabase
+        .from('sync_rules')
+        .insert({
+          source_repository_id: selection.sourceRepoId,
+          target_repository_id: selection.targetRepoId,
+          source_branch: selection.sourceBranch || null,
+          target_branch: selection.targetBranch || null,
+          push_type: selection.pushType,
+          schedule: schedule.trim() || null,
+          run_on_push: runOnPush,
+        });
+
+      if (error) throw error;
+
+      setSchedule("");
+      setRunOnPush(false);
+      await fetchRules();
+
+      toast({
+        title: "Success",
+        description: "Sync rule added",
+      });
+    } catch (error) {
+      console.error('Error adding sync rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to add sync rule",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleToggleRule = async (rule: SyncRule, enabled: boolean) => {
+    try {
+      setIsLoading(true);
+      const { error } = await supabase
+        .from('sync_rules')
+        .update({ enabled })
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      await fetchRules();
+    } catch (error) {
+      console.error('Error updating sync rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update sync rule",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDeleteRule = async (rule: SyncRule) => {
+    try {
+      setIsLoading(true);
+      const { error } = await supabase
+        .from('sync_rules')
+        .delete()
+        .eq('id', rule.id);
+
+      if (error) throw error;
+      await fetchRules();
+    } catch (error) {
+      console.error('Error deleting sync rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete sync rule",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const getRepoLabel = (id: string) => {
+    const repo = repositories.find(r => r.id === id);
+    return repo ? repo.nickname || repo.url : "Deleted repository";
+  };
+
+  const canAddRule = canOperate &&
+    !!selection.sourceRepoId &&
+    !!selection.targetRepoId &&
+    selection.pushType !== 'pull-request' &&
+    (scheduleIsValid || (runOnPush && !schedule.trim()));
+
+  return (
+    <div className="space-y-4 pt-4 border-t border-border/50">
+      <h3 className="text-lg font-medium flex items-center gap-2">
+        <CalendarClock className="h-5 w-5" />
+        Scheduled Syncs
+      </h3>
+
+      {canOperate && (
+        <div className="space-y-2">
+          <div className="flex flex-col gap-2 md:flex-row">
+            <Input
+              placeholder="Cron schedule in UTC, e.g. */30 * * * *"
+              value={schedule}
+              onChange={(e) => setSchedule(e.target.value)}
+              className="bg-background/50 font-mono"
+              disabled={isLoading}
+            />
+            <Button onClick={handleAddRule} disabled={isLoading || !canAddRule}>
+              Schedule Selected Push
+            </Button>
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Checkbox
+              checked={runOnPush}
+              onCheckedChange={(checked) => setRunOnPush(checked === true)}
+              disabled={isLoading}
+            />
+            Also run when the source branch is pushed
+          </label>
+          <p className="text-xs text-muted-foreground">
+            {schedule && !scheduleIsValid
+              ? "Use five fields: minute, hour, day of month, month and day of week."
+              : selection.pushType === 'pull-request'
+                ? "Pull requests cannot be scheduled. Choose another push type."
+                : targetIsMaster
+                  ? "Pushes into the master repository need approval, so scheduled runs into it will fail."
+                  : "Repeats the push selected above with its repositories, branches and push type."}
+            {runOnPush && " Pushes are picked up from GitHub and GitLab webhooks sent to the repository-webhooks function with the workspace's webhook secret; see the Workspaces page."}
+          </p>
+        </div>
+      )}
+
+      {rules.length === 0 ? (
+        <p className="text-sm text-muted-foreground">No scheduled syncs.</p>
+      ) : (
+        <div className="space-y-2">
+          {rules.map(rule => (
+            <div
+              key={rule.id}
+              className={`p-3 rounded-md bg-background/50 space-y-1 ${rule.enabled && rule.last_status === 'failed' ? 'border border-destructive/50' : ''}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="font-medium truncate">
+                    {getRepoLabel(rule.source_repository_id)} ({rule.source_branch || "default"}) → {getRepoLabel(rule.target_repository_id)} ({rule.target_branch || "default"})
+                  </span>
+                  <Badge variant="outline">{rule.push_type}</Badge>
+                  {rule.last_status === 'failed' && <Badge variant="destructive">Failing</Badge>}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={rule.enabled}
+                    onCheckedChange={(checked) => handleToggleRule(rule, checked)}
+                    disabled={isLoading || !canOperate}
+                  />
+                  {canOperate && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-7 w-7"
+                      onClick={() => handleDeleteRule(rule)}
+                      disabled={isLoading}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {rule.schedule && <><span className="font-mono">{rule.schedule}</span> (UTC)</>}
+                {rule.schedule && rule.run_on_push && " and "}
+                {rule.run_on_push && "on push"}
+                {" · "}Last run: {rule.last_run_at ? new Date(rule.last_run_at).toLocaleString() : "Never"}
+                {rule.last_status === 'succeeded' && " · succeeded"}
+              </div>
+              {rule.last_status === 'failed' && rule.last_error && (
+                <p className="text-xs text-destructive">{rule.last_error}</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
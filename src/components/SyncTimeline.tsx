@@ -0,0 +1,107 @@
+import { useState, useEffect, useCallback } from "react";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { CheckCircle2, Loader2, XCircle } from "lucide-react";
+
+type SyncOperation = Tables<"sync_operations">;
+
+interface SyncTimelineProps {
+  repositories: { id: string; url: string; nickname?: string | null }[];
+  repositoryId?: string;
+  status?: string;
+  limit?: number;
+  refreshKey?: number;
+}
+
+const statusIcons = {
+  running: <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />,
+  succeeded: <CheckCircle2 className="h-4 w-4 text-green-500" />,
+  failed: <XCircle className="h-4 w-4 text-red-500" />,
+};
+
+export function SyncTimeline({ repositories, repositoryId, status, limit = 50, refreshKey }: SyncTimelineProps) {
+  const [operations, setOperations] = useState<SyncOperation[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const fetchOperations = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      let query = supabase
+        .from('sync_operations')
+        .select('*')
+        .order('started_at', { ascending: false })
+        .limit(limit);
+
+      if (repositoryId) {
+        query = query.or(`source_repository_id.eq.${repositoryId},target_repository_id.eq.${repositoryId}`);
+      }
+      if (status) {
+        query = query.eq('status', status);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setOperations(data || []);
+    } catch (error) {
+      console.error('Error fetching sync operations:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch operation history",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [repositoryId, status, limit, toast]);
+
+  useEffect(() => {
+    fetchOperations();
+  }, [fetchOperations, refreshKey]);
+
+  const getRepoLabel = (id: string | null) => {
+    const repo = repositories.find(r => r.id === id);
+    return repo ? repo.nickname || repo.url : "Deleted repository";
+  };
+
+  if (!isLoading && operations.length === 0) {
+    return <p className="text-sm text-muted-foreground">No operations recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-border/50 ml-2 space-y-4">
+      {operations.map(operation => (
+        <li key={operation.id} className="ml-4">
+          <span className="absolute -left-2 flex items-center justify-center bg-background rounded-full">
+            {statusIcons[operation.status as keyof typeof statusIcons]}
+          </span>
+          <div className="flex items-center gap-2 flex-wrap text-sm">
+            <span className="font-medium">{operation.operation_type}</span>
+            <span>
+              {getRepoLabel(operation.source_repository_id)}
+              {operation.source_branch && ` (${operation.source_branch})`}
+            </span>
+            {operation.target_repository_id && (
+              <span>
+                → {getRepoLabel(operation.target_repository_id)}
+                {operation.target_branch && ` (${operation.target_branch})`}
+              </span>
+            )}
+            {operation.push_type && <Badge variant="secondary">{operation.push_type}</Badge>}
+          </div>
+          <div className="text-xs text-muted-foreground space-x-2">
+            <span>{new Date(operation.started_at).toLocaleString()}</span>
+            {operation.initiated_by && <span>by {operation.initiated_by}</span>}
+            {operation.result_sha && <span className="font-mono">{operation.result_sha.substring(0, 7)}</span>}
+          </div>
+          {operation.error_message && (
+            <div className="text-xs text-red-500 mt-1">{operation.error_message}</div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+}
@@ -0,0 +1,56 @@
+import { Badge } from "@/components/ui/badge";
+import { Tag } from "lucide-react";
+import type { SyncTagsResponse } from "@shared/operations";
+
+export type TagSyncData = SyncTagsResponse;
+
+interface TagSyncSummaryProps {
+  result: TagSyncData;
+}
+
+export function TagSyncSummary({ result }: TagSyncSummaryProps) {
+  return (
+    <div className="space-y-3 bg-background/50 p-3 rounded-md text-sm">
+      <div className="flex items-center gap-2 flex-wrap">
+        <Tag className="h-4 w-4 text-primary" />
+        <span className="font-medium">Tag synchronization</span>
+        <Badge variant="secondary">{result.created.length} created</Badge>
+        <Badge variant="outline">{result.skipped.length} identical</Badge>
+        {result.conflicting.length > 0 && (
+          <Badge variant="destructive">{result.conflicting.length} conflicting</Badge>
+        )}
+      </div>
+
+      {result.created.length > 0 && (
+        <div className="text-xs text-muted-foreground">
+          Created: {result.created.join(", ")}
+        </div>
+      )}
+
+      {result.conflicting.length > 0 && (
+        <div className="space-y-1">
+          <div className="font-medium">Tags that differ on the target</div>
+          {result.conflicting.map(conflict => (
+            <div key={conflict.tag} className="text-xs font-mono text-red-500">
+              {conflict.tag}: {conflict.sourceSha.substring(0, 7)} (source) vs {conflict.targetSha.substring(0, 7)} (target)
+            </div>
+          ))}
+        </div>
+      )}
+
+      {result.releases && (
+        <div className="space-y-1">
+          <div className="font-medium">Releases</div>
+          <div className="text-xs text-muted-foreground">
+            {result.releases.created.length} created, {result.releases.skipped.length} already present
+          </div>
+          {result.releases.failed.map(failure => (
+            <div key={failure.tag} className="text-xs text-red-500">
+              {failure.tag}: {failure.error}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
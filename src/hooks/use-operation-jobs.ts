@@ -0,0 +1,94 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { JobStatus, OperationErrorBody } from "@shared/operations";
+
+export type OperationJob = Tables<"operation_jobs">;
+
+const FINISHED_STATUSES: JobStatus[] = ["succeeded", "failed", "cancelled"];
+
+export const isJobFinished = (job: OperationJob) => FINISHED_STATUSES.includes(job.status as JobStatus);
+
+// Stored job errors have the same shape as the function's error responses
+export const jobErrorBody = (job: OperationJob): OperationErrorBody => {
+  const error = (job.error ?? {}) as { code?: OperationErrorBody["code"]; message?: string; details?: OperationErrorBody["details"] };
+  return { success: false, code: error.code ?? "internal", error: error.message ?? "Unknown error", details: error.details };
+};
+
+const byNewest = (a: OperationJob, b: OperationJob) => b.created_at.localeCompare(a.created_at);
+
+// Loads the workspace's recent jobs and keeps them current over Realtime.
+// `onFinished` is called once for each job seen finishing while subscribed.
+export function useOperationJobs(
+  workspaceId: string | undefined,
+  onFinished?: (job: OperationJob) => void,
+  limit = 10
+) {
+  const [jobs, setJobs] = useState<OperationJob[]>([]);
+  const statuses = useRef(new Map<string, string>());
+  const onFinishedRef = useRef(onFinished);
+  onFinishedRef.current = onFinished;
+
+  useEffect(() => {
+    statuses.current = new Map();
+    if (!workspaceId) {
+      setJobs([]);
+      return;
+    }
+
+    let active = true;
+
+    const upsert = (job: OperationJob) => {
+      const previous = statuses.current.get(job.id);
+      statuses.current.set(job.id, job.status);
+      if (isJobFinished(job) && previous !== undefined && previous !== job.status) {
+        onFinishedRef.current?.(job);
+      }
+
+      setJobs(current => [job, ...current.filter(existing => existing.id !== job.id)].sort(byNewest).slice(0, limit));
+    };
+
+    const channel = supabase
+      .channel(`operation-jobs-${workspaceId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "operation_jobs", filter: `workspace_id=eq.${workspaceId}` },
+        (payload) => {
+          if (payload.eventType === "DELETE") return;
+          // Inserts are seen as queued, so a job finishing later still counts
+          if (payload.eventType === "INSERT") statuses.current.set(payload.new.id, "queued");
+          upsert(payload.new as OperationJob);
+        }
+      )
+      .subscribe();
+
+    supabase
+      .from('operation_jobs')
+      .select('*')
+      .eq('workspace_id', workspaceId)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+      .then(({ data, error }) => {
+        if (error) {
+          console.error('Error fetching jobs:', error);
+          return;
+        }
+        if (!active) return;
+
+        for (const job of data || []) {
+          if (!statuses.current.has(job.id)) statuses.current.set(job.id, job.status);
+        }
+        setJobs(current => {
+          const fetched = (data || []).filter(job => !current.some(existing => existing.id === job.id));
+          return [...current, ...fetched].sort(byNewest).slice(0, limit);
+        });
+      });
+
+    return () => {
+      active = false;
+      supabase.removeChannel(channel);
+    };
+  }, [workspaceId, limit]);
+
+  return jobs;
+}
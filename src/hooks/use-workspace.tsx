@@ -0,0 +1,78 @@
+import { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { useSession } from "@supabase/auth-helpers-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { WorkspaceRole } from "@shared/operations";
+
+export interface Workspace {
+  id: string;
+  name: string;
+  role: WorkspaceRole;
+}
+
+interface WorkspaceContextValue {
+  workspaces: Workspace[];
+  // The workspace whose repositories are shown, null until one exists
+  current: Workspace | null;
+  setCurrent: (id: string) => void;
+  refresh: () => Promise<void>;
+}
+
+const STORAGE_KEY = "current-workspace";
+
+const WorkspaceContext = createContext<WorkspaceContextValue | null>(null);
+
+// Loads the signed-in user's workspaces and remembers which one is selected
+export function WorkspaceProvider({ children }: { children: React.ReactNode }) {
+  const session = useSession();
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(() => localStorage.getItem(STORAGE_KEY));
+
+  const refresh = useCallback(async () => {
+    if (!session) {
+      setWorkspaces([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('workspace_members')
+      .select('role, workspace:workspaces(id, name)')
+      .eq('user_id', session.user.id);
+
+    if (error) {
+      console.error('Error fetching workspaces:', error);
+      return;
+    }
+
+    setWorkspaces(
+      (data || [])
+        .filter(membership => membership.workspace)
+        .map(membership => ({ ...membership.workspace, role: membership.role as WorkspaceRole }))
+        .sort((a, b) => a.name.localeCompare(b.name))
+    );
+  }, [session]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const setCurrent = (id: string) => {
+    localStorage.setItem(STORAGE_KEY, id);
+    setCurrentId(id);
+  };
+
+  const current = workspaces.find(workspace => workspace.id === currentId) ?? workspaces[0] ?? null;
+
+  return (
+    <WorkspaceContext.Provider value={{ workspaces, current, setCurrent, refresh }}>
+      {children}
+    </WorkspaceContext.Provider>
+  );
+}
+
+export function useWorkspace() {
+  const context = useContext(WorkspaceContext);
+  if (!context) {
+    throw new Error("useWorkspace must be used within a WorkspaceProvider");
+  }
+  return context;
+}
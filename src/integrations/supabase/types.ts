@@ -9,54 +9,663 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      credentials: {
+        Row: {
+          app_id: string | null
+          created_at: string
+          host: string
+          id: string
+          kind: string
+          name: string
+          owner: string | null
+          secret_ciphertext: string
+          user_id: string | null
+          username: string | null
+        }
+        Insert: {
+          app_id?: string | null
+          created_at?: string
+          host: string
+          id?: string
+          kind: string
+          name: string
+          owner?: string | null
+          secret_ciphertext: string
+          user_id?: string | null
+          username?: string | null
+        }
+        Update: {
+          app_id?: string | null
+          created_at?: string
+          host?: string
+          id?: string
+          kind?: string
+          name?: string
+          owner?: string | null
+          secret_ciphertext?: string
+          user_id?: string | null
+          username?: string | null
+        }
+        Relationships: []
+      }
+      operation_jobs: {
+        Row: {
+          cancel_requested: boolean
+          created_at: string
+          created_by: string | null
+          created_by_label: string | null
+          error: Json | null
+          finished_at: string | null
+          id: string
+          operation: Json
+          operation_type: string
+          result: Json | null
+          started_at: string | null
+          status: string
+          steps: Json
+          workspace_id: string
+        }
+        Insert: {
+          cancel_requested?: boolean
+          created_at?: string
+          created_by?: string | null
+          created_by_label?: string | null
+          error?: Json | null
+          finished_at?: string | null
+          id?: string
+          operation: Json
+          operation_type: string
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          steps?: Json
+          workspace_id: string
+        }
+        Update: {
+          cancel_requested?: boolean
+          created_at?: string
+          created_by?: string | null
+          created_by_label?: string | null
+          error?: Json | null
+          finished_at?: string | null
+          id?: string
+          operation?: Json
+          operation_type?: string
+          result?: Json | null
+          started_at?: string | null
+          status?: string
+          steps?: Json
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "operation_jobs_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      protection_rules: {
+        Row: {
+          allowed_windows: Json
+          block_force_push: boolean
+          repository_id: string
+          require_approval: boolean
+          require_preview: boolean
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          allowed_windows?: Json
+          block_force_push?: boolean
+          repository_id: string
+          require_approval?: boolean
+          require_preview?: boolean
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          allowed_windows?: Json
+          block_force_push?: boolean
+          repository_id?: string
+          require_approval?: boolean
+          require_preview?: boolean
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "protection_rules_repository_id_fkey"
+            columns: ["repository_id"]
+            isOneToOne: true
+            referencedRelation: "repositories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pull_requests: {
+        Row: {
+          check_status: string
+          created_at: string
+          created_by: string | null
+          head_branch: string
+          head_sha: string
+          id: string
+          number: number
+          review_status: string
+          source_branch: string
+          source_repository_id: string | null
+          state: string
+          target_branch: string
+          target_repository_id: string | null
+          title: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          check_status?: string
+          created_at?: string
+          created_by?: string | null
+          head_branch: string
+          head_sha: string
+          id?: string
+          number: number
+          review_status?: string
+          source_branch: string
+          source_repository_id?: string | null
+          state?: string
+          target_branch: string
+          target_repository_id?: string | null
+          title: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          check_status?: string
+          created_at?: string
+          created_by?: string | null
+          head_branch?: string
+          head_sha?: string
+          id?: string
+          number?: number
+          review_status?: string
+          source_branch?: string
+          source_repository_id?: string | null
+          state?: string
+          target_branch?: string
+          target_repository_id?: string | null
+          title?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pull_requests_source_repository_id_fkey"
+            columns: ["source_repository_id"]
+            isOneToOne: false
+            referencedRelation: "repositories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pull_requests_target_repository_id_fkey"
+            columns: ["target_repository_id"]
+            isOneToOne: false
+            referencedRelation: "repositories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_previews: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          source_branch: string
+          source_repository_id: string
+          source_sha: string
+          target_branch: string
+          target_repository_id: string
+          target_sha: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          source_branch: string
+          source_repository_id: string
+          source_sha: string
+          target_branch: string
+          target_repository_id: string
+          target_sha: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          source_branch?: string
+          source_repository_id?: string
+          source_sha?: string
+          target_branch?: string
+          target_repository_id?: string
+          target_sha?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_previews_source_repository_id_fkey"
+            columns: ["source_repository_id"]
+            isOneToOne: false
+            referencedRelation: "repositories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "push_previews_target_repository_id_fkey"
+            columns: ["target_repository_id"]
+            isOneToOne: false
+            referencedRelation: "repositories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      push_requests: {
+        Row: {
+          created_at: string
+          error_message: string | null
+          executed_at: string | null
+          id: string
+          push_type: string
+          requested_by: string | null
+          requested_by_label: string | null
+          review_comment: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          reviewed_by_label: string | null
+          source_branch: string
+          source_repository_id: string
+          source_sha: string
+          status: string
+          target_branch: string
+          target_repository_id: string
+          target_sha: string
+        }
+        Insert: {
+          created_at?: string
+          error_message?: string | null
+          executed_at?: string | null
+          id?: string
+          push_type: string
+          requested_by?: string | null
+          requested_by_label?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_label?: string | null
+          source_branch: string
+          source_repository_id: string
+          source_sha: string
+          status?: string
+          target_branch: string
+          target_repository_id: string
+          target_sha: string
+        }
+        Update: {
+          created_at?: string
+          error_message?: string | null
+          executed_at?: string | null
+          id?: string
+          push_type?: string
+          requested_by?: string | null
+          requested_by_label?: string | null
+          review_comment?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          reviewed_by_label?: string | null
+          source_branch?: string
+          source_repository_id?: string
+          source_sha?: string
+          status?: string
+          target_branch?: string
+          target_repository_id?: string
+          target_sha?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "push_requests_source_repository_id_fkey"
+            columns: ["source_repository_id"]
+            isOneToOne: false
+            referencedRelation: "repositories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "push_requests_target_repository_id_fkey"
+            columns: ["target_repository_id"]
+            isOneToOne: false
+            referencedRelation: "repositories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       repositories: {
         Row: {
           created_at: string | null
+          credential_id: string | null
+          groups: string[]
           id: string
           is_master: boolean | null
           last_commit: string | null
           last_commit_date: string | null
+          last_pushed_sha: string | null
           last_sync: string | null
           name: string
           nickname: string | null
+          provider: string
           status: string | null
           updated_at: string | null
           url: string
+          user_id: string | null
+          workspace_id: string | null
         }
         Insert: {
           created_at?: string | null
+          credential_id?: string | null
+          groups?: string[]
           id?: string
           is_master?: boolean | null
           last_commit?: string | null
           last_commit_date?: string | null
+          last_pushed_sha?: string | null
           last_sync?: string | null
           name: string
           nickname?: string | null
+          provider?: string
           status?: string | null
           updated_at?: string | null
           url: string
+          user_id?: string | null
+          workspace_id?: string | null
         }
         Update: {
           created_at?: string | null
+          credential_id?: string | null
+          groups?: string[]
           id?: string
           is_master?: boolean | null
           last_commit?: string | null
           last_commit_date?: string | null
+          last_pushed_sha?: string | null
           last_sync?: string | null
           name?: string
           nickname?: string | null
+          provider?: string
           status?: string | null
           updated_at?: string | null
           url?: string
+          user_id?: string | null
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "repositories_credential_id_fkey"
+            columns: ["credential_id"]
+            isOneToOne: false
+            referencedRelation: "credentials"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "repositories_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sync_operations: {
+        Row: {
+          completed_at: string | null
+          created_at: string | null
+          error_details: Json | null
+          error_message: string | null
+          id: string
+          initiated_by: string | null
+          operation_type: string
+          push_type: string | null
+          result_sha: string | null
+          source_branch: string | null
+          source_repository_id: string | null
+          started_at: string
+          status: string
+          target_branch: string | null
+          target_repository_id: string | null
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string | null
+          error_details?: Json | null
+          error_message?: string | null
+          id?: string
+          initiated_by?: string | null
+          operation_type: string
+          push_type?: string | null
+          result_sha?: string | null
+          source_branch?: string | null
+          source_repository_id?: string | null
+          started_at?: string
+          status?: string
+          target_branch?: string | null
+          target_repository_id?: string | null
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string | null
+          error_details?: Json | null
+          error_message?: string | null
+          id?: string
+          initiated_by?: string | null
+          operation_type?: string
+          push_type?: string | null
+          result_sha?: string | null
+          source_branch?: string | null
+          source_repository_id?: string | null
+          started_at?: string
+          status?: string
+          target_branch?: string | null
+          target_repository_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sync_operations_source_repository_id_fkey"
+            columns: ["source_repository_id"]
+            isOneToOne: false
+            referencedRelation: "repositories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sync_operations_target_repository_id_fkey"
+            columns: ["target_repository_id"]
+            isOneToOne: false
+            referencedRelation: "repositories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sync_rules: {
+        Row: {
+          created_at: string
+          enabled: boolean
+          id: string
+          last_error: string | null
+          last_run_at: string | null
+          last_status: string | null
+          push_type: string
+          run_as: string | null
+          run_on_push: boolean
+          schedule: string | null
+          source_branch: string | null
+          source_repository_id: string
+          target_branch: string | null
+          target_repository_id: string
+        }
+        Insert: {
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          last_error?: string | null
+          last_run_at?: string | null
+          last_status?: string | null
+          push_type?: string
+          run_as?: string | null
+          run_on_push?: boolean
+          schedule?: string | null
+          source_branch?: string | null
+          source_repository_id: string
+          target_branch?: string | null
+          target_repository_id: string
+        }
+        Update: {
+          created_at?: string
+          enabled?: boolean
+          id?: string
+          last_error?: string | null
+          last_run_at?: string | null
+          last_status?: string | null
+          push_type?: string
+          run_as?: string | null
+          run_on_push?: boolean
+          schedule?: string | null
+          source_branch?: string | null
+          source_repository_id?: string
+          target_branch?: string | null
+          target_repository_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sync_rules_source_repository_id_fkey"
+            columns: ["source_repository_id"]
+            isOneToOne: false
+            referencedRelation: "repositories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sync_rules_target_repository_id_fkey"
+            columns: ["target_repository_id"]
+            isOneToOne: false
+            referencedRelation: "repositories"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_members: {
+        Row: {
+          created_at: string
+          email: string | null
+          role: string
+          user_id: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          role?: string
+          user_id: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          role?: string
+          user_id?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_members_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspace_webhook_secrets: {
+        Row: {
+          created_at: string
+          secret: string
+          workspace_id: string
+        }
+        Insert: {
+          created_at?: string
+          secret: string
+          workspace_id: string
+        }
+        Update: {
+          created_at?: string
+          secret?: string
+          workspace_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspace_webhook_secrets_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: true
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
         }
         Relationships: []
       }
     }
     Views: {
-      [_ in never]: never
+      credential_summaries: {
+        Row: {
+          app_id: string | null
+          created_at: string | null
+          host: string | null
+          id: string | null
+          kind: string | null
+          name: string | null
+          owner: string | null
+          username: string | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      add_workspace_member: {
+        Args: {
+          target_workspace: string
+          member_email: string
+          member_role: string
+        }
+        Returns: undefined
+      }
+      workspace_role: {
+        Args: {
+          target_workspace: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
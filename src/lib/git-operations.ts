@@ -0,0 +1,37 @@
+import { supabase } from "@/integrations/supabase/client";
+import { readOperationError } from "@/lib/operation-errors";
+import {
+  MAX_BATCH_TARGETS,
+  OPERATIONS_CONTRACT_VERSION,
+  type LastCommitResult,
+  type OperationRequest,
+  type OperationResponses,
+} from "@shared/operations";
+
+// Calls the git-operations function with a request checked against the shared
+// contract. The response type follows from the operation.
+export const invokeGitOperation = <T extends OperationRequest>(request: T) =>
+  supabase.functions.invoke<OperationResponses[T["type"]]>("git-operations", {
+    body: { ...request, version: OPERATIONS_CONTRACT_VERSION },
+  });
+
+// Reads the last commit of any number of repositories, at most
+// MAX_BATCH_TARGETS per request. A request that fails counts as failed for
+// every repository it named.
+export const readLastCommits = async (repositoryIds: string[]): Promise<LastCommitResult[]> => {
+  const results: LastCommitResult[] = [];
+
+  for (let start = 0; start < repositoryIds.length; start += MAX_BATCH_TARGETS) {
+    const sourceRepoIds = repositoryIds.slice(start, start + MAX_BATCH_TARGETS);
+    const { data, error } = await invokeGitOperation({ type: 'getLastCommits', sourceRepoIds });
+
+    if (error) {
+      const { code, error: message } = await readOperationError(error);
+      results.push(...sourceRepoIds.map(repositoryId => ({ repositoryId, status: 'failed' as const, code, error: message })));
+    } else {
+      results.push(...data.results);
+    }
+  }
+
+  return results;
+};
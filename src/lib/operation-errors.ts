@@ -0,0 +1,121 @@
+import type { OperationErrorBody } from "@shared/operations";
+
+export interface OperationErrorMessage {
+  title: string;
+  description: string;
+  // Set when comparing the branches on the provider helps resolve the error
+  showCompare: boolean;
+}
+
+// supabase.functions.invoke rejects non-2xx responses with an error that
+// keeps the raw response as `context`
+export const readOperationError = async (error: unknown): Promise<OperationErrorBody> => {
+  const context = (error as { context?: Response })?.context;
+  if (context && typeof context.json === "function") {
+    try {
+      const body = await context.clone().json();
+      if (body?.code) return body;
+    } catch {
+      // Not a JSON body; fall through to the generic error
+    }
+  }
+
+  return { success: false, code: "internal", error: error instanceof Error ? error.message : String(error) };
+};
+
+const formatWait = (resetAt?: string | null) => {
+  if (!resetAt) return "later";
+  const minutes = Math.max(1, Math.ceil((new Date(resetAt).getTime() - Date.now()) / 60000));
+  return `in ${minutes} minute${minutes === 1 ? "" : "s"}`;
+};
+
+// Turns an error body into a message that says what to do next. `fallback`
+// describes the failed action for errors without a more specific hint.
+export const describeOperationError = (body: OperationErrorBody, fallback: string): OperationErrorMessage => {
+  switch (body.code) {
+    case "unauthenticated":
+      return {
+        title: "Signed out",
+        description: "Your session has expired. Sign in again to continue.",
+        showCompare: false,
+      };
+    case "forbidden":
+      return { title: "Not allowed", description: body.error, showCompare: false };
+    case "not_found":
+      return {
+        title: "Not found",
+        description: `${body.error}. Check that the repository and branch still exist and the access token can see them.`,
+        showCompare: false,
+      };
+    case "auth_failed":
+      return {
+        title: "Authentication failed",
+        description: "The provider rejected the configured credentials. Check the access token for this host.",
+        showCompare: false,
+      };
+    case "rate_limited":
+      return {
+        title: "Rate limited",
+        description: `The provider's API rate limit was reached. Try again ${formatWait(body.details?.resetAt)}.`,
+        showCompare: false,
+      };
+    case "merge_conflict":
+      return {
+        title: "Merge conflict",
+        description: `${body.error}. Resolve the conflicts on the source branch or open a pull request instead.`,
+        showCompare: true,
+      };
+    case "non_fast_forward":
+      return {
+        title: "Push rejected",
+        description: "The target branch has commits the source does not. Merge them into the source first, or use Force with Lease.",
+        showCompare: true,
+      };
+    case "lease_mismatch":
+      return {
+        title: "Target branch moved",
+        description: body.error,
+        showCompare: true,
+      };
+    case "rule_violation":
+      return {
+        title: "Blocked by protection rules",
+        description: body.error,
+        showCompare: false,
+      };
+    case "protected_branch":
+      return {
+        title: "Protected branch",
+        description: "The provider refused to update a protected branch. Open a pull request instead.",
+        showCompare: false,
+      };
+    case "invalid_url":
+      return {
+        title: "Invalid repository URL",
+        description: `${body.error}. Edit the repository and use an HTTPS or SSH clone URL.`,
+        showCompare: false,
+      };
+    case "not_configured":
+      // Set when the host has no credential and the function's own tokens
+      // are not issued for it
+      if (body.details?.host) {
+        return {
+          title: "No credential",
+          description: `${body.error}. Add a credential for ${body.details.host} on the Credentials page.`,
+          showCompare: false,
+        };
+      }
+      return {
+        title: "Provider not configured",
+        description: `${body.error}. Add the secret to the git-operations function.`,
+        showCompare: false,
+      };
+    case "cancelled":
+      return { title: "Cancelled", description: body.error, showCompare: false };
+    case "invalid_request":
+    case "unsupported":
+      return { title: "Error", description: body.error, showCompare: false };
+    default:
+      return { title: "Error", description: `${fallback}: ${body.error}`, showCompare: false };
+  }
+};
@@ -0,0 +1,36 @@
+export const PROVIDER_LABELS: Record<string, string> = {
+  github: "GitHub",
+  gitlab: "GitLab",
+  bitbucket: "Bitbucket",
+  gitea: "Gitea",
+  git: "Plain Git (HTTPS)",
+};
+
+export const getHost = (url: string) =>
+  url.trim().match(/^(?:https?:\/\/(?:[^@/]+@)?|ssh:\/\/git@|git@)([^/:]+)/)?.[1] ?? null;
+
+// Mirrors the host detection in the git-operations function so the provider
+// can be suggested before the repository is saved
+export const detectProvider = (url: string) => {
+  const host = getHost(url);
+  if (!host) return null;
+
+  if (host === 'github.com') return 'github';
+  if (host === 'gitlab.com') return 'gitlab';
+  if (host === 'bitbucket.org') return 'bitbucket';
+  if (host === 'codeberg.org') return 'gitea';
+  return null;
+};
+
+// Matches the git-operations rule for when objects have to be transferred
+// over git rather than moved with the provider API
+export const requiresGitTransport = (
+  source?: { url: string; provider?: string },
+  target?: { url: string; provider?: string }
+) => {
+  if (!source || !target) return false;
+  return source.provider === 'git' ||
+    target.provider === 'git' ||
+    source.provider !== target.provider ||
+    getHost(source.url) !== getHost(target.url);
+};
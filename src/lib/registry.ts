@@ -0,0 +1,362 @@
+import { parse, stringify } from "yaml";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { PROVIDER_LABELS, detectProvider } from "@/lib/providers";
+import { parseCron } from "@shared/cron";
+import { PUSH_TYPES } from "@shared/operations";
+
+// The repository registry as it is exported to, and imported from, JSON or
+// YAML. Repositories are matched by their normalized URL, and sync rules by
+// the normalized URLs and branches they push between.
+export const REGISTRY_VERSION = 1;
+
+export type RegistryFormat = "json" | "yaml";
+
+export interface RegistryEntry {
+  url: string;
+  name: string;
+  nickname: string | null;
+  is_master: boolean;
+  provider: string;
+  groups: string[];
+}
+
+export interface RegistrySyncRule {
+  source_url: string;
+  target_url: string;
+  source_branch: string | null;
+  target_branch: string | null;
+  push_type: string;
+  schedule: string | null;
+  run_on_push: boolean;
+  enabled: boolean;
+}
+
+export interface RegistryDocument {
+  version: typeof REGISTRY_VERSION;
+  repositories: RegistryEntry[];
+  sync_rules: RegistrySyncRule[];
+}
+
+export interface RegistryRepository extends RegistryEntry {
+  id: string;
+}
+
+export interface RegistryStoredSyncRule extends RegistrySyncRule {
+  id: string;
+}
+
+export interface RegistryChange {
+  repository: RegistryRepository;
+  entry: RegistryEntry;
+  fields: (keyof RegistryEntry)[];
+}
+
+export interface RegistrySyncRuleChange {
+  rule: RegistryStoredSyncRule;
+  entry: RegistrySyncRule;
+  fields: (keyof RegistrySyncRule)[];
+}
+
+export interface RegistryDiff {
+  added: RegistryEntry[];
+  changed: RegistryChange[];
+  removed: RegistryRepository[];
+  syncRules: {
+    added: RegistrySyncRule[];
+    changed: RegistrySyncRuleChange[];
+    removed: RegistryStoredSyncRule[];
+  };
+}
+
+const COMPARED_FIELDS: (keyof RegistryEntry)[] = ["name", "nickname", "is_master", "provider", "groups"];
+
+// A sync rule is identified by what it pushes where; everything else about
+// it can change
+const SYNC_RULE_KEY_FIELDS: (keyof RegistrySyncRule)[] = ["source_url", "target_url", "source_branch", "target_branch"];
+const SYNC_RULE_COMPARED_FIELDS: (keyof RegistrySyncRule)[] = ["push_type", "schedule", "run_on_push", "enabled"];
+
+// Pull requests cannot be scheduled
+const SYNC_RULE_PUSH_TYPES: string[] = PUSH_TYPES.filter(pushType => pushType !== "pull-request");
+
+// HTTPS and SSH URLs of the same repository normalize alike: scheme, user,
+// port, letter case, trailing slash and .git are ignored
+export const normalizeRepoUrl = (url: string) => {
+  const match = url.trim().match(/^(?:https?:\/\/(?:[^@/]+@)?|ssh:\/\/git@|git@)([^/:]+)(?::\d+)?[/:](.+?)(?:\.git)?\/?$/);
+  return match ? `${match[1]}/${match[2]}`.toLowerCase() : url.trim().toLowerCase();
+};
+
+const toEntry = (repo: RegistryEntry): RegistryEntry => ({
+  url: repo.url,
+  name: repo.name,
+  nickname: repo.nickname || null,
+  is_master: !!repo.is_master,
+  provider: repo.provider,
+  groups: [...(repo.groups ?? [])].sort(),
+});
+
+const toSyncRule = (rule: RegistrySyncRule): RegistrySyncRule => ({
+  source_url: rule.source_url,
+  target_url: rule.target_url,
+  source_branch: rule.source_branch || null,
+  target_branch: rule.target_branch || null,
+  push_type: rule.push_type,
+  schedule: rule.schedule || null,
+  run_on_push: !!rule.run_on_push,
+  enabled: !!rule.enabled,
+});
+
+const syncRuleKey = (rule: RegistrySyncRule) => JSON.stringify([
+  normalizeRepoUrl(rule.source_url),
+  normalizeRepoUrl(rule.target_url),
+  rule.source_branch || null,
+  rule.target_branch || null,
+]);
+
+// Reads the sync rules into the given repositories. Stored rules refer to
+// repositories by id and the registry by URL, so rules from repositories
+// outside `repositories` are left out.
+export const loadRegistrySyncRules = async (repositories: { id: string; url: string }[]): Promise<RegistryStoredSyncRule[]> => {
+  if (repositories.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('sync_rules')
+    .select('*')
+    .in('target_repository_id', repositories.map(repo => repo.id));
+
+  if (error) throw error;
+
+  const urls = new Map(repositories.map(repo => [repo.id, repo.url]));
+
+  return (data as Tables<"sync_rules">[])
+    .filter(rule => urls.has(rule.source_repository_id) && urls.has(rule.target_repository_id))
+    .map(rule => ({
+      id: rule.id,
+      ...toSyncRule({
+        ...rule,
+        source_url: urls.get(rule.source_repository_id)!,
+        target_url: urls.get(rule.target_repository_id)!,
+      }),
+    }));
+};
+
+export const exportRegistry = (repositories: RegistryEntry[], syncRules: RegistrySyncRule[], format: RegistryFormat) => {
+  const document: RegistryDocument = {
+    version: REGISTRY_VERSION,
+    repositories: repositories
+      .map(toEntry)
+      .sort((a, b) => normalizeRepoUrl(a.url).localeCompare(normalizeRepoUrl(b.url))),
+    sync_rules: syncRules
+      .map(toSyncRule)
+      .sort((a, b) => syncRuleKey(a).localeCompare(syncRuleKey(b))),
+  };
+
+  return format === "json" ? `${JSON.stringify(document, null, 2)}\n` : stringify(document);
+};
+
+// `syncRules` is null for files without a sync_rules list, which leave the
+// workspace's rules alone
+export type RegistryParseResult =
+  | { entries: RegistryEntry[]; syncRules: RegistrySyncRule[] | null; warnings: string[]; errors?: undefined }
+  | { entries?: undefined; syncRules?: undefined; warnings?: undefined; errors: string[] };
+
+// Reads a JSON or YAML registry. JSON is YAML too, so one parser reads both.
+// Every problem is reported at once so the file can be fixed in one go.
+export const parseRegistry = (text: string): RegistryParseResult => {
+  let document: unknown;
+  try {
+    document = parse(text);
+  } catch (error) {
+    return { errors: [`The file is not valid JSON or YAML: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+
+  const { version, repositories, sync_rules: syncRules } = (document ?? {}) as { version?: unknown; repositories?: unknown; sync_rules?: unknown };
+  if (version !== REGISTRY_VERSION) {
+    return { errors: [`Unsupported registry version ${String(version)}; expected ${REGISTRY_VERSION}`] };
+  }
+  if (!Array.isArray(repositories)) {
+    return { errors: ["The registry has no repositories list"] };
+  }
+  if (syncRules !== undefined && !Array.isArray(syncRules)) {
+    return { errors: ["The registry's sync_rules must be a list"] };
+  }
+
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const entries = new Map<string, RegistryEntry>();
+
+  repositories.forEach((item: Record<string, unknown>, index) => {
+    const where = `Repository ${index + 1}`;
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      errors.push(`${where} must be an object`);
+      return;
+    }
+
+    const unknownFields = Object.keys(item).filter(key => !["url", ...COMPARED_FIELDS].includes(key as keyof RegistryEntry));
+    if (unknownFields.length > 0) errors.push(`${where} has unknown fields: ${unknownFields.join(", ")}`);
+
+    const { url, name, nickname, is_master, provider, groups } = item;
+    if (typeof url !== "string" || !url.trim()) {
+      errors.push(`${where} needs a url`);
+      return;
+    }
+
+    const resolvedProvider = provider ?? detectProvider(url);
+    if (typeof resolvedProvider !== "string" || !PROVIDER_LABELS[resolvedProvider]) {
+      errors.push(`${where} (${url}) needs a provider: ${Object.keys(PROVIDER_LABELS).join(", ")}`);
+    }
+    if (name !== undefined && typeof name !== "string") errors.push(`${where} (${url}) has a name that is not a string`);
+    if (nickname !== undefined && nickname !== null && typeof nickname !== "string") {
+      errors.push(`${where} (${url}) has a nickname that is not a string`);
+    }
+    if (is_master !== undefined && typeof is_master !== "boolean") errors.push(`${where} (${url}) has an is_master that is not true or false`);
+    if (groups !== undefined && !(Array.isArray(groups) && groups.every(group => typeof group === "string"))) {
+      errors.push(`${where} (${url}) has groups that are not a list of strings`);
+    }
+
+    const key = normalizeRepoUrl(url);
+    if (entries.has(key)) {
+      warnings.push(`${url} is listed more than once; the first entry is used`);
+      return;
+    }
+
+    entries.set(key, toEntry({
+      url: url.trim(),
+      name: typeof name === "string" && name ? name : url.trim().split("/").pop()?.replace(".git", "") || "",
+      nickname: typeof nickname === "string" ? nickname : null,
+      is_master: is_master === true,
+      provider: resolvedProvider as string,
+      groups: Array.isArray(groups) ? [...new Set(groups as string[])] : [],
+    }));
+  });
+
+  const masters = [...entries.values()].filter(entry => entry.is_master);
+  if (masters.length > 1) {
+    errors.push(`Only one repository can be the master; ${masters.map(entry => entry.url).join(", ")} all are`);
+  }
+
+  const rules = new Map<string, RegistrySyncRule>();
+
+  (Array.isArray(syncRules) ? syncRules : []).forEach((item: Record<string, unknown>, index) => {
+    const where = `Sync rule ${index + 1}`;
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      errors.push(`${where} must be an object`);
+      return;
+    }
+
+    const knownFields = [...SYNC_RULE_KEY_FIELDS, ...SYNC_RULE_COMPARED_FIELDS] as string[];
+    const unknownFields = Object.keys(item).filter(key => !knownFields.includes(key));
+    if (unknownFields.length > 0) errors.push(`${where} has unknown fields: ${unknownFields.join(", ")}`);
+
+    const { source_url, target_url, source_branch, target_branch, push_type, schedule, run_on_push, enabled } = item;
+    if (typeof source_url !== "string" || !source_url.trim() || typeof target_url !== "string" || !target_url.trim()) {
+      errors.push(`${where} needs a source_url and a target_url`);
+      return;
+    }
+
+    // Rules can only push between repositories the registry lists
+    for (const url of new Set([source_url, target_url])) {
+      if (!entries.has(normalizeRepoUrl(url))) errors.push(`${where} refers to ${url}, which is not in the repositories list`);
+    }
+    if (normalizeRepoUrl(source_url) === normalizeRepoUrl(target_url)) {
+      errors.push(`${where} pushes ${source_url} into itself`);
+    }
+
+    for (const [field, value] of [["source_branch", source_branch], ["target_branch", target_branch]] as const) {
+      if (value !== undefined && value !== null && typeof value !== "string") errors.push(`${where} has a ${field} that is not a string`);
+    }
+    if (push_type !== undefined && !SYNC_RULE_PUSH_TYPES.includes(push_type as string)) {
+      errors.push(`${where} needs a push_type: ${SYNC_RULE_PUSH_TYPES.join(", ")}`);
+    }
+    if (schedule !== undefined && schedule !== null && (typeof schedule !== "string" || !parseCron(schedule))) {
+      errors.push(`${where} has a schedule that is not five cron fields`);
+    }
+    if (run_on_push !== undefined && typeof run_on_push !== "boolean") errors.push(`${where} has a run_on_push that is not true or false`);
+    if (enabled !== undefined && typeof enabled !== "boolean") errors.push(`${where} has an enabled that is not true or false`);
+    if (!schedule && run_on_push !== true) errors.push(`${where} needs a schedule or run_on_push: true`);
+
+    const rule = toSyncRule({
+      source_url: source_url.trim(),
+      target_url: target_url.trim(),
+      source_branch: typeof source_branch === "string" ? source_branch : null,
+      target_branch: typeof target_branch === "string" ? target_branch : null,
+      push_type: typeof push_type === "string" ? push_type : "regular",
+      schedule: typeof schedule === "string" ? schedule.trim() : null,
+      run_on_push: run_on_push === true,
+      enabled: enabled !== false,
+    });
+
+    const key = syncRuleKey(rule);
+    if (rules.has(key)) {
+      warnings.push(`The sync rule from ${source_url} to ${target_url} is listed more than once; the first entry is used`);
+      return;
+    }
+    rules.set(key, rule);
+  });
+
+  return errors.length > 0
+    ? { errors }
+    : { entries: [...entries.values()], syncRules: syncRules === undefined ? null : [...rules.values()], warnings };
+};
+
+const diffSyncRules = (rules: RegistryStoredSyncRule[], entries: RegistrySyncRule[]): RegistryDiff["syncRules"] => {
+  const current = new Map(rules.map(rule => [syncRuleKey(rule), rule]));
+  const imported = new Set(entries.map(syncRuleKey));
+
+  const added: RegistrySyncRule[] = [];
+  const changed: RegistrySyncRuleChange[] = [];
+
+  for (const entry of entries) {
+    const rule = current.get(syncRuleKey(entry));
+    if (!rule) {
+      added.push(entry);
+      continue;
+    }
+
+    const fields = SYNC_RULE_COMPARED_FIELDS.filter(field => rule[field] !== entry[field]);
+    if (fields.length > 0) changed.push({ rule, entry, fields });
+  }
+
+  return { added, changed, removed: rules.filter(rule => !imported.has(syncRuleKey(rule))) };
+};
+
+// What importing `entries` and `syncRules` would change in the workspace.
+// Repositories and rules not in the file are listed as removed; without a
+// sync_rules list (`syncRules` null) rules are not compared.
+export const diffRegistry = (
+  repositories: RegistryRepository[],
+  entries: RegistryEntry[],
+  rules: RegistryStoredSyncRule[],
+  syncRules: RegistrySyncRule[] | null
+): RegistryDiff => {
+  const current = new Map(repositories.map(repo => [normalizeRepoUrl(repo.url), repo]));
+  const imported = new Set(entries.map(entry => normalizeRepoUrl(entry.url)));
+
+  // The master flag can only move to another repository, so files that
+  // mark no master leave it where it is
+  const fields = entries.some(entry => entry.is_master)
+    ? COMPARED_FIELDS
+    : COMPARED_FIELDS.filter(field => field !== "is_master");
+
+  const added: RegistryEntry[] = [];
+  const changed: RegistryChange[] = [];
+
+  for (const entry of entries) {
+    const repository = current.get(normalizeRepoUrl(entry.url));
+    if (!repository) {
+      added.push(entry);
+      continue;
+    }
+
+    const existing = toEntry(repository);
+    const changedFields = fields.filter(field => JSON.stringify(existing[field]) !== JSON.stringify(entry[field]));
+    if (changedFields.length > 0) changed.push({ repository, entry, fields: changedFields });
+  }
+
+  return {
+    added,
+    changed,
+    removed: repositories.filter(repo => !imported.has(normalizeRepoUrl(repo.url))),
+    syncRules: syncRules ? diffSyncRules(rules, syncRules) : { added: [], changed: [], removed: [] },
+  };
+};
@@ -0,0 +1,259 @@
+import { useState, useEffect, useCallback } from "react";
+import { useSession } from "@supabase/auth-helpers-react";
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/AppSidebar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { supabase } from "@/integrations/supabase/client";
+import { describeOperationError, readOperationError } from "@/lib/operation-errors";
+import { invokeGitOperation } from "@/lib/git-operations";
+import type { Tables } from "@/integrations/supabase/types";
+import { Check, ClipboardCheck, Play, RefreshCw, X } from "lucide-react";
+
+type PushRequest = Tables<"push_requests">;
+
+const statusVariants: Record<string, "default" | "secondary" | "outline" | "destructive"> = {
+  pending: "default",
+  approved: "secondary",
+  rejected: "outline",
+  executing: "secondary",
+  executed: "outline",
+  failed: "destructive",
+};
+
+const Approvals = () => {
+  const session = useSession();
+  const { current: workspace } = useWorkspace();
+  const [pushRequests, setPushRequests] = useState<PushRequest[]>([]);
+  const [repositories, setRepositories] = useState<Tables<"repositories">[]>([]);
+  const [comments, setComments] = useState<Record<string, string>>({});
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const { toast } = useToast();
+
+  // git-operations has the final say; these only hide actions it would refuse
+  const isAdmin = workspace?.role === 'admin';
+  const canOperate = isAdmin || workspace?.role === 'operator';
+
+  const fetchPushRequests = useCallback(async () => {
+    if (!workspace) {
+      setRepositories([]);
+      setPushRequests([]);
+      return;
+    }
+
+    try {
+      setIsRefreshing(true);
+      const { data: repos, error: reposError } = await supabase
+        .from('repositories')
+        .select('*')
+        .eq('workspace_id', workspace.id);
+
+      if (reposError) throw reposError;
+      setRepositories(repos || []);
+
+      const { data, error } = await supabase
+        .from('push_requests')
+        .select('*')
+        .in('target_repository_id', (repos || []).map(repo => repo.id))
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setPushRequests(data || []);
+    } catch (error) {
+      console.error('Error fetching push requests:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch push requests",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRefreshing(false);
+    }
+  }, [workspace, toast]);
+
+  useEffect(() => {
+    fetchPushRequests();
+  }, [fetchPushRequests]);
+
+  const showOperationError = async (error: unknown, fallback: string) => {
+    const { title, description } = describeOperationError(await readOperationError(error), fallback);
+    toast({ title, description, variant: "destructive" });
+  };
+
+  const handleReview = async (pushRequest: PushRequest, approve: boolean) => {
+    try {
+      setBusyId(pushRequest.id);
+      const { data, error } = await invokeGitOperation({
+        type: 'reviewPush',
+        pushRequestId: pushRequest.id,
+        approve,
+        comment: comments[pushRequest.id] || undefined
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Push request ${data.status}`,
+      });
+      await fetchPushRequests();
+    } catch (error) {
+      console.error('Error reviewing push request:', error);
+      await showOperationError(error, "Failed to review push request");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleExecute = async (pushRequest: PushRequest) => {
+    try {
+      setBusyId(pushRequest.id);
+      const { error } = await invokeGitOperation({ type: 'executePush', pushRequestId: pushRequest.id });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Pushed ${pushRequest.source_branch} into ${getRepoLabel(pushRequest.target_repository_id)}`,
+      });
+    } catch (error) {
+      console.error('Error executing push request:', error);
+      await showOperationError(error, "Failed to execute push request");
+    } finally {
+      setBusyId(null);
+      // A failed execution is recorded on the request as well
+      await fetchPushRequests();
+    }
+  };
+
+  const getRepo = (id: string) => repositories.find(r => r.id === id);
+
+  const getRepoLabel = (id: string) => {
+    const repo = getRepo(id);
+    return repo ? repo.nickname || repo.url : "Deleted repository";
+  };
+
+  // Pushes into the master repository can only be approved by an admin
+  const canReview = (pushRequest: PushRequest) =>
+    pushRequest.requested_by !== session?.user.id &&
+    (getRepo(pushRequest.target_repository_id)?.is_master ? isAdmin : canOperate);
+
+  return (
+    <SidebarProvider>
+      <div className="min-h-screen flex w-full">
+        <AppSidebar />
+        <main className="flex-1 p-6">
+          <div className="container mx-auto">
+            <div className="flex justify-between items-center mb-8">
+              <h1 className="text-3xl font-bold">Approvals</h1>
+              <SidebarTrigger />
+            </div>
+            <Card className="p-6 space-y-6 bg-secondary/50 backdrop-blur-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <ClipboardCheck className="h-6 w-6 text-primary" />
+                  <h2 className="text-2xl font-semibold">Push Requests</h2>
+                </div>
+                <Button variant="outline" size="sm" onClick={fetchPushRequests} disabled={isRefreshing}>
+                  <RefreshCw className={`h-4 w-4 mr-2 ${isRefreshing ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+              </div>
+
+              {pushRequests.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No push requests yet. Preview a push into a protected repository and choose "Request Approval".
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {pushRequests.map(pushRequest => (
+                    <div key={pushRequest.id} className="p-3 rounded-md bg-background/50 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <Badge variant={statusVariants[pushRequest.status] ?? "outline"}>{pushRequest.status}</Badge>
+                          <span className="font-medium truncate">
+                            {getRepoLabel(pushRequest.source_repository_id)} ({pushRequest.source_branch}) → {getRepoLabel(pushRequest.target_repository_id)} ({pushRequest.target_branch})
+                          </span>
+                        </div>
+                        <Badge variant="outline">{pushRequest.push_type}</Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground font-mono">
+                        {pushRequest.source_sha.substring(0, 7)} onto {pushRequest.target_sha.substring(0, 7)}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        Requested {new Date(pushRequest.created_at).toLocaleString()}
+                        {pushRequest.requested_by_label ? ` by ${pushRequest.requested_by_label}` : ''}
+                        {pushRequest.reviewed_at && (
+                          <>
+                            {" · "}{pushRequest.status === 'rejected' ? 'Rejected' : 'Approved'} {new Date(pushRequest.reviewed_at).toLocaleString()}
+                            {pushRequest.reviewed_by_label ? ` by ${pushRequest.reviewed_by_label}` : ''}
+                          </>
+                        )}
+                      </div>
+                      {pushRequest.review_comment && (
+                        <p className="text-sm">{pushRequest.review_comment}</p>
+                      )}
+                      {pushRequest.error_message && (
+                        <p className="text-sm text-destructive">{pushRequest.error_message}</p>
+                      )}
+
+                      {pushRequest.status === 'pending' && canReview(pushRequest) && (
+                        <div className="flex flex-col gap-2 md:flex-row">
+                          <Input
+                            placeholder="Comment (optional)"
+                            value={comments[pushRequest.id] ?? ""}
+                            onChange={(e) => setComments(prev => ({ ...prev, [pushRequest.id]: e.target.value }))}
+                            className="bg-background/50"
+                            disabled={busyId === pushRequest.id}
+                          />
+                          <Button
+                            size="sm"
+                            onClick={() => handleReview(pushRequest, true)}
+                            disabled={busyId === pushRequest.id}
+                          >
+                            <Check className="h-4 w-4 mr-1" />
+                            Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleReview(pushRequest, false)}
+                            disabled={busyId === pushRequest.id}
+                          >
+                            <X className="h-4 w-4 mr-1" />
+                            Reject
+                          </Button>
+                        </div>
+                      )}
+                      {pushRequest.status === 'pending' && pushRequest.requested_by === session?.user.id && (
+                        <p className="text-xs text-muted-foreground">Waiting for another member to review your request.</p>
+                      )}
+
+                      {pushRequest.status === 'approved' && canOperate && (
+                        <Button
+                          size="sm"
+                          onClick={() => handleExecute(pushRequest)}
+                          disabled={busyId === pushRequest.id}
+                        >
+                          <Play className="h-4 w-4 mr-1" />
+                          {busyId === pushRequest.id ? "Pushing..." : "Execute Push"}
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+          </div>
+        </main>
+      </div>
+    </SidebarProvider>
+  );
+};
+
+export default Approvals;
@@ -0,0 +1,198 @@
+import { useState, useEffect, useCallback } from "react";
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/AppSidebar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { supabase } from "@/integrations/supabase/client";
+import { describeOperationError, readOperationError } from "@/lib/operation-errors";
+import { invokeGitOperation } from "@/lib/git-operations";
+import type { Tables } from "@/integrations/supabase/types";
+import type { CompareWithMasterResponse, DriftResult } from "@shared/operations";
+import { GitCompare, RefreshCw, Star } from "lucide-react";
+
+const statusLabels: Record<DriftResult["status"], string> = {
+  "in-sync": "In sync",
+  stale: "Stale",
+  diverged: "Diverged",
+  failed: "Not compared",
+};
+
+const statusVariants: Record<DriftResult["status"], "default" | "secondary" | "outline" | "destructive"> = {
+  "in-sync": "secondary",
+  stale: "outline",
+  diverged: "destructive",
+  failed: "outline",
+};
+
+// How far each repository has moved from the master's default branch.
+// Comparing reads every repository from its provider, so it only runs when
+// asked to.
+const Drift = () => {
+  const { current: workspace } = useWorkspace();
+  const [repositories, setRepositories] = useState<Tables<"repositories">[]>([]);
+  const [drift, setDrift] = useState<CompareWithMasterResponse | null>(null);
+  const [comparedAt, setComparedAt] = useState<Date | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const { toast } = useToast();
+
+  const master = repositories.find(repo => repo.is_master);
+
+  const fetchRepositories = useCallback(async () => {
+    if (!workspace) {
+      setRepositories([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('repositories')
+        .select('*')
+        .eq('workspace_id', workspace.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setRepositories(data || []);
+    } catch (error) {
+      console.error('Error fetching repositories:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch repositories",
+        variant: "destructive",
+      });
+    }
+  }, [workspace, toast]);
+
+  useEffect(() => {
+    setDrift(null);
+    setComparedAt(null);
+    fetchRepositories();
+  }, [fetchRepositories]);
+
+  const handleCompare = async () => {
+    if (!workspace) return;
+
+    try {
+      setIsComparing(true);
+      const { data, error } = await invokeGitOperation({ type: 'compareWithMaster', workspaceId: workspace.id });
+
+      if (error) throw error;
+
+      setDrift(data);
+      setComparedAt(new Date());
+    } catch (error) {
+      console.error('Error comparing with master:', error);
+      const { title, description } = describeOperationError(await readOperationError(error), "Failed to compare repositories");
+      toast({ title, description, variant: "destructive" });
+    } finally {
+      setIsComparing(false);
+    }
+  };
+
+  const getRepoLabel = (id: string) => {
+    const repo = repositories.find(r => r.id === id);
+    return repo ? repo.nickname || repo.url : "Deleted repository";
+  };
+
+  const counts = (drift?.results ?? []).reduce<Record<string, number>>((totals, result) => {
+    totals[result.status] = (totals[result.status] ?? 0) + 1;
+    return totals;
+  }, {});
+
+  return (
+    <SidebarProvider>
+      <div className="min-h-screen flex w-full">
+        <AppSidebar />
+        <main className="flex-1 p-6">
+          <div className="container mx-auto">
+            <div className="flex justify-between items-center mb-8">
+              <h1 className="text-3xl font-bold">Drift</h1>
+              <SidebarTrigger />
+            </div>
+            <Card className="p-6 space-y-6 bg-secondary/50 backdrop-blur-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <GitCompare className="h-6 w-6 text-primary" />
+                  <h2 className="text-2xl font-semibold">Compared with the Master</h2>
+                </div>
+                <Button variant="outline" size="sm" onClick={handleCompare} disabled={isComparing || !master}>
+                  <RefreshCw className={`h-4 w-4 mr-2 ${isComparing ? 'animate-spin' : ''}`} />
+                  {drift ? "Compare Again" : "Compare"}
+                </Button>
+              </div>
+
+              {!master ? (
+                <p className="text-sm text-muted-foreground">
+                  No master repository yet. Mark one as master on the Repositories page to compare the others with it.
+                </p>
+              ) : (
+                <div className="text-sm text-muted-foreground flex items-center gap-2 flex-wrap">
+                  <Star className="h-4 w-4 text-red-500" />
+                  <span>{master.nickname || master.url}</span>
+                  {drift && (
+                    <span className="font-mono">
+                      {drift.masterBranch} @ {drift.masterSha.substring(0, 7)}
+                    </span>
+                  )}
+                  {comparedAt && <span>· compared {comparedAt.toLocaleString()}</span>}
+                </div>
+              )}
+
+              {drift && (
+                <>
+                  <div className="flex items-center gap-2 flex-wrap">
+                    {(["in-sync", "stale", "diverged", "failed"] as const).map(status => counts[status] ? (
+                      <Badge key={status} variant={statusVariants[status]}>
+                        {counts[status]} {statusLabels[status].toLowerCase()}
+                      </Badge>
+                    ) : null)}
+                  </div>
+
+                  {drift.results.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">The master is the only repository in this workspace.</p>
+                  ) : (
+                    <div className="space-y-2">
+                      {drift.results.map(result => (
+                        <div key={result.repositoryId} className="p-3 rounded-md bg-background/50 space-y-1">
+                          <div className="flex items-center justify-between gap-2">
+                            <span className="font-medium truncate">
+                              {getRepoLabel(result.repositoryId)}
+                              {result.branch && <span className="text-muted-foreground font-normal"> ({result.branch})</span>}
+                            </span>
+                            <Badge variant={statusVariants[result.status]}>{statusLabels[result.status]}</Badge>
+                          </div>
+                          {result.status === 'failed' ? (
+                            <p className="text-xs text-destructive">
+                              {describeOperationError(
+                                { success: false, code: result.code ?? "internal", error: result.error ?? "Unknown error" },
+                                "Comparison failed"
+                              ).description}
+                            </p>
+                          ) : (
+                            <div className="text-xs text-muted-foreground">
+                              {result.behindBy} behind · {result.aheadBy} ahead
+                              {result.status !== 'in-sync' && result.mergeBaseSha && (
+                                <>
+                                  {" · "}diverged at <span className="font-mono">{result.mergeBaseSha.substring(0, 7)}</span>
+                                  {result.mergeBaseDate && ` (${new Date(result.mergeBaseDate).toLocaleString()})`}
+                                </>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </>
+              )}
+            </Card>
+          </div>
+        </main>
+      </div>
+    </SidebarProvider>
+  );
+};
+
+export default Drift;
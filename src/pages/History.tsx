@@ -0,0 +1,119 @@
+import { useState, useEffect, useCallback } from "react";
+import { useSearchParams } from "react-router-dom";
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/AppSidebar";
+import { SyncTimeline } from "@/components/SyncTimeline";
+import { Card } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { History as HistoryIcon } from "lucide-react";
+
+const ALL = "all";
+
+const History = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [repositories, setRepositories] = useState<Tables<"repositories">[]>([]);
+  const { toast } = useToast();
+
+  const repositoryId = searchParams.get('repo') || ALL;
+  const status = searchParams.get('status') || ALL;
+
+  const fetchRepositories = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('repositories')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setRepositories(data || []);
+    } catch (error) {
+      console.error('Error fetching repositories:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch repositories",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchRepositories();
+  }, [fetchRepositories]);
+
+  const updateFilter = (key: string, value: string) => {
+    const params = new URLSearchParams(searchParams);
+    if (value === ALL) {
+      params.delete(key);
+    } else {
+      params.set(key, value);
+    }
+    setSearchParams(params);
+  };
+
+  return (
+    <SidebarProvider>
+      <div className="min-h-screen flex w-full">
+        <AppSidebar />
+        <main className="flex-1 p-6">
+          <div className="container mx-auto">
+            <div className="flex justify-between items-center mb-8">
+              <h1 className="text-3xl font-bold">Operation History</h1>
+              <SidebarTrigger />
+            </div>
+            <Card className="p-6 space-y-6 bg-secondary/50 backdrop-blur-sm">
+              <div className="flex items-center gap-2">
+                <HistoryIcon className="h-6 w-6 text-primary" />
+                <h2 className="text-2xl font-semibold">Timeline</h2>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Repository</label>
+                  <Select value={repositoryId} onValueChange={(value) => updateFilter('repo', value)}>
+                    <SelectTrigger className="bg-background/50">
+                      <SelectValue placeholder="All repositories" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All repositories</SelectItem>
+                      {repositories.map(repo => (
+                        <SelectItem key={repo.id} value={repo.id}>
+                          {repo.nickname || repo.url}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Status</label>
+                  <Select value={status} onValueChange={(value) => updateFilter('status', value)}>
+                    <SelectTrigger className="bg-background/50">
+                      <SelectValue placeholder="All statuses" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL}>All statuses</SelectItem>
+                      <SelectItem value="succeeded">Succeeded</SelectItem>
+                      <SelectItem value="failed">Failed</SelectItem>
+                      <SelectItem value="running">Running</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <SyncTimeline
+                repositories={repositories}
+                repositoryId={repositoryId === ALL ? undefined : repositoryId}
+                status={status === ALL ? undefined : status}
+              />
+            </Card>
+          </div>
+        </main>
+      </div>
+    </SidebarProvider>
+  );
+};
+
+export default History;
@@ -0,0 +1,41 @@
+import { useEffect } from "react";
+import { useLocation, useNavigate } from "react-router-dom";
+import { Auth } from "@supabase/auth-ui-react";
+import { ThemeSupa } from "@supabase/auth-ui-shared";
+import { useSession } from "@supabase/auth-helpers-react";
+import { Card } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import { GitBranch } from "lucide-react";
+
+const Login = () => {
+  const session = useSession();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: string } | null)?.from ?? "/";
+
+  useEffect(() => {
+    if (session) navigate(from, { replace: true });
+  }, [session, from, navigate]);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <Card className="w-full max-w-md p-6 space-y-6 bg-secondary/50 backdrop-blur-sm">
+        <div className="flex items-center gap-2">
+          <GitBranch className="h-6 w-6 text-primary" />
+          <h1 className="text-2xl font-semibold">Sign in to Git Tools</h1>
+        </div>
+        <Auth
+          supabaseClient={supabase}
+          appearance={{ theme: ThemeSupa }}
+          theme="dark"
+          view="magic_link"
+          providers={["github", "gitlab", "bitbucket"]}
+          redirectTo={window.location.origin}
+          showLinks={false}
+        />
+      </Card>
+    </div>
+  );
+};
+
+export default Login;
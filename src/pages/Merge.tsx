@@ -0,0 +1,403 @@
+import { useState, useEffect, useCallback } from "react";
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/AppSidebar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { useWorkspace } from "@/hooks/use-workspace";
+import type { Tables } from "@/integrations/supabase/types";
+import type { PushPreviewData } from "@/components/PushPreview";
+import { describeOperationError, readOperationError } from "@/lib/operation-errors";
+import { invokeGitOperation } from "@/lib/git-operations";
+import type { BranchSummary, MergeStrategy } from "@shared/operations";
+import { ArrowDown, ArrowUp, FileText, GitMerge } from "lucide-react";
+
+const strategies: { value: MergeStrategy; label: string; description: string }[] = [
+  { value: "merge", label: "Merge commit", description: "Keeps every source commit and adds a merge commit." },
+  { value: "squash", label: "Squash", description: "Combines the source commits into a single commit." },
+  { value: "rebase", label: "Rebase", description: "Replays the source commits on top of the target branch." },
+];
+
+const mergeabilityLabels: Record<PushPreviewData['mergeStatus'], string> = {
+  'identical': "Already up to date",
+  'fast-forward': "Clean (fast-forward)",
+  'behind': "Already merged",
+  'merge': "Clean",
+  'conflicting': "Conflicts",
+};
+
+const Merge = () => {
+  const [repositories, setRepositories] = useState<Tables<"repositories">[]>([]);
+  const [selectedSourceRepo, setSelectedSourceRepo] = useState("");
+  const [selectedTargetRepo, setSelectedTargetRepo] = useState("");
+  const [sourceBranches, setSourceBranches] = useState<BranchSummary[]>([]);
+  const [targetBranches, setTargetBranches] = useState<BranchSummary[]>([]);
+  const [selectedSourceBranch, setSelectedSourceBranch] = useState("");
+  const [selectedTargetBranch, setSelectedTargetBranch] = useState("");
+  const [mergeStrategy, setMergeStrategy] = useState<MergeStrategy>("merge");
+  const [commitMessage, setCommitMessage] = useState("");
+  const [mergeability, setMergeability] = useState<PushPreviewData | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+  const { current: workspace } = useWorkspace();
+
+  // Mergeability only describes the selection it was computed for
+  useEffect(() => {
+    setMergeability(null);
+  }, [selectedSourceRepo, selectedTargetRepo, selectedSourceBranch, selectedTargetBranch]);
+
+  const fetchRepositories = useCallback(async () => {
+    if (!workspace) {
+      setRepositories([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('repositories')
+        .select('*')
+        .eq('workspace_id', workspace.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setRepositories(data || []);
+    } catch (error) {
+      console.error('Error fetching repositories:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch repositories",
+        variant: "destructive",
+      });
+    }
+  }, [workspace, toast]);
+
+  const fetchBranches = useCallback(async (
+    repoId: string,
+    setBranches: (branches: BranchSummary[]) => void,
+    setSelectedBranch: (branch: string) => void
+  ) => {
+    try {
+      const { data, error } = await invokeGitOperation({
+        type: 'listBranches',
+        sourceRepoId: repoId
+      });
+
+      if (error) throw error;
+
+      setBranches(data.branches || []);
+      setSelectedBranch(data.defaultBranch || "");
+    } catch (error) {
+      console.error('Error fetching branches:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch branches",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchRepositories();
+  }, [fetchRepositories]);
+
+  useEffect(() => {
+    setSourceBranches([]);
+    setSelectedSourceBranch("");
+    if (selectedSourceRepo) {
+      fetchBranches(selectedSourceRepo, setSourceBranches, setSelectedSourceBranch);
+    }
+  }, [selectedSourceRepo, fetchBranches]);
+
+  useEffect(() => {
+    setTargetBranches([]);
+    setSelectedTargetBranch("");
+    if (selectedTargetRepo) {
+      fetchBranches(selectedTargetRepo, setTargetBranches, setSelectedTargetBranch);
+    }
+  }, [selectedTargetRepo, fetchBranches]);
+
+  const handleCheckMergeability = async () => {
+    if (!selectedSourceRepo || !selectedTargetRepo) {
+      toast({
+        title: "Error",
+        description: "Please select both source and target repositories",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+
+      const { data, error } = await invokeGitOperation({
+        type: 'compare',
+        sourceRepoId: selectedSourceRepo,
+        targetRepoId: selectedTargetRepo,
+        sourceBranch: selectedSourceBranch || undefined,
+        targetBranch: selectedTargetBranch || undefined
+      });
+
+      if (error) throw error;
+
+      setMergeability(data);
+    } catch (error) {
+      console.error('Error checking mergeability:', error);
+      const { title, description } = describeOperationError(await readOperationError(error), "Failed to check mergeability");
+      toast({
+        title,
+        description,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMerge = async () => {
+    try {
+      setIsLoading(true);
+
+      const { data, error } = await invokeGitOperation({
+        type: 'merge',
+        sourceRepoId: selectedSourceRepo,
+        targetRepoId: selectedTargetRepo,
+        sourceBranch: selectedSourceBranch || undefined,
+        targetBranch: selectedTargetBranch || undefined,
+        mergeStrategy,
+        commitMessage: commitMessage || undefined,
+        previewId: mergeability?.previewId ?? undefined
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: data.message,
+      });
+
+      setMergeability(null);
+      fetchBranches(selectedTargetRepo, setTargetBranches, () => undefined);
+    } catch (error) {
+      console.error('Error during merge operation:', error);
+      const body = await readOperationError(error);
+      const conflictingFiles = body.details?.conflictingFiles ?? [];
+      if (conflictingFiles.length > 0 && mergeability) {
+        setMergeability({ ...mergeability, mergeStatus: 'conflicting', conflictingFiles });
+      }
+
+      const { title, description } = describeOperationError(body, "Failed to complete merge");
+      toast({
+        title,
+        description,
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const canMerge = mergeability && ['fast-forward', 'merge'].includes(mergeability.mergeStatus);
+
+  return (
+    <SidebarProvider>
+      <div className="min-h-screen flex w-full">
+        <AppSidebar />
+        <main className="flex-1 p-6">
+          <div className="container mx-auto">
+            <div className="flex justify-between items-center mb-8">
+              <h1 className="text-3xl font-bold">Merge</h1>
+              <SidebarTrigger />
+            </div>
+            <Card className="p-6 space-y-6 bg-secondary/50 backdrop-blur-sm">
+              <div className="flex items-center gap-2">
+                <GitMerge className="h-6 w-6 text-primary" />
+                <h2 className="text-2xl font-semibold">Merge Branches</h2>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Source Repository</label>
+                  <Select value={selectedSourceRepo} onValueChange={setSelectedSourceRepo} disabled={isLoading}>
+                    <SelectTrigger className="bg-background/50">
+                      <SelectValue placeholder="Select source repository" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {repositories.map(repo => (
+                        <SelectItem key={repo.id} value={repo.id}>
+                          {repo.nickname || repo.url}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Target Repository</label>
+                  <Select value={selectedTargetRepo} onValueChange={setSelectedTargetRepo} disabled={isLoading}>
+                    <SelectTrigger className="bg-background/50">
+                      <SelectValue placeholder="Select target repository" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {/* The master only takes approved pushes, so nothing is merged into it */}
+                      {repositories.filter(repo => !repo.is_master).map(repo => (
+                        <SelectItem key={repo.id} value={repo.id}>
+                          {repo.nickname || repo.url}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Source Branch</label>
+                  <Select
+                    value={selectedSourceBranch}
+                    onValueChange={setSelectedSourceBranch}
+                    disabled={isLoading || sourceBranches.length === 0}
+                  >
+                    <SelectTrigger className="bg-background/50">
+                      <SelectValue placeholder="Select source branch" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sourceBranches.map(branch => (
+                        <SelectItem key={branch.name} value={branch.name}>
+                          {branch.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <label className="text-sm font-medium">Target Branch</label>
+                  <Select
+                    value={selectedTargetBranch}
+                    onValueChange={setSelectedTargetBranch}
+                    disabled={isLoading || targetBranches.length === 0}
+                  >
+                    <SelectTrigger className="bg-background/50">
+                      <SelectValue placeholder="Select target branch" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {targetBranches.map(branch => (
+                        <SelectItem key={branch.name} value={branch.name}>
+                          {branch.name}
+                          {branch.protected && <Badge variant="outline" className="ml-2 text-xs">protected</Badge>}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <Button
+                onClick={handleCheckMergeability}
+                className="w-full"
+                variant="secondary"
+                disabled={isLoading}
+              >
+                {isLoading && !mergeability ? "Checking..." : "Check Mergeability"}
+              </Button>
+
+              {mergeability && (
+                <div className="space-y-3 bg-background/50 p-3 rounded-md text-sm">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium">{mergeability.sourceBranch}</span>
+                    <span className="text-muted-foreground">→</span>
+                    <span className="font-medium">{mergeability.targetBranch}</span>
+                    <Badge variant={mergeability.mergeStatus === 'conflicting' ? "destructive" : "secondary"}>
+                      {mergeabilityLabels[mergeability.mergeStatus]}
+                    </Badge>
+                  </div>
+
+                  <div className="flex items-center gap-4 text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <ArrowUp className="h-3 w-3" />
+                      {mergeability.aheadBy} to merge
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <ArrowDown className="h-3 w-3" />
+                      {mergeability.behindBy} only on target
+                    </span>
+                    <span className="flex items-center gap-1">
+                      <FileText className="h-3 w-3" />
+                      {mergeability.files.length} file(s) changed
+                    </span>
+                  </div>
+
+                  {mergeability.conflictingFiles.length > 0 && (
+                    <div className="space-y-1">
+                      <div className="font-medium">Conflicting paths</div>
+                      {mergeability.conflictingFiles.map(file => (
+                        <div key={file} className="text-xs font-mono text-red-500">{file}</div>
+                      ))}
+                    </div>
+                  )}
+
+                  {mergeability.htmlUrl && (
+                    <a
+                      href={mergeability.htmlUrl}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="text-xs text-primary hover:underline"
+                    >
+                      View comparison on the provider
+                    </a>
+                  )}
+                </div>
+              )}
+
+              {canMerge && (
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Merge Strategy</label>
+                    <Select
+                      value={mergeStrategy}
+                      onValueChange={(value) => setMergeStrategy(value as MergeStrategy)}
+                      disabled={isLoading}
+                    >
+                      <SelectTrigger className="bg-background/50">
+                        <SelectValue placeholder="Select merge strategy" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {strategies.map(strategy => (
+                          <SelectItem key={strategy.value} value={strategy.value}>
+                            {strategy.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <p className="text-xs text-muted-foreground">
+                      {strategies.find(strategy => strategy.value === mergeStrategy)?.description}
+                    </p>
+                  </div>
+
+                  <div className="space-y-2">
+                    <label className="text-sm font-medium">Commit Message (optional)</label>
+                    <Input
+                      placeholder={`Merge ${mergeability.sourceBranch} into ${mergeability.targetBranch}`}
+                      value={commitMessage}
+                      onChange={(e) => setCommitMessage(e.target.value)}
+                      className="bg-background/50"
+                      disabled={isLoading}
+                    />
+                  </div>
+
+                  <Button onClick={handleMerge} className="w-full" disabled={isLoading}>
+                    {isLoading ? "Merging..." : "Merge"}
+                  </Button>
+                </div>
+              )}
+            </Card>
+          </div>
+        </main>
+      </div>
+    </SidebarProvider>
+  );
+};
+
+export default Merge;
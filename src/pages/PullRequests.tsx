@@ -0,0 +1,189 @@
+import { useState, useEffect, useCallback } from "react";
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/AppSidebar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { supabase } from "@/integrations/supabase/client";
+import { invokeGitOperation } from "@/lib/git-operations";
+import type { Tables } from "@/integrations/supabase/types";
+import { ExternalLink, GitPullRequest, RefreshCw } from "lucide-react";
+
+type PullRequest = Tables<"pull_requests">;
+
+const stateVariants: Record<string, "default" | "secondary" | "outline"> = {
+  open: "default",
+  merged: "secondary",
+  closed: "outline",
+};
+
+const reviewLabels: Record<string, string> = {
+  approved: "Approved",
+  changes_requested: "Changes requested",
+  pending: "Review pending",
+};
+
+const checkLabels: Record<string, string> = {
+  success: "Checks passed",
+  failure: "Checks failed",
+  pending: "Checks running",
+  none: "No checks",
+};
+
+const PullRequests = () => {
+  const [pullRequests, setPullRequests] = useState<PullRequest[]>([]);
+  const [repositories, setRepositories] = useState<Tables<"repositories">[]>([]);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const { toast } = useToast();
+
+  const fetchRepositories = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('repositories')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setRepositories(data || []);
+    } catch (error) {
+      console.error('Error fetching repositories:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch repositories",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  const fetchPullRequests = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('pull_requests')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setPullRequests(data || []);
+    } catch (error) {
+      console.error('Error fetching pull requests:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch pull requests",
+        variant: "destructive",
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchRepositories();
+    fetchPullRequests();
+  }, [fetchRepositories, fetchPullRequests]);
+
+  const handleRefresh = async () => {
+    try {
+      setIsRefreshing(true);
+      const { data, error } = await invokeGitOperation({ type: 'refreshPullRequests' });
+
+      if (error) throw error;
+
+      if (data.failed.length > 0) {
+        toast({
+          title: "Partially refreshed",
+          description: `${data.failed.length} pull request(s) could not be refreshed`,
+          variant: "destructive",
+        });
+      }
+
+      await fetchPullRequests();
+    } catch (error) {
+      console.error('Error refreshing pull requests:', error);
+      toast({
+        title: "Error",
+        description: "Failed to refresh pull request status",
+        variant: "destructive",
+      });
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  const getRepoLabel = (id: string | null) => {
+    const repo = repositories.find(r => r.id === id);
+    return repo ? repo.nickname || repo.url : "Deleted repository";
+  };
+
+  return (
+    <SidebarProvider>
+      <div className="min-h-screen flex w-full">
+        <AppSidebar />
+        <main className="flex-1 p-6">
+          <div className="container mx-auto">
+            <div className="flex justify-between items-center mb-8">
+              <h1 className="text-3xl font-bold">Pull Requests</h1>
+              <SidebarTrigger />
+            </div>
+            <Card className="p-6 space-y-6 bg-secondary/50 backdrop-blur-sm">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <GitPullRequest className="h-6 w-6 text-primary" />
+                  <h2 className="text-2xl font-semibold">Opened by Sync</h2>
+                </div>
+                <Button variant="outline" size="sm" onClick={handleRefresh} disabled={isRefreshing}>
+                  <RefreshCw className={`h-4 w-4 mr-2 ${isRefreshing ? 'animate-spin' : ''}`} />
+                  Refresh Status
+                </Button>
+              </div>
+
+              {pullRequests.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  No pull requests yet. Choose "Open as Pull Request" as the push type to create one.
+                </p>
+              ) : (
+                <div className="space-y-2">
+                  {pullRequests.map(pullRequest => (
+                    <div key={pullRequest.id} className="p-3 rounded-md bg-background/50 space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <div className="flex items-center gap-2 min-w-0">
+                          <Badge variant={stateVariants[pullRequest.state] ?? "outline"}>{pullRequest.state}</Badge>
+                          <span className="font-medium truncate">
+                            #{pullRequest.number} {pullRequest.title}
+                          </span>
+                        </div>
+                        <a
+                          href={pullRequest.url}
+                          target="_blank"
+                          rel="noreferrer"
+                          className="text-muted-foreground hover:text-primary"
+                        >
+                          <ExternalLink className="h-4 w-4" />
+                        </a>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {getRepoLabel(pullRequest.source_repository_id)} ({pullRequest.source_branch}) → {getRepoLabel(pullRequest.target_repository_id)} ({pullRequest.target_branch})
+                      </div>
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <Badge variant={pullRequest.review_status === 'changes_requested' ? "destructive" : "outline"}>
+                          {reviewLabels[pullRequest.review_status] ?? pullRequest.review_status}
+                        </Badge>
+                        <Badge variant={pullRequest.check_status === 'failure' ? "destructive" : "outline"}>
+                          {checkLabels[pullRequest.check_status] ?? pullRequest.check_status}
+                        </Badge>
+                        <span className="text-xs text-muted-foreground">
+                          Opened {new Date(pullRequest.created_at).toLocaleString()}
+                          {pullRequest.created_by ? ` by ${pullRequest.created_by}` : ''}
+                        </span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </Card>
+          </div>
+        </main>
+      </div>
+    </SidebarProvider>
+  );
+};
+
+export default PullRequests;
@@ -0,0 +1,411 @@
+import { useState, useEffect, useCallback } from "react";
+import { useSession } from "@supabase/auth-helpers-react";
+import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
+import { AppSidebar } from "@/components/AppSidebar";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useWorkspace } from "@/hooks/use-workspace";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { WorkspaceRole } from "@shared/operations";
+import { Trash2, Users, Webhook } from "lucide-react";
+
+type WorkspaceMember = Tables<"workspace_members">;
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  viewer: "Viewer",
+  operator: "Operator",
+  admin: "Admin",
+};
+
+const ROLE_DESCRIPTIONS: Record<WorkspaceRole, string> = {
+  viewer: "sees repositories, history and pull requests",
+  operator: "also pushes, merges and syncs tags, except into the master repository",
+  admin: "also manages repositories, members and the master repository",
+};
+
+const Workspaces = () => {
+  const session = useSession();
+  const { current, refresh, setCurrent } = useWorkspace();
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [workspaceName, setWorkspaceName] = useState("");
+  const [memberEmail, setMemberEmail] = useState("");
+  const [memberRole, setMemberRole] = useState<WorkspaceRole>("operator");
+  const [webhookSecret, setWebhookSecret] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const { toast } = useToast();
+
+  const isAdmin = current?.role === "admin";
+
+  const fetchMembers = useCallback(async () => {
+    if (!current) {
+      setMembers([]);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('workspace_members')
+        .select('*')
+        .eq('workspace_id', current.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setMembers(data || []);
+    } catch (error) {
+      console.error('Error fetching members:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch workspace members",
+        variant: "destructive",
+      });
+    }
+  }, [current, toast]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  // Only admins can read the secret that signs repository webhooks
+  const fetchWebhookSecret = useCallback(async () => {
+    if (!current || !isAdmin) {
+      setWebhookSecret(null);
+      return;
+    }
+
+    try {
+      const { data, error } = await supabase
+        .from('workspace_webhook_secrets')
+        .select('secret')
+        .eq('workspace_id', current.id)
+        .maybeSingle();
+
+      if (error) throw error;
+      setWebhookSecret(data?.secret ?? null);
+    } catch (error) {
+      console.error('Error fetching webhook secret:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch the webhook secret",
+        variant: "destructive",
+      });
+    }
+  }, [current, isAdmin, toast]);
+
+  useEffect(() => {
+    fetchWebhookSecret();
+  }, [fetchWebhookSecret]);
+
+  const handleCreateWorkspace = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!workspaceName) {
+      toast({
+        title: "Error",
+        description: "Please enter a workspace name",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      // The creator is added as an admin by a database trigger
+      const { data, error } = await supabase
+        .from('workspaces')
+        .insert({ name: workspaceName })
+        .select('id')
+        .single();
+
+      if (error) throw error;
+
+      await refresh();
+      setCurrent(data.id);
+      setWorkspaceName("");
+
+      toast({
+        title: "Success",
+        description: `Workspace created: ${workspaceName}`,
+      });
+    } catch (error) {
+      console.error('Error creating workspace:', error);
+      toast({
+        title: "Error",
+        description: "Failed to create workspace",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleAddMember = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!current || !memberEmail) return;
+
+    try {
+      setIsLoading(true);
+      const { error } = await supabase.rpc('add_workspace_member', {
+        target_workspace: current.id,
+        member_email: memberEmail,
+        member_role: memberRole,
+      });
+
+      if (error) throw error;
+
+      setMemberEmail("");
+      await fetchMembers();
+
+      toast({
+        title: "Success",
+        description: `${memberEmail} added as ${ROLE_LABELS[memberRole].toLowerCase()}`,
+      });
+    } catch (error) {
+      console.error('Error adding member:', error);
+      toast({
+        title: "Error",
+        // The database function explains why, e.g. an unknown email
+        description: (error as { message?: string })?.message || "Failed to add member",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleChangeRole = async (member: WorkspaceMember, role: WorkspaceRole) => {
+    try {
+      setIsLoading(true);
+      const { error } = await supabase
+        .from('workspace_members')
+        .update({ role })
+        .eq('workspace_id', member.workspace_id)
+        .eq('user_id', member.user_id);
+
+      if (error) throw error;
+
+      await fetchMembers();
+      // Changing your own role changes what this session may do
+      if (member.user_id === session?.user.id) await refresh();
+    } catch (error) {
+      console.error('Error changing role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to change role",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRemoveMember = async (member: WorkspaceMember) => {
+    try {
+      setIsLoading(true);
+      const { error } = await supabase
+        .from('workspace_members')
+        .delete()
+        .eq('workspace_id', member.workspace_id)
+        .eq('user_id', member.user_id);
+
+      if (error) throw error;
+
+      await fetchMembers();
+      if (member.user_id === session?.user.id) await refresh();
+
+      toast({
+        title: "Success",
+        description: `Removed ${member.email ?? member.user_id}`,
+      });
+    } catch (error) {
+      console.error('Error removing member:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove member",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRotateWebhookSecret = async () => {
+    if (!current) return;
+
+    try {
+      setIsLoading(true);
+      const bytes = crypto.getRandomValues(new Uint8Array(32));
+      const secret = Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+      const { error } = await supabase
+        .from('workspace_webhook_secrets')
+        .upsert({ workspace_id: current.id, secret });
+
+      if (error) throw error;
+
+      setWebhookSecret(secret);
+      toast({
+        title: "Success",
+        description: "Webhook secret saved. Update it on the webhooks that use the old one.",
+      });
+    } catch (error) {
+      console.error('Error saving webhook secret:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save the webhook secret",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <SidebarProvider>
+      <div className="min-h-screen flex w-full">
+        <AppSidebar />
+        <main className="flex-1 p-6">
+          <div className="container mx-auto">
+            <div className="flex justify-between items-center mb-8">
+              <h1 className="text-3xl font-bold">Workspaces</h1>
+              <SidebarTrigger />
+            </div>
+            <div className="space-y-6">
+              <Card className="p-6 space-y-6 bg-secondary/50 backdrop-blur-sm">
+                <div className="flex items-center gap-2">
+                  <Users className="h-6 w-6 text-primary" />
+                  <h2 className="text-2xl font-semibold">{current ? current.name : "No workspace yet"}</h2>
+                  {current && <Badge variant="outline">{ROLE_LABELS[current.role]}</Badge>}
+                </div>
+
+                <ul className="text-sm text-muted-foreground space-y-1">
+                  {Object.entries(ROLE_DESCRIPTIONS).map(([role, description]) => (
+                    <li key={role}>
+                      <span className="font-medium text-foreground">{ROLE_LABELS[role as WorkspaceRole]}</span> {description}
+                    </li>
+                  ))}
+                </ul>
+
+                {current && isAdmin && (
+                  <form onSubmit={handleAddMember} className="flex flex-col gap-2 md:flex-row">
+                    <Input
+                      type="email"
+                      placeholder="Email of someone who has signed in"
+                      value={memberEmail}
+                      onChange={(e) => setMemberEmail(e.target.value)}
+                      className="bg-background/50"
+                      disabled={isLoading}
+                    />
+                    <Select
+                      value={memberRole}
+                      onValueChange={(value) => setMemberRole(value as WorkspaceRole)}
+                      disabled={isLoading}
+                    >
+                      <SelectTrigger className="bg-background/50 md:w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button type="submit" disabled={isLoading || !memberEmail}>
+                      Add Member
+                    </Button>
+                  </form>
+                )}
+
+                <div className="space-y-2 pt-4 border-t border-border/50">
+                  {members.map(member => (
+                    <div key={member.user_id} className="flex items-center justify-between gap-2 p-3 rounded-md bg-background/50">
+                      <span className="truncate">
+                        {member.email ?? member.user_id}
+                        {member.user_id === session?.user.id && (
+                          <span className="text-muted-foreground"> (you)</span>
+                        )}
+                      </span>
+                      {isAdmin ? (
+                        <div className="flex items-center gap-2">
+                          <Select
+                            value={member.role}
+                            onValueChange={(value) => handleChangeRole(member, value as WorkspaceRole)}
+                            disabled={isLoading}
+                          >
+                            <SelectTrigger className="bg-background/50 w-32">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                                <SelectItem key={value} value={value}>{label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleRemoveMember(member)}
+                            disabled={isLoading}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <Badge variant="outline">{ROLE_LABELS[member.role as WorkspaceRole] ?? member.role}</Badge>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </Card>
+
+              {current && isAdmin && (
+                <Card className="p-6 space-y-4 bg-secondary/50 backdrop-blur-sm">
+                  <div className="flex items-center gap-2">
+                    <Webhook className="h-5 w-5 text-primary" />
+                    <h2 className="text-xl font-semibold">Repository Webhooks</h2>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Sync rules that run on push are started by GitHub and GitLab push webhooks. Point them at the
+                    repository-webhooks function with <code>?workspace={current.id}</code> and this secret.
+                  </p>
+                  <div className="flex flex-col gap-2 md:flex-row">
+                    <Input
+                      readOnly
+                      placeholder="No webhook secret yet"
+                      value={webhookSecret ?? ""}
+                      className="bg-background/50 font-mono"
+                    />
+                    <Button onClick={handleRotateWebhookSecret} disabled={isLoading}>
+                      {webhookSecret ? "Rotate Secret" : "Create Secret"}
+                    </Button>
+                  </div>
+                </Card>
+              )}
+
+              <Card className="p-6 space-y-4 bg-secondary/50 backdrop-blur-sm">
+                <h2 className="text-xl font-semibold">New Workspace</h2>
+                <form onSubmit={handleCreateWorkspace} className="flex flex-col gap-2 md:flex-row">
+                  <Input
+                    placeholder="e.g., Platform team"
+                    value={workspaceName}
+                    onChange={(e) => setWorkspaceName(e.target.value)}
+                    className="bg-background/50"
+                    disabled={isLoading}
+                  />
+                  <Button type="submit" disabled={isLoading}>
+                    Create Workspace
+                  </Button>
+                </form>
+              </Card>
+            </div>
+          </div>
+        </main>
+      </div>
+    </SidebarProvider>
+  );
+};
+
+export default Workspaces;
@@ -0,0 +1,109 @@
+// Five-field cron schedules (minute, hour, day of month, month, day of week)
+// for sync rules, always read in UTC. git-operations decides with them which
+// rules are due and the web app checks schedules as they are typed, so like
+// operations.ts this file must not import anything.
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  // 0 is Sunday; 7 is accepted and read as Sunday too
+  daysOfWeek: Set<number>;
+  // As in cron, when both day fields are restricted a day matching either
+  // one is run
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const FIELD_RANGES = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+const MINUTE_MS = 60 * 1000;
+
+// Schedules are searched this far ahead before giving up, e.g. for 30 February
+const SEARCH_DAYS = 366 * 4;
+
+// Parses one field: `*`, numbers, ranges (`1-5`) and steps (`*/15`, `0-30/10`),
+// separated by commas
+const parseField = (text: string, min: number, max: number): Set<number> | null => {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText, ...rest] = part.split('/');
+    if (rest.length > 0) return null;
+
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) return null;
+
+    let start = min;
+    let end = max;
+    if (range !== '*') {
+      const [startText, endText, ...extra] = range.split('-');
+      if (extra.length > 0 || startText === '') return null;
+      start = Number(startText);
+      // `5/10` runs from 5 to the end of the range
+      end = endText !== undefined ? Number(endText) : stepText !== undefined ? max : start;
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) return null;
+
+    for (let value = start; value <= end; value += step) values.add(value);
+  }
+
+  return values;
+};
+
+// Returns null for anything that is not a valid five-field expression
+export const parseCron = (expression: string): CronSchedule | null => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) return null;
+
+  const sets = fields.map((field, index) => parseField(field, FIELD_RANGES[index][0], FIELD_RANGES[index][1]));
+  if (sets.some(set => set === null)) return null;
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = sets as Set<number>[];
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2].startsWith('*'),
+    anyDayOfWeek: fields[4].startsWith('*')
+  };
+};
+
+const matchesDay = (schedule: CronSchedule, date: Date) => {
+  if (!schedule.months.has(date.getUTCMonth() + 1)) return false;
+
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+
+  if (schedule.anyDayOfMonth && schedule.anyDayOfWeek) return true;
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+};
+
+// The first minute strictly after `after` the schedule runs at, or null when
+// it never does
+export const nextCronRun = (schedule: CronSchedule, after: Date): Date | null => {
+  const next = new Date(Math.floor(after.getTime() / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const limit = after.getTime() + SEARCH_DAYS * 24 * 60 * MINUTE_MS;
+
+  while (next.getTime() <= limit) {
+    if (!matchesDay(schedule, next)) {
+      next.setUTCHours(24, 0, 0, 0);
+    } else if (!schedule.hours.has(next.getUTCHours())) {
+      next.setUTCHours(next.getUTCHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(next.getUTCMinutes())) {
+      next.setTime(next.getTime() + MINUTE_MS);
+    } else {
+      return next;
+    }
+  }
+
+  return null;
+};
@@ -0,0 +1,677 @@
+// Request and response contract of the git-operations function. The function
+// (Deno) and the web app (Vite) both import this file, so it must not import
+// anything itself.
+
+// Bumped on breaking changes; requests for another version are rejected
+export const OPERATIONS_CONTRACT_VERSION = 1;
+
+export const PUSH_TYPES = ['regular', 'force', 'force-with-lease', 'pull-request'] as const;
+export type PushType = typeof PUSH_TYPES[number];
+
+export const MERGE_STRATEGIES = ['merge', 'squash', 'rebase'] as const;
+export type MergeStrategy = typeof MERGE_STRATEGIES[number];
+
+// Tokens work for the provider API and git; deploy tokens only for git;
+// GitHub Apps authenticate through installation tokens
+export const CREDENTIAL_KINDS = ['token', 'deploy_token', 'github_app'] as const;
+export type CredentialKind = typeof CREDENTIAL_KINDS[number];
+
+// Ordered from least to most privileged. Viewers only read, operators run
+// operations on non-master repositories, admins also act on the master.
+export const WORKSPACE_ROLES = ['viewer', 'operator', 'admin'] as const;
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+// Protection rules git-operations enforces before pushing or merging into a
+// repository; see the protection_rules table
+export type ProtectionRuleName = 'block_force_push' | 'require_preview' | 'require_approval' | 'allowed_windows';
+
+// Days are 0 (Sunday) to 6; times are HH:MM in the rules' time zone. A
+// window whose end is before its start runs past midnight.
+export interface AllowedWindow {
+  days: number[];
+  start: string;
+  end: string;
+}
+
+interface BranchSelection {
+  sourceRepoId: string;
+  targetRepoId: string;
+  // Default branches are used when omitted
+  sourceBranch?: string;
+  targetBranch?: string;
+}
+
+export interface GetLastCommitRequest {
+  type: 'getLastCommit';
+  sourceRepoId: string;
+}
+
+export interface ListBranchesRequest {
+  type: 'listBranches';
+  sourceRepoId: string;
+}
+
+export interface CompareRequest extends BranchSelection {
+  type: 'compare';
+}
+
+export interface PushRequest extends BranchSelection {
+  type: 'push';
+  pushType: PushType;
+  // Target branch head the user last saw, checked by force-with-lease
+  expectedTargetSha?: string;
+  // Extra `src:dst` refspecs mirrored along with the branch
+  refspecs?: string[];
+  // The compare result the push was previewed with
+  previewId?: string;
+}
+
+export interface MergeRequest extends BranchSelection {
+  type: 'merge';
+  mergeStrategy: MergeStrategy;
+  commitMessage?: string;
+  // The compare result the merge was previewed with
+  previewId?: string;
+}
+
+export interface SyncTagsRequest {
+  type: 'syncTags';
+  sourceRepoId: string;
+  targetRepoId: string;
+  // Only these tags are synced when given
+  tags?: string[];
+  includeReleases?: boolean;
+}
+
+export interface RefreshPullRequestsRequest {
+  type: 'refreshPullRequests';
+  // Limits the refresh to pull requests into this repository
+  targetRepoId?: string;
+}
+
+export interface CreateCredentialRequest {
+  type: 'createCredential';
+  name: string;
+  kind: CredentialKind;
+  host: string;
+  // Shares the credential with every repository of this owner on the host
+  owner?: string;
+  // Defaults to the provider's token username
+  username?: string;
+  // Required for GitHub Apps, whose secret is the private key
+  appId?: string;
+  secret: string;
+}
+
+export interface DeleteCredentialRequest {
+  type: 'deleteCredential';
+  credentialId: string;
+}
+
+// Asks for a second member to approve pushing what the preview showed; the
+// repositories and branches are the preview's. Pushes into the master
+// repository, or into repositories whose rules require approval, only run
+// through approved requests.
+export interface RequestPushRequest {
+  type: 'requestPush';
+  previewId: string;
+  pushType: Exclude<PushType, 'pull-request'>;
+}
+
+export interface ReviewPushRequest {
+  type: 'reviewPush';
+  pushRequestId: string;
+  approve: boolean;
+  comment?: string;
+}
+
+// Runs an approved request. Fails when the source branch has moved since
+// the preview it was approved with.
+export interface ExecutePushRequest {
+  type: 'executePush';
+  pushRequestId: string;
+}
+
+// Makes the repository its workspace's master, unflagging the previous one
+export interface SetMasterRequest {
+  type: 'setMaster';
+  targetRepoId: string;
+}
+
+// Repositories one pushBatch or getLastCommits request may name. Longer
+// lists are split into several requests.
+export const MAX_BATCH_TARGETS = 50;
+
+// Pushes one source branch into the default branch of each target. Every
+// target is pushed on its own, so one failing does not stop the others.
+export interface PushBatchRequest {
+  type: 'pushBatch';
+  sourceRepoId: string;
+  targetRepoIds: string[];
+  pushType: PushType;
+  sourceBranch?: string;
+  refspecs?: string[];
+}
+
+// Compares the default branch of every other repository in the workspace
+// with the master's default branch
+export interface CompareWithMasterRequest {
+  type: 'compareWithMaster';
+  workspaceId: string;
+}
+
+// Lists one page of a GitHub organization's or user's repositories for
+// importing into the workspace. Archived repositories and forks are left
+// out unless asked for.
+export interface ListOwnerReposRequest {
+  type: 'listOwnerRepos';
+  workspaceId: string;
+  owner: string;
+  // github.com when omitted; GitHub Enterprise Server hosts otherwise
+  host?: string;
+  // Starts at 1
+  page?: number;
+  includeArchived?: boolean;
+  includeForks?: boolean;
+}
+
+// Runs getLastCommit for several repositories at once
+export interface GetLastCommitsRequest {
+  type: 'getLastCommits';
+  sourceRepoIds: string[];
+}
+
+// Runs the sync rules that are due. Only the scheduler may call it; it
+// authenticates with the schedule secret instead of a user session.
+export interface RunSyncRulesRequest {
+  type: 'runSyncRules';
+}
+
+// Operations that can run as background jobs
+export const JOB_OPERATION_TYPES = ['push', 'merge', 'syncTags'] as const;
+export type JobOperation = PushRequest | MergeRequest | SyncTagsRequest;
+
+// Queues the operation and answers at once. The job row in operation_jobs
+// reports its progress and result, and members follow it over Realtime.
+export interface EnqueueJobRequest {
+  type: 'enqueueJob';
+  operation: JobOperation;
+}
+
+// Queued jobs are cancelled at once; running jobs stop before their next
+// step, unless they are already changing the target
+export interface CancelJobRequest {
+  type: 'cancelJob';
+  jobId: string;
+}
+
+export type OperationRequest =
+  | GetLastCommitRequest
+  | ListBranchesRequest
+  | CompareRequest
+  | PushRequest
+  | MergeRequest
+  | SyncTagsRequest
+  | RefreshPullRequestsRequest
+  | CreateCredentialRequest
+  | DeleteCredentialRequest
+  | SetMasterRequest
+  | RequestPushRequest
+  | ReviewPushRequest
+  | ExecutePushRequest
+  | RunSyncRulesRequest
+  | PushBatchRequest
+  | CompareWithMasterRequest
+  | ListOwnerReposRequest
+  | GetLastCommitsRequest
+  | EnqueueJobRequest
+  | CancelJobRequest;
+
+export type OperationType = OperationRequest['type'];
+
+export interface CommitSummary {
+  sha: string;
+  message: string;
+  author?: string;
+  date?: string;
+}
+
+export interface FileChangeSummary {
+  filename: string;
+  status: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface BranchSummary {
+  name: string;
+  sha: string;
+  protected?: boolean;
+}
+
+export interface PullRequestSummary {
+  number: number;
+  url: string;
+  title: string;
+  state: 'open' | 'closed' | 'merged';
+  reviewStatus: 'approved' | 'changes_requested' | 'pending';
+  checkStatus: 'success' | 'failure' | 'pending' | 'none';
+  headBranch: string;
+}
+
+export interface GetLastCommitResponse {
+  success: true;
+  commit: CommitSummary;
+}
+
+export interface ListBranchesResponse {
+  success: true;
+  defaultBranch: string;
+  branches: BranchSummary[];
+}
+
+export interface CompareResponse {
+  success: true;
+  sourceBranch: string;
+  targetBranch: string;
+  sourceSha: string;
+  targetSha: string;
+  mergeBaseSha: string;
+  aheadBy: number;
+  behindBy: number;
+  mergeStatus: 'identical' | 'fast-forward' | 'behind' | 'merge' | 'conflicting';
+  conflictingFiles: string[];
+  commits: CommitSummary[];
+  files: FileChangeSummary[];
+  htmlUrl?: string;
+  // Passed with the push or merge into repositories that require a preview;
+  // null when the preview could not be recorded
+  previewId: string | null;
+}
+
+export interface PushResponse {
+  success: true;
+  message: string;
+  ref?: { sha: string };
+  mirrored?: { source: string; target: string; sha: string; previousSha: string | null }[] | null;
+  // Only set for the pull-request push type
+  pullRequest?: PullRequestSummary;
+}
+
+export interface MergeResponse {
+  success: true;
+  message: string;
+  sha: string;
+}
+
+export interface SyncTagsResponse {
+  success: true;
+  created: string[];
+  skipped: string[];
+  conflicting: { tag: string; sourceSha: string; targetSha: string }[];
+  releases?: {
+    created: string[];
+    skipped: string[];
+    failed: { tag: string; error: string }[];
+  };
+}
+
+export interface RefreshPullRequestsResponse {
+  success: true;
+  refreshed: number;
+  failed: { id: string; code: ErrorCode; error: string }[];
+}
+
+// A credential without its secret
+export interface CredentialSummary {
+  id: string;
+  name: string;
+  kind: CredentialKind;
+  host: string;
+  owner: string | null;
+  username: string | null;
+  app_id: string | null;
+}
+
+export interface CreateCredentialResponse {
+  success: true;
+  credential: CredentialSummary;
+}
+
+export interface DeleteCredentialResponse {
+  success: true;
+}
+
+export interface SetMasterResponse {
+  success: true;
+}
+
+export const PUSH_REQUEST_STATUSES = ['pending', 'approved', 'rejected', 'executing', 'executed', 'failed'] as const;
+export type PushRequestStatus = typeof PUSH_REQUEST_STATUSES[number];
+
+export interface RequestPushResponse {
+  success: true;
+  pushRequestId: string;
+}
+
+export interface ReviewPushResponse {
+  success: true;
+  status: PushRequestStatus;
+}
+
+export interface SyncRuleResult {
+  ruleId: string;
+  status: 'succeeded' | 'failed';
+  code?: ErrorCode;
+  error?: string;
+}
+
+export interface RunSyncRulesResponse {
+  success: true;
+  results: SyncRuleResult[];
+}
+
+export interface PushBatchResult {
+  targetRepoId: string;
+  status: 'succeeded' | 'failed';
+  // Set when the push succeeded
+  sha?: string;
+  pullRequest?: PullRequestSummary;
+  // Set when the push failed
+  code?: ErrorCode;
+  error?: string;
+}
+
+export interface PushBatchResponse {
+  success: true;
+  results: PushBatchResult[];
+}
+
+// In sync repositories match the master. Stale ones only lack its newer
+// commits; diverged ones have commits of their own.
+export const DRIFT_STATUSES = ['in-sync', 'stale', 'diverged'] as const;
+export type DriftStatus = typeof DRIFT_STATUSES[number];
+
+export interface DriftResult {
+  repositoryId: string;
+  status: DriftStatus | 'failed';
+  // Set unless the comparison failed
+  branch?: string;
+  aheadBy?: number;
+  behindBy?: number;
+  // Last commit the repository shares with the master
+  mergeBaseSha?: string;
+  mergeBaseDate?: string | null;
+  // Set when the comparison failed
+  code?: ErrorCode;
+  error?: string;
+}
+
+export interface CompareWithMasterResponse {
+  success: true;
+  masterRepoId: string;
+  masterBranch: string;
+  masterSha: string;
+  results: DriftResult[];
+}
+
+export interface OwnerRepoSummary {
+  name: string;
+  // HTTPS clone URL, as stored in repositories.url
+  url: string;
+  htmlUrl: string;
+  description: string | null;
+  defaultBranch: string;
+  private: boolean;
+  archived: boolean;
+  fork: boolean;
+  pushedAt: string | null;
+}
+
+export interface ListOwnerReposResponse {
+  success: true;
+  repositories: OwnerRepoSummary[];
+  // Null on the last page
+  nextPage: number | null;
+}
+
+export interface LastCommitResult {
+  repositoryId: string;
+  status: 'succeeded' | 'failed';
+  commit?: CommitSummary;
+  code?: ErrorCode;
+  error?: string;
+}
+
+export interface GetLastCommitsResponse {
+  success: true;
+  results: LastCommitResult[];
+}
+
+export const JOB_STATUSES = ['queued', 'running', 'succeeded', 'failed', 'cancelled'] as const;
+export type JobStatus = typeof JOB_STATUSES[number];
+
+// One entry per step a job has started; a step ends when the next starts
+export interface JobStep {
+  name: string;
+  startedAt: string;
+}
+
+export interface EnqueueJobResponse {
+  success: true;
+  jobId: string;
+}
+
+export interface CancelJobResponse {
+  success: true;
+  status: JobStatus;
+}
+
+export interface OperationResponses {
+  getLastCommit: GetLastCommitResponse;
+  listBranches: ListBranchesResponse;
+  compare: CompareResponse;
+  push: PushResponse;
+  merge: MergeResponse;
+  syncTags: SyncTagsResponse;
+  refreshPullRequests: RefreshPullRequestsResponse;
+  createCredential: CreateCredentialResponse;
+  deleteCredential: DeleteCredentialResponse;
+  setMaster: SetMasterResponse;
+  requestPush: RequestPushResponse;
+  reviewPush: ReviewPushResponse;
+  executePush: PushResponse;
+  runSyncRules: RunSyncRulesResponse;
+  pushBatch: PushBatchResponse;
+  compareWithMaster: CompareWithMasterResponse;
+  listOwnerRepos: ListOwnerReposResponse;
+  getLastCommits: GetLastCommitsResponse;
+  enqueueJob: EnqueueJobResponse;
+  cancelJob: CancelJobResponse;
+}
+
+// Error codes returned with every failure. Each maps to one HTTP status.
+export type ErrorCode =
+  | 'invalid_request'
+  | 'invalid_url'
+  | 'unauthenticated'
+  | 'forbidden'
+  | 'not_found'
+  | 'auth_failed'
+  | 'rate_limited'
+  | 'merge_conflict'
+  | 'protected_branch'
+  | 'lease_mismatch'
+  | 'rule_violation'
+  | 'non_fast_forward'
+  | 'unsupported'
+  | 'not_configured'
+  | 'cancelled'
+  | 'internal';
+
+export interface OperationErrorBody {
+  success: false;
+  code: ErrorCode;
+  error: string;
+  details?: {
+    resetAt?: string | null;
+    conflictingFiles?: string[];
+    expectedSha?: string | null;
+    actualSha?: string | null;
+    requiredRole?: WorkspaceRole;
+    rule?: ProtectionRuleName;
+    host?: string;
+  } | null;
+}
+
+// `operation` fields hold a whole request of one of the `oneOf` types,
+// validated like a top-level request
+interface FieldRule {
+  kind: 'string' | 'number' | 'boolean' | 'string[]' | 'operation';
+  required?: boolean;
+  oneOf?: readonly string[];
+}
+
+const requiredId: FieldRule = { kind: 'string', required: true };
+const optionalString: FieldRule = { kind: 'string' };
+
+const branchSelectionFields = {
+  sourceRepoId: requiredId,
+  targetRepoId: requiredId,
+  sourceBranch: optionalString,
+  targetBranch: optionalString
+};
+
+const OPERATION_FIELDS: Record<OperationType, Record<string, FieldRule>> = {
+  getLastCommit: { sourceRepoId: requiredId },
+  listBranches: { sourceRepoId: requiredId },
+  compare: branchSelectionFields,
+  push: {
+    ...branchSelectionFields,
+    pushType: { kind: 'string', required: true, oneOf: PUSH_TYPES },
+    expectedTargetSha: optionalString,
+    refspecs: { kind: 'string[]' },
+    previewId: optionalString
+  },
+  merge: {
+    ...branchSelectionFields,
+    mergeStrategy: { kind: 'string', required: true, oneOf: MERGE_STRATEGIES },
+    commitMessage: optionalString,
+    previewId: optionalString
+  },
+  syncTags: {
+    sourceRepoId: requiredId,
+    targetRepoId: requiredId,
+    tags: { kind: 'string[]' },
+    includeReleases: { kind: 'boolean' }
+  },
+  refreshPullRequests: { targetRepoId: optionalString },
+  createCredential: {
+    name: { kind: 'string', required: true },
+    kind: { kind: 'string', required: true, oneOf: CREDENTIAL_KINDS },
+    host: { kind: 'string', required: true },
+    owner: optionalString,
+    username: optionalString,
+    appId: optionalString,
+    secret: { kind: 'string', required: true }
+  },
+  deleteCredential: { credentialId: requiredId },
+  setMaster: { targetRepoId: requiredId },
+  requestPush: {
+    previewId: requiredId,
+    pushType: { kind: 'string', required: true, oneOf: PUSH_TYPES.filter(pushType => pushType !== 'pull-request') }
+  },
+  reviewPush: {
+    pushRequestId: requiredId,
+    approve: { kind: 'boolean', required: true },
+    comment: optionalString
+  },
+  executePush: { pushRequestId: requiredId },
+  runSyncRules: {},
+  pushBatch: {
+    sourceRepoId: requiredId,
+    targetRepoIds: { kind: 'string[]', required: true },
+    pushType: { kind: 'string', required: true, oneOf: PUSH_TYPES },
+    sourceBranch: optionalString,
+    refspecs: { kind: 'string[]' }
+  },
+  compareWithMaster: { workspaceId: requiredId },
+  listOwnerRepos: {
+    workspaceId: requiredId,
+    owner: { kind: 'string', required: true },
+    host: optionalString,
+    page: { kind: 'number' },
+    includeArchived: { kind: 'boolean' },
+    includeForks: { kind: 'boolean' }
+  },
+  getLastCommits: { sourceRepoIds: { kind: 'string[]', required: true } },
+  enqueueJob: { operation: { kind: 'operation', required: true, oneOf: JOB_OPERATION_TYPES } },
+  cancelJob: { jobId: requiredId }
+};
+
+const matchesKind = (value: unknown, kind: FieldRule['kind']) => {
+  if (kind === 'string[]') return Array.isArray(value) && value.every(item => typeof item === 'string');
+  if (kind === 'operation') return !!value && typeof value === 'object' && !Array.isArray(value);
+  return typeof value === kind;
+};
+
+const KIND_NAMES: Record<FieldRule['kind'], string> = {
+  string: 'a string',
+  number: 'a number',
+  boolean: 'a boolean',
+  'string[]': 'a list of strings',
+  operation: 'an operation'
+};
+
+export type ValidationResult =
+  | { request: OperationRequest; error?: undefined }
+  | { request?: undefined; error: string };
+
+// Checks a parsed request body against the contract. Unknown operations and
+// unknown fields are rejected so client and function cannot drift silently.
+export const validateOperationRequest = (body: unknown): ValidationResult => {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Request body must be a JSON object' };
+  }
+
+  const { type, version, ...fields } = body as Record<string, unknown>;
+
+  if (version !== undefined && version !== OPERATIONS_CONTRACT_VERSION) {
+    return { error: `Unsupported contract version ${version}; expected ${OPERATIONS_CONTRACT_VERSION}` };
+  }
+  if (typeof type !== 'string' || !Object.prototype.hasOwnProperty.call(OPERATION_FIELDS, type)) {
+    return { error: `Unknown operation: ${String(type)}` };
+  }
+
+  const rules = OPERATION_FIELDS[type as OperationType];
+
+  for (const name of Object.keys(fields)) {
+    if (!rules[name]) return { error: `Unexpected field for ${type}: ${name}` };
+  }
+
+  for (const [name, rule] of Object.entries(rules)) {
+    const value = fields[name];
+    if (value === undefined || value === null) {
+      if (rule.required) return { error: `Missing required field for ${type}: ${name}` };
+      continue;
+    }
+    if (!matchesKind(value, rule.kind) || (rule.kind === 'string' && rule.required && value === '')) {
+      return { error: `Field ${name} must be ${KIND_NAMES[rule.kind]}` };
+    }
+    if (rule.kind === 'operation') {
+      const nested = value as Record<string, unknown>;
+      if (rule.oneOf && !rule.oneOf.includes(nested.type as string)) {
+        return { error: `Field ${name} must be one of these operations: ${rule.oneOf.join(', ')}` };
+      }
+      const { request, error } = validateOperationRequest(nested);
+      if (error) return { error: `In ${name}: ${error}` };
+      fields[name] = request;
+      continue;
+    }
+    if (rule.oneOf && !rule.oneOf.includes(value as string)) {
+      return { error: `Field ${name} must be one of: ${rule.oneOf.join(', ')}` };
+    }
+  }
+
+  return { request: { type, ...fields } as OperationRequest };
+};
@@ -0,0 +1,24 @@
+// Pushes to this many targets at a time. Providers throttle clients that
+// write to many repositories at once, so batches are kept small.
+export const BATCH_CONCURRENCY = 4;
+
+// Calls `run` for every item, at most `limit` at a time, and returns the
+// results in the order of `items`. `run` is expected not to throw.
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  run: (item: T) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await run(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
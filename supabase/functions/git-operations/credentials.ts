@@ -0,0 +1,107 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { OperationError } from './errors.ts'
+import { requireEnv } from './providers/index.ts'
+import type { CredentialKind, ProviderCredential, RepoLocation } from './providers/types.ts'
+
+// Secrets are encrypted with AES-GCM under CREDENTIALS_ENCRYPTION_KEY (32
+// random bytes, base64). The stored value is base64 of IV followed by the
+// ciphertext.
+const IV_LENGTH = 12;
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (text: string) => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const importKey = () => crypto.subtle.importKey(
+  'raw',
+  fromBase64(requireEnv('CREDENTIALS_ENCRYPTION_KEY')),
+  'AES-GCM',
+  false,
+  ['encrypt', 'decrypt']
+);
+
+export const encryptSecret = async (secret: string) => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, await importKey(), new TextEncoder().encode(secret));
+
+  const stored = new Uint8Array(IV_LENGTH + ciphertext.byteLength);
+  stored.set(iv);
+  stored.set(new Uint8Array(ciphertext), IV_LENGTH);
+  return toBase64(stored);
+};
+
+export const decryptSecret = async (stored: string) => {
+  const bytes = fromBase64(stored);
+  const key = await importKey();
+
+  try {
+    const plaintext = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: bytes.slice(0, IV_LENGTH) },
+      key,
+      bytes.slice(IV_LENGTH)
+    );
+    return new TextDecoder().decode(plaintext);
+  } catch {
+    throw new OperationError('not_configured', 'Stored credential could not be decrypted; check CREDENTIALS_ENCRYPTION_KEY');
+  }
+};
+
+interface CredentialRow {
+  kind: CredentialKind;
+  app_id: string | null;
+  owner: string | null;
+  username: string | null;
+  secret_ciphertext: string;
+}
+
+const CREDENTIAL_COLUMNS = 'kind, app_id, owner, username, secret_ciphertext';
+
+// Owners a shared credential may be registered for, most specific first:
+// `group/subgroup` is covered by credentials for itself and for `group`
+const ownerScopes = (owner: string) => owner
+  .split('/')
+  .map((_, index, segments) => segments.slice(0, segments.length - index).join('/'));
+
+// Picks the repository's own credential, otherwise the closest shared one for
+// its owner on the same host. Only credentials of the repository's user count. Returns null when the environment secrets apply.
+export const loadCredential = async (
+  supabaseClient: SupabaseClient,
+  repo: { credential_id?: string | null; user_id?: string | null },
+  location: RepoLocation
+): Promise<ProviderCredential | null> => {
+  let row: CredentialRow | null = null;
+
+  if (repo.credential_id) {
+    const { data, error } = await supabaseClient
+      .from('credentials')
+      .select(CREDENTIAL_COLUMNS)
+      .eq('id', repo.credential_id)
+      .eq('user_id', repo.user_id)
+      .single();
+
+    // .single() reports a missing row as PGRST116
+    if (error && error.code !== 'PGRST116') throw error;
+    if (!data) throw new OperationError('not_found', 'Repository credential not found');
+    row = data;
+  } else {
+    const scopes = ownerScopes(location.owner);
+    const { data, error } = await supabaseClient
+      .from('credentials')
+      .select(CREDENTIAL_COLUMNS)
+      .eq('host', location.host)
+      .eq('user_id', repo.user_id)
+      .in('owner', scopes);
+
+    if (error) throw error;
+    row = (data as CredentialRow[])
+      .sort((a, b) => scopes.indexOf(a.owner) - scopes.indexOf(b.owner))[0] ?? null;
+  }
+
+  if (!row) return null;
+
+  return {
+    kind: row.kind,
+    appId: row.app_id,
+    username: row.username,
+    secret: await decryptSecret(row.secret_ciphertext)
+  };
+};
@@ -0,0 +1,83 @@
+import type { ErrorCode } from '../_shared/operations.ts'
+
+export type { ErrorCode }
+
+// Each code maps to one HTTP status so callers can branch on either
+const STATUS_BY_CODE: Record<ErrorCode, number> = {
+  invalid_request: 400,
+  invalid_url: 400,
+  unauthenticated: 401,
+  forbidden: 403,
+  not_found: 404,
+  auth_failed: 401,
+  rate_limited: 429,
+  merge_conflict: 409,
+  protected_branch: 403,
+  lease_mismatch: 409,
+  rule_violation: 403,
+  non_fast_forward: 409,
+  unsupported: 422,
+  not_configured: 503,
+  cancelled: 409,
+  internal: 500
+};
+
+export class OperationError extends Error {
+  code: ErrorCode;
+  status: number;
+  details: Record<string, unknown> | null;
+
+  constructor(code: ErrorCode, message: string, details: Record<string, unknown> | null = null) {
+    super(message);
+    this.name = 'OperationError';
+    this.code = code;
+    this.status = STATUS_BY_CODE[code];
+    this.details = details;
+  }
+}
+
+// Reads the rate limit reset time from GitHub (x-ratelimit-reset), GitLab
+// (ratelimit-reset) or any Retry-After header
+const getRateLimitReset = (headers: Record<string, string> = {}) => {
+  const reset = headers['x-ratelimit-reset'] ?? headers['ratelimit-reset'];
+  if (reset) return new Date(Number(reset) * 1000).toISOString();
+
+  const retryAfter = headers['retry-after'];
+  if (retryAfter) return new Date(Date.now() + Number(retryAfter) * 1000).toISOString();
+
+  return null;
+};
+
+const PROTECTED_BRANCH_PATTERN = /protected branch|default branch|branch is protected/i;
+
+// Classifies anything thrown while handling a request: our own errors pass
+// through, provider HTTP errors (Octokit or ProviderRequestError) and
+// isomorphic-git HTTP errors are mapped by status and message
+export const toOperationError = (error): OperationError => {
+  if (error instanceof OperationError) return error;
+
+  const message: string = error?.message ?? String(error);
+  const status: number | undefined = error?.status ?? error?.data?.statusCode;
+  const headers = error?.response?.headers ?? {};
+
+  if (PROTECTED_BRANCH_PATTERN.test(message)) {
+    return new OperationError('protected_branch', message);
+  }
+  if (status === 429 || (status === 403 && (headers['x-ratelimit-remaining'] === '0' || /rate limit/i.test(message)))) {
+    return new OperationError('rate_limited', message, { resetAt: getRateLimitReset(headers) });
+  }
+  if (status === 401 || status === 403) {
+    return new OperationError('auth_failed', message);
+  }
+  if (status === 404) {
+    return new OperationError('not_found', message);
+  }
+  if (status === 409 && /merge conflict/i.test(message)) {
+    return new OperationError('merge_conflict', message);
+  }
+  if (/not a fast forward/i.test(message)) {
+    return new OperationError('non_fast_forward', message);
+  }
+
+  return new OperationError('internal', message, error?.response?.data ? { provider: error.response.data } : null);
+};
@@ -0,0 +1,1470 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { parseRepoUrl, usesEnvironmentToken, type GitProvider, type ProviderCredential, type RepoLocation } from './providers/index.ts'
+import { checkMerge, compareRemotes, deleteRemoteRef, mirrorRefs, parseRefspec, toFullRef, type GitRemote } from './mirror.ts'
+import { syncTags } from './tags.ts'
+import { openPullRequest } from './pull-requests.ts'
+import { OperationError, toOperationError } from './errors.ts'
+import { encryptSecret, loadCredential } from './credentials.ts'
+import { getEnvironmentGitHubApp, resolveGitHubAppCredential } from './providers/github-app.ts'
+import { enforceProtectionRules, enforceTagSyncRules, loadPreview, loadProtectionRules } from './protection.ts'
+import { claimPushRequest, finishPushRequest, loadPushRequest, toPushOperation, type PushRequestRow } from './push-requests.ts'
+import { createJob, createJobProgress, loadJob, noProgress, startJob, updateJob, type ProgressReporter } from './jobs.ts'
+import { BATCH_CONCURRENCY, mapWithConcurrency } from './batch.ts'
+import { claimSyncRule, finishSyncRule, loadDueSyncRules, toRulePushOperation, type SyncRuleRow } from './sync-rules.ts'
+import {
+  validateOperationRequest,
+  MAX_BATCH_TARGETS,
+  WORKSPACE_ROLES,
+  type JobOperation,
+  type OperationRequest,
+  type DriftResult,
+  type LastCommitResult,
+  type PushBatchResult,
+  type SyncRuleResult,
+  type WorkspaceRole
+} from '../_shared/operations.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Everything the handler talks to. index.ts passes the real clients; tests
+// pass an in-memory database and providers pointed at a mock API server.
+export interface HandlerDependencies {
+  supabaseClient: SupabaseClient;
+  createProvider: (location: RepoLocation, credential?: ProviderCredential | null) => GitProvider;
+  getGitRemote: (location: RepoLocation, credential?: ProviderCredential | null) => GitRemote;
+  // Shared with the scheduler that runs sync rules; unset disables them
+  scheduleSecret?: string;
+  // Keeps the function alive for work that outlasts the response, such as
+  // queued jobs. Without it the work is started and not waited for.
+  runInBackground?: (start: () => Promise<void>) => void;
+}
+
+// Parses a repository row's URL and creates the API client and git remote
+// for it, authenticated with the repository's credential when it has one
+const resolveRepository = async (
+  repo: { url: string; provider?: string | null; credential_id?: string | null; user_id?: string | null },
+  deps: HandlerDependencies
+) => {
+  const parsed = parseRepoUrl(repo.url, repo.provider);
+  if (!parsed) throw new OperationError('invalid_url', `Invalid repository URL format: ${repo.url}`);
+
+  return connect(parsed, repo, deps);
+};
+
+// Creates the API client and git remote for a location. Without a
+// credential of their own, locations use the owner's shared one.
+const connect = async (
+  parsed: RepoLocation,
+  repo: { credential_id?: string | null; user_id?: string | null },
+  { supabaseClient, createProvider, getGitRemote }: HandlerDependencies
+) => {
+  let credential = await loadCredential(supabaseClient, repo, parsed) ?? getEnvironmentGitHubApp(parsed);
+
+  // Apps act through short-lived installation tokens
+  if (credential?.kind === 'github_app') {
+    credential = await resolveGitHubAppCredential(credential, parsed);
+  }
+
+  // Deploy tokens only grant git access, so such repositories are handled
+  // as plain git remotes
+  const location: RepoLocation = credential?.kind === 'deploy_token' ? { ...parsed, provider: 'git' } : parsed;
+
+  return {
+    location,
+    provider: createProvider(location, credential),
+    remote: getGitRemote(location, credential)
+  };
+};
+
+// Provider APIs can only point refs at, and compare against, commits the
+// target host already has. Across hosts and for plain git remotes the
+// objects are transferred over git instead.
+const needsGitTransport = (source: RepoLocation, target: RepoLocation) =>
+  source.provider === 'git' ||
+  target.provider === 'git' ||
+  source.provider !== target.provider ||
+  source.host !== target.host;
+
+interface Caller {
+  id: string;
+  // Recorded as the initiator of operations
+  label: string;
+  // The caller's role in each workspace they belong to
+  roles: Map<string, WorkspaceRole>;
+}
+
+// Resolves the signed-in user from the caller's JWT along with their
+// workspace roles. Operations always act for a user, so requests without a
+// valid session are refused.
+const authenticate = async (supabaseClient, req: Request): Promise<Caller> => {
+  const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+  const { data, error } = token
+    ? await supabaseClient.auth.getUser(token)
+    : { data: null, error: null };
+
+  if (error || !data?.user) {
+    throw new OperationError('unauthenticated', 'Sign in to run git operations');
+  }
+
+  return loadCaller(supabaseClient, data.user.id, data.user.email ?? data.user.id);
+};
+
+const loadCaller = async (supabaseClient, userId: string, label: string): Promise<Caller> => {
+  const { data: memberships, error: membershipsError } = await supabaseClient
+    .from('workspace_members')
+    .select('workspace_id, role')
+    .eq('user_id', userId);
+
+  if (membershipsError) throw membershipsError;
+
+  return {
+    id: userId,
+    label,
+    roles: new Map(memberships.map(membership => [membership.workspace_id, membership.role]))
+  };
+};
+
+// The scheduler has no user session; it proves itself with the shared secret
+const authenticateScheduler = (req: Request, scheduleSecret?: string) => {
+  if (!scheduleSecret) {
+    throw new OperationError('not_configured', 'Sync rules are disabled: SYNC_SCHEDULE_SECRET is not set');
+  }
+  if (req.headers.get('x-schedule-secret') !== scheduleSecret) {
+    throw new OperationError('unauthenticated', 'Only the scheduler can run sync rules');
+  }
+};
+
+// Changing the master repository is reserved for admins
+const changeRole = (repo: { is_master?: boolean | null }): WorkspaceRole =>
+  repo.is_master ? 'admin' : 'operator';
+
+// The function uses the service role, which bypasses row level security, so
+// the caller's role is checked here for every repository it acts on
+const authorize = (repo: { workspace_id?: string | null }, caller: Caller, required: WorkspaceRole) => {
+  const role = repo.workspace_id ? caller.roles.get(repo.workspace_id) : undefined;
+
+  if (!role) {
+    throw new OperationError('forbidden', 'You do not have access to this repository');
+  }
+  if (WORKSPACE_ROLES.indexOf(role) < WORKSPACE_ROLES.indexOf(required)) {
+    throw new OperationError(
+      'forbidden',
+      `This needs the ${required} role in the repository's workspace; you are ${role === 'admin' ? 'an' : 'a'} ${role}`,
+      { requiredRole: required }
+    );
+  }
+};
+
+const loadRepository = async (supabaseClient, repoId: string) => {
+  const { data: repo, error: repoError } = await supabaseClient
+    .from('repositories')
+    .select('id, workspace_id, is_master')
+    .eq('id', repoId)
+    .single();
+
+  // .single() reports a missing row as PGRST116
+  if (repoError && repoError.code !== 'PGRST116') throw repoError;
+  if (!repo) throw new OperationError('not_found', 'Repository not found');
+  return repo;
+};
+
+const loadRepositoryPair = async (supabaseClient, caller: Caller, sourceRepoId: string, targetRepoId: string) => {
+  const { data: repos, error: reposError } = await supabaseClient
+    .from('repositories')
+    .select('*')
+    .in('id', [sourceRepoId, targetRepoId]);
+
+  if (reposError) throw reposError;
+
+  const sourceRepo = repos.find(r => r.id === sourceRepoId);
+  const targetRepo = repos.find(r => r.id === targetRepoId);
+
+  if (!sourceRepo || !targetRepo) {
+    throw new OperationError('not_found', 'Source or target repository not found');
+  }
+
+  authorize(sourceRepo, caller, 'viewer');
+  authorize(targetRepo, caller, 'viewer');
+
+  console.log('Processing repositories:', {
+    source: sourceRepo.url,
+    target: targetRepo.url
+  });
+
+  return { sourceRepo, targetRepo };
+};
+
+// Records the start of an operation in sync_operations. Failing to record
+// history must never fail the operation itself.
+const startOperation = async (supabaseClient, fields: Record<string, unknown>) => {
+  const { data, error } = await supabaseClient
+    .from('sync_operations')
+    .insert({ ...fields, status: 'running' })
+    .select('id')
+    .single();
+
+  if (error) {
+    console.error('Failed to record sync operation:', error);
+    return null;
+  }
+
+  return data.id as string;
+};
+
+const finishOperation = async (supabaseClient, operationId: string | null, fields: Record<string, unknown>) => {
+  if (!operationId) return;
+
+  const { error } = await supabaseClient
+    .from('sync_operations')
+    .update({ ...fields, completed_at: new Date().toISOString() })
+    .eq('id', operationId);
+
+  if (error) {
+    console.error('Failed to update sync operation:', error);
+  }
+};
+
+// Failures carry a stable `code` next to the message so clients can react
+// to the kind of error rather than parse its text
+const errorResponse = (error: OperationError) => new Response(
+  JSON.stringify({
+    success: false,
+    code: error.code,
+    error: error.message,
+    details: error.details
+  }),
+  {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status: error.status
+  }
+);
+
+const failureFields = (error: OperationError) => ({
+  error_message: error.message,
+  error_details: { code: error.code, ...error.details }
+});
+
+// Credential secrets are stored encrypted and never written to the logs
+const redactRequest = (request: OperationRequest) =>
+  'secret' in request ? { ...request, secret: '[redacted]' } : request;
+
+// Runs one operation for the caller and answers with its result, or with
+// the error it failed with. Long operations report their steps to
+// `progress`.
+const runOperation = async (
+  deps: HandlerDependencies,
+  validatedRequest: OperationRequest,
+  caller: Caller,
+  progress: ProgressReporter = noProgress
+) => {
+  const { supabaseClient } = deps;
+
+  let operationId: string | null = null;
+  let pushRequest: PushRequestRow | null = null;
+
+  try {
+    console.log('Received operation:', redactRequest(validatedRequest), 'from', caller.label);
+
+    // An approved push request runs as the push it describes. Any operator of
+    // the target's workspace may run it; the approval stands in for the
+    // admin role the master repository otherwise needs.
+    if (validatedRequest.type === 'executePush') {
+      const requested = await loadPushRequest(supabaseClient, validatedRequest.pushRequestId);
+      const targetRepo = await loadRepository(supabaseClient, requested.target_repository_id);
+      authorize(targetRepo, caller, 'operator');
+
+      pushRequest = await claimPushRequest(supabaseClient, requested);
+    }
+
+    const request = pushRequest ? toPushOperation(pushRequest) : validatedRequest;
+
+    if (request.type === 'getLastCommit' || request.type === 'push' || request.type === 'syncTags' || request.type === 'merge') {
+      operationId = await startOperation(supabaseClient, {
+        operation_type: request.type,
+        source_repository_id: request.sourceRepoId,
+        target_repository_id: request.type === 'getLastCommit' ? null : request.targetRepoId,
+        push_type: request.type === 'push' ? request.pushType : request.type === 'merge' ? request.mergeStrategy : null,
+        source_branch: 'sourceBranch' in request ? request.sourceBranch ?? null : null,
+        target_branch: 'targetBranch' in request ? request.targetBranch ?? null : null,
+        initiated_by: caller.label
+      });
+    }
+
+    if (request.type === 'getLastCommit') {
+      const { sourceRepoId } = request;
+      console.log('Getting last commit for repo:', sourceRepoId);
+      
+      const { data: repo, error: repoError } = await supabaseClient
+        .from('repositories')
+        .select('url, provider, credential_id, user_id, workspace_id')
+        .eq('id', sourceRepoId)
+        .single();
+
+      // .single() reports a missing row as PGRST116
+      if (repoError && repoError.code !== 'PGRST116') throw repoError;
+      if (!repo) throw new OperationError('not_found', 'Repository not found');
+      authorize(repo, caller, 'viewer');
+
+      console.log('Found repository:', repo.url);
+
+      const { location, provider } = await resolveRepository(repo, deps);
+
+      console.log('Fetching commit for:', location);
+      
+      const repoInfo = await provider.getRepoInfo(location);
+      const commit = await provider.getCommit(location, repoInfo.defaultBranch);
+
+      console.log('Got commit:', commit.sha);
+
+      await supabaseClient
+        .from('repositories')
+        .update({ 
+          last_commit: commit.sha,
+          last_commit_date: commit.date,
+          last_sync: new Date().toISOString(),
+          status: 'synced'
+        })
+        .eq('id', sourceRepoId);
+
+      await finishOperation(supabaseClient, operationId, {
+        status: 'succeeded',
+        source_branch: repoInfo.defaultBranch,
+        result_sha: commit.sha
+      });
+
+      return new Response(
+        JSON.stringify({ success: true, commit }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+    
+    if (request.type === 'listBranches') {
+      const { sourceRepoId } = request;
+      console.log('Listing branches for repo:', sourceRepoId);
+
+      const { data: repo, error: repoError } = await supabaseClient
+        .from('repositories')
+        .select('url, provider, credential_id, user_id, workspace_id')
+        .eq('id', sourceRepoId)
+        .single();
+
+      // .single() reports a missing row as PGRST116
+      if (repoError && repoError.code !== 'PGRST116') throw repoError;
+      if (!repo) throw new OperationError('not_found', 'Repository not found');
+      authorize(repo, caller, 'viewer');
+
+      const { location, provider } = await resolveRepository(repo, deps);
+
+      const repoInfo = await provider.getRepoInfo(location);
+      const branches = await provider.listBranches(location);
+
+      console.log('Found branches:', branches.length);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          defaultBranch: repoInfo.defaultBranch,
+          branches
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (request.type === 'syncTags') {
+      const { sourceRepoId, targetRepoId, tags, includeReleases } = request;
+      console.log('Starting tag synchronization');
+
+      const { sourceRepo, targetRepo } = await loadRepositoryPair(supabaseClient, caller, sourceRepoId, targetRepoId);
+      authorize(targetRepo, caller, changeRole(targetRepo));
+
+      await progress('Checking protection rules');
+
+      // Changes to the master go through approved push requests, which only
+      // cover branches
+      if (targetRepo.is_master) {
+        throw new OperationError(
+          'rule_violation',
+          'Tags cannot be synced into the master repository, as its changes need an approved push request.',
+          { rule: 'require_approval' }
+        );
+      }
+
+      const rules = await loadProtectionRules(supabaseClient, targetRepoId);
+      if (rules) enforceTagSyncRules(rules);
+
+      await progress('Connecting to repositories');
+      const source = await resolveRepository(sourceRepo, deps);
+      const target = await resolveRepository(targetRepo, deps);
+
+      await progress('Synchronizing tags');
+      const result = await syncTags({
+        source,
+        target,
+        tags: tags?.length > 0 ? tags : undefined,
+        includeReleases: !!includeReleases
+      });
+
+      console.log('Tag sync result:', result);
+
+      const problems = [
+        ...(result.conflicting.length > 0 ? [`${result.conflicting.length} tag(s) differ between source and target`] : []),
+        ...(result.releases?.failed.length ? [`${result.releases.failed.length} release(s) could not be copied`] : [])
+      ];
+
+      await finishOperation(supabaseClient, operationId, {
+        status: problems.length > 0 ? 'failed' : 'succeeded',
+        error_message: problems.length > 0 ? problems.join(', ') : null,
+        error_details: result
+      });
+
+      return new Response(
+        JSON.stringify({ success: true, ...result }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (request.type === 'refreshPullRequests') {
+      const { targetRepoId } = request;
+      // Re-reads review and check status for every open pull request, or only
+      // the pull requests targeting the given repository
+      let query = supabaseClient
+        .from('pull_requests')
+        .select('*, target:repositories!pull_requests_target_repository_id_fkey(url, provider, credential_id, user_id, workspace_id)')
+        .eq('state', 'open');
+
+      if (targetRepoId) query = query.eq('target_repository_id', targetRepoId);
+
+      const { data: allPullRequests, error: pullRequestsError } = await query;
+      if (pullRequestsError) throw pullRequestsError;
+
+      const pullRequests = allPullRequests.filter(pullRequest => caller.roles.has(pullRequest.target?.workspace_id));
+
+      console.log('Refreshing pull requests:', pullRequests.length);
+
+      const failed: { id: string; code: string; error: string }[] = [];
+
+      for (const pullRequest of pullRequests) {
+        try {
+          if (!pullRequest.target) throw new OperationError('not_found', 'Target repository not found');
+
+          const { location, provider } = await resolveRepository(pullRequest.target, deps);
+          if (!provider.getPullRequest) {
+            throw new OperationError('unsupported', 'Pull requests are not supported for plain git remotes');
+          }
+
+          const status = await provider.getPullRequest(location, pullRequest.number);
+
+          await supabaseClient
+            .from('pull_requests')
+            .update({
+              title: status.title,
+              state: status.state,
+              review_status: status.reviewStatus,
+              check_status: status.checkStatus,
+              updated_at: new Date().toISOString()
+            })
+            .eq('id', pullRequest.id);
+        } catch (error) {
+          console.error('Error refreshing pull request:', pullRequest.url, error);
+          const { code, message } = toOperationError(error);
+          failed.push({ id: pullRequest.id, code, error: message });
+        }
+      }
+
+      return new Response(
+        JSON.stringify({ success: true, refreshed: pullRequests.length - failed.length, failed }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (request.type === 'createCredential') {
+      const { name, kind, host, owner, username, secret, appId } = request;
+      console.log('Creating credential:', { name, kind, host, owner, appId });
+
+      if (kind === 'github_app' && !appId) {
+        throw new OperationError('invalid_request', 'GitHub App credentials need the app ID');
+      }
+
+      const { data: credential, error: insertError } = await supabaseClient
+        .from('credentials')
+        .insert({
+          user_id: caller.id,
+          name,
+          kind,
+          host: host.trim().toLowerCase(),
+          owner: owner?.trim().replace(/^\/+|\/+$/g, '') || null,
+          username: username || null,
+          app_id: kind === 'github_app' ? appId : null,
+          secret_ciphertext: await encryptSecret(secret)
+        })
+        .select('id, name, kind, host, owner, username, app_id')
+        .single();
+
+      // Shared credentials are unique per owner and host
+      if (insertError?.code === '23505') {
+        throw new OperationError('invalid_request', `A shared credential for ${owner} on ${host} already exists`);
+      }
+      if (insertError) throw insertError;
+
+      return new Response(
+        JSON.stringify({ success: true, credential }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (request.type === 'deleteCredential') {
+      const { credentialId } = request;
+      console.log('Deleting credential:', credentialId);
+
+      // Repositories using it fall back to shared or environment credentials
+      const { error: deleteError } = await supabaseClient
+        .from('credentials')
+        .delete()
+        .eq('id', credentialId)
+        .eq('user_id', caller.id);
+
+      if (deleteError) throw deleteError;
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (request.type === 'setMaster') {
+      const { targetRepoId } = request;
+      console.log('Setting master repository:', targetRepoId);
+
+      const repo = await loadRepository(supabaseClient, targetRepoId);
+      authorize(repo, caller, 'admin');
+
+      // A workspace has one master, so the previous one is unflagged first
+      const { error: clearError } = await supabaseClient
+        .from('repositories')
+        .update({ is_master: false })
+        .eq('workspace_id', repo.workspace_id)
+        .eq('is_master', true);
+
+      if (clearError) throw clearError;
+
+      const { error: updateError } = await supabaseClient
+        .from('repositories')
+        .update({ is_master: true })
+        .eq('id', targetRepoId);
+
+      if (updateError) throw updateError;
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (request.type === 'requestPush') {
+      const { previewId, pushType } = request;
+      console.log('Requesting approval for push from preview:', previewId);
+
+      const preview = await loadPreview(supabaseClient, previewId);
+      if (!preview || preview.created_by !== caller.id) {
+        throw new OperationError('not_found', 'Preview not found. Preview the push again.');
+      }
+
+      const { targetRepo } = await loadRepositoryPair(
+        supabaseClient,
+        caller,
+        preview.source_repository_id,
+        preview.target_repository_id
+      );
+      authorize(targetRepo, caller, 'operator');
+
+      const { data: created, error: insertError } = await supabaseClient
+        .from('push_requests')
+        .insert({
+          source_repository_id: preview.source_repository_id,
+          target_repository_id: preview.target_repository_id,
+          source_branch: preview.source_branch,
+          target_branch: preview.target_branch,
+          push_type: pushType,
+          source_sha: preview.source_sha,
+          target_sha: preview.target_sha,
+          status: 'pending',
+          requested_by: caller.id,
+          requested_by_label: caller.label
+        })
+        .select('id')
+        .single();
+
+      if (insertError) throw insertError;
+
+      return new Response(
+        JSON.stringify({ success: true, pushRequestId: created.id }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (request.type === 'reviewPush') {
+      const { pushRequestId, approve, comment } = request;
+      console.log('Reviewing push request:', pushRequestId, approve ? 'approve' : 'reject');
+
+      const reviewed = await loadPushRequest(supabaseClient, pushRequestId);
+      const targetRepo = await loadRepository(supabaseClient, reviewed.target_repository_id);
+
+      // Reviewers need the role a direct push would, so only admins approve
+      // pushes into the master repository
+      authorize(targetRepo, caller, changeRole(targetRepo));
+
+      if (reviewed.requested_by === caller.id) {
+        throw new OperationError('forbidden', 'Push requests must be reviewed by someone other than the requester');
+      }
+      if (reviewed.status !== 'pending') {
+        throw new OperationError('invalid_request', `This push request is already ${reviewed.status}`);
+      }
+
+      const status = approve ? 'approved' : 'rejected';
+      const { error: updateError } = await supabaseClient
+        .from('push_requests')
+        .update({
+          status,
+          reviewed_by: caller.id,
+          reviewed_by_label: caller.label,
+          review_comment: comment || null,
+          reviewed_at: new Date().toISOString()
+        })
+        .eq('id', pushRequestId)
+        .eq('status', 'pending');
+
+      if (updateError) throw updateError;
+
+      return new Response(
+        JSON.stringify({ success: true, status }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (request.type === 'enqueueJob') {
+      const { operation } = request;
+      console.log('Queueing job:', operation.type);
+
+      // Jobs belong to the target's workspace, whose members follow them.
+      // Running the operation checks the caller's role again.
+      const targetRepo = await loadRepository(supabaseClient, operation.targetRepoId);
+      authorize(targetRepo, caller, 'operator');
+
+      const jobId = await createJob(supabaseClient, {
+        workspace_id: targetRepo.workspace_id,
+        operation,
+        created_by: caller.id,
+        created_by_label: caller.label
+      });
+
+      const runInBackground = deps.runInBackground ?? (start => { start(); });
+      runInBackground(() => runJob(deps, jobId, operation, caller));
+
+      return new Response(
+        JSON.stringify({ success: true, jobId }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (request.type === 'cancelJob') {
+      const { jobId } = request;
+      console.log('Cancelling job:', jobId);
+
+      const job = await loadJob(supabaseClient, jobId);
+      authorize(job, caller, 'operator');
+
+      if (job.status !== 'queued' && job.status !== 'running') {
+        throw new OperationError('invalid_request', `This job has already finished (${job.status})`);
+      }
+
+      // Running jobs see the flag before their next step; jobs that have not
+      // started yet are cancelled outright
+      const { error: flagError } = await supabaseClient
+        .from('operation_jobs')
+        .update({ cancel_requested: true })
+        .eq('id', jobId);
+
+      if (flagError) throw flagError;
+
+      const { data: cancelled, error: cancelError } = await supabaseClient
+        .from('operation_jobs')
+        .update({ status: 'cancelled', finished_at: new Date().toISOString() })
+        .eq('id', jobId)
+        .eq('status', 'queued')
+        .select('id');
+
+      if (cancelError) throw cancelError;
+
+      return new Response(
+        JSON.stringify({ success: true, status: cancelled.length > 0 ? 'cancelled' : 'running' }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (request.type === 'pushBatch') {
+      const { targetRepoIds, ...push } = request;
+      const targets = [...new Set(targetRepoIds)];
+      console.log('Pushing to targets:', targets.length);
+
+      if (targets.length === 0) {
+        throw new OperationError('invalid_request', 'Select at least one target repository');
+      }
+      if (targets.length > MAX_BATCH_TARGETS) {
+        throw new OperationError('invalid_request', `A batch can push to at most ${MAX_BATCH_TARGETS} repositories`);
+      }
+      if (targets.includes(push.sourceRepoId)) {
+        throw new OperationError('invalid_request', 'The source repository cannot also be a target');
+      }
+
+      // Each target is pushed like a single push into its default branch,
+      // with its own role check, protection rules and history entry
+      const results = await mapWithConcurrency(targets, BATCH_CONCURRENCY, async (targetRepoId): Promise<PushBatchResult> => {
+        const response = await runOperation(deps, {
+          type: 'push',
+          sourceRepoId: push.sourceRepoId,
+          targetRepoId,
+          pushType: push.pushType,
+          sourceBranch: push.sourceBranch,
+          refspecs: push.refspecs
+        }, caller);
+        const body = await response.json();
+
+        return body.success
+          ? { targetRepoId, status: 'succeeded', sha: body.ref?.sha, pullRequest: body.pullRequest }
+          : { targetRepoId, status: 'failed', code: body.code, error: body.error };
+      });
+
+      console.log('Batch push finished:', results.filter(result => result.status === 'failed').length, 'failed');
+
+      return new Response(
+        JSON.stringify({ success: true, results }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (request.type === 'compareWithMaster') {
+      const { workspaceId } = request;
+      console.log('Comparing workspace with its master:', workspaceId);
+
+      authorize({ workspace_id: workspaceId }, caller, 'viewer');
+
+      const { data: repos, error: reposError } = await supabaseClient
+        .from('repositories')
+        .select('*')
+        .eq('workspace_id', workspaceId);
+
+      if (reposError) throw reposError;
+
+      const masterRepo = repos.find(repo => repo.is_master);
+      if (!masterRepo) throw new OperationError('invalid_request', 'This workspace has no master repository');
+
+      const master = await resolveRepository(masterRepo, deps);
+      const masterInfo = await master.provider.getRepoInfo(master.location);
+      const masterBranch = await master.provider.getBranch(master.location, masterInfo.defaultBranch);
+
+      // Only reads, so nothing is recorded in the history
+      const results = await mapWithConcurrency(
+        repos.filter(repo => !repo.is_master),
+        BATCH_CONCURRENCY,
+        async (repo): Promise<DriftResult> => {
+          try {
+            const { location, provider, remote } = await resolveRepository(repo, deps);
+            const repoInfo = await provider.getRepoInfo(location);
+
+            // Compared inside the repository, so "ahead" counts the master's
+            // commits the repository lacks
+            const comparison = needsGitTransport(master.location, location)
+              ? await compareRemotes(master.remote, masterBranch.name, remote, repoInfo.defaultBranch)
+              : await provider.compare(location, repoInfo.defaultBranch, masterBranch.sha);
+
+            const aheadBy = comparison.behindBy;
+            const behindBy = comparison.aheadBy;
+
+            // The date is a nicety; repositories reached over git have no API for it
+            let mergeBaseDate: string | null = null;
+            if (aheadBy > 0 || behindBy > 0) {
+              mergeBaseDate = await provider.getCommit(location, comparison.mergeBaseSha)
+                .then(commit => commit.date ?? null, () => null);
+            }
+
+            return {
+              repositoryId: repo.id,
+              status: aheadBy > 0 ? 'diverged' : behindBy > 0 ? 'stale' : 'in-sync',
+              branch: repoInfo.defaultBranch,
+              aheadBy,
+              behindBy,
+              mergeBaseSha: comparison.mergeBaseSha,
+              mergeBaseDate
+            };
+          } catch (error) {
+            console.error('Error comparing with master:', repo.url, error);
+            const { code, message } = toOperationError(error);
+            return { repositoryId: repo.id, status: 'failed', code, error: message };
+          }
+        }
+      );
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          masterRepoId: masterRepo.id,
+          masterBranch: masterBranch.name,
+          masterSha: masterBranch.sha,
+          results
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (request.type === 'listOwnerRepos') {
+      const { workspaceId, owner, host = 'github.com', page = 1, includeArchived = false, includeForks = false } = request;
+      console.log('Listing repositories of:', host, owner, 'page', page);
+
+      // Only admins add repositories, and listing may reveal private ones
+      authorize({ workspace_id: workspaceId }, caller, 'admin');
+
+      if (!Number.isInteger(page) || page < 1) {
+        throw new OperationError('invalid_request', 'Field page must be a whole number from 1');
+      }
+      if (!/^[A-Za-z0-9][A-Za-z0-9-]*$/.test(owner)) {
+        throw new OperationError('invalid_request', `Invalid organization or user name: ${owner}`);
+      }
+
+      // Stored credentials for the owner apply as they do to its repositories
+      const location: RepoLocation = { provider: 'github', host, owner, repo: '', url: `https://${host}/${owner}` };
+
+      // The host comes from the client, so only hosts the environment
+      // credentials were issued for, or that the caller stored a credential
+      // for, are ever contacted
+      const hostIsKnown = usesEnvironmentToken(location) ||
+        getEnvironmentGitHubApp(location) !== null ||
+        await loadCredential(supabaseClient, { user_id: caller.id }, location) !== null;
+      if (!hostIsKnown) {
+        throw new OperationError('not_configured', `No credential stored for ${host}`, { host });
+      }
+
+      const { provider } = await connect(location, { user_id: caller.id }, deps);
+
+      if (!provider.listOwnerRepos) {
+        throw new OperationError('unsupported', 'Listing repositories is not supported for this provider');
+      }
+
+      const { repositories, hasMore } = await provider.listOwnerRepos(location, page);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          // Filtered per page, so pages may come back short or empty
+          repositories: repositories.filter(repo => (includeArchived || !repo.archived) && (includeForks || !repo.fork)),
+          nextPage: hasMore ? page + 1 : null
+        }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (request.type === 'getLastCommits') {
+      const repositoryIds = [...new Set(request.sourceRepoIds)];
+      console.log('Getting last commits for repos:', repositoryIds.length);
+
+      if (repositoryIds.length > MAX_BATCH_TARGETS) {
+        throw new OperationError('invalid_request', `At most ${MAX_BATCH_TARGETS} repositories can be read at once`);
+      }
+
+      // Each repository is read like a single getLastCommit
+      const results = await mapWithConcurrency(repositoryIds, BATCH_CONCURRENCY, async (repositoryId): Promise<LastCommitResult> => {
+        const response = await runOperation(deps, { type: 'getLastCommit', sourceRepoId: repositoryId }, caller);
+        const body = await response.json();
+
+        return body.success
+          ? { repositoryId, status: 'succeeded', commit: body.commit }
+          : { repositoryId, status: 'failed', code: body.code, error: body.error };
+      });
+
+      return new Response(
+        JSON.stringify({ success: true, results }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (request.type === 'push' || request.type === 'compare' || request.type === 'merge') {
+      const { sourceRepoId, targetRepoId, sourceBranch, targetBranch } = request;
+      console.log(`Starting ${request.type} operation`);
+      
+      const { sourceRepo, targetRepo } = await loadRepositoryPair(supabaseClient, caller, sourceRepoId, targetRepoId);
+
+      // Comparing only reads. Pull requests leave the target branch alone
+      // until someone merges them, so operators may open them on the master.
+      // Approved push requests were authorized before they were loaded.
+      if (request.type === 'merge' || (request.type === 'push' && request.pushType !== 'pull-request' && !pushRequest)) {
+        authorize(targetRepo, caller, changeRole(targetRepo));
+      } else if (request.type === 'push') {
+        authorize(targetRepo, caller, 'operator');
+      }
+
+      await progress('Connecting to repositories');
+      const { location: sourceLocation, provider: sourceProvider, remote: sourceRemote } = await resolveRepository(sourceRepo, deps);
+      const { location: targetLocation, provider: targetProvider, remote: targetRemote } = await resolveRepository(targetRepo, deps);
+
+      // Explicit refspecs are always pushed over git, as are pushes to
+      // providers that cannot move a branch in place
+      const useMirror = needsGitTransport(sourceLocation, targetLocation) ||
+        (request.type === 'push' && (request.refspecs?.length > 0 || !targetProvider.updateRef));
+
+      console.log('Transport:', useMirror ? 'git' : 'provider API');
+
+      await progress('Reading branches');
+
+      // Get source repository default branch and latest commit
+      const sourceRepoInfo = await sourceProvider.getRepoInfo(sourceLocation);
+
+      console.log('Source repo info:', {
+        defaultBranch: sourceRepoInfo.defaultBranch
+      });
+
+      // Get the latest commit from the selected source branch, falling back
+      // to the default branch
+      const sourceBranchData = await sourceProvider.getBranch(
+        sourceLocation,
+        sourceBranch || sourceRepoInfo.defaultBranch
+      );
+
+      console.log('Source branch data:', sourceBranchData);
+
+      // Get target repository default branch
+      const targetRepoInfo = await targetProvider.getRepoInfo(targetLocation);
+
+      console.log('Target repo info:', {
+        defaultBranch: targetRepoInfo.defaultBranch
+      });
+
+      const targetRef = targetBranch || targetRepoInfo.defaultBranch;
+      const sourceSha = sourceBranchData.sha;
+
+      // Pull requests leave the target alone, so only direct changes are
+      // held to the target's protection rules
+      if (request.type === 'merge' || (request.type === 'push' && request.pushType !== 'pull-request')) {
+        await progress('Checking protection rules');
+        const rules = await loadProtectionRules(supabaseClient, targetRepoId);
+
+        // Direct pushes into the master repository always go through a
+        // second member's approval. Merges cannot be requested, so they
+        // never reach the master directly.
+        if (request.type === 'push' && targetRepo.is_master && !pushRequest) {
+          throw new OperationError(
+            'rule_violation',
+            'Pushes into the master repository need an approved push request. Request approval instead.',
+            { rule: 'require_approval' }
+          );
+        }
+
+        if (request.type === 'merge' && targetRepo.is_master) {
+          throw new OperationError(
+            'rule_violation',
+            'Merges into the master repository need an approved push request. Merge into the source and request approval for a push instead.',
+            { rule: 'require_approval' }
+          );
+        }
+
+        if (pushRequest && sourceSha !== pushRequest.source_sha) {
+          throw new OperationError(
+            'rule_violation',
+            `${sourceBranchData.name} has moved since the push request was approved ` +
+              `(approved ${pushRequest.source_sha.substring(0, 7)}, now ${sourceSha.substring(0, 7)}). Request approval again.`,
+            { rule: 'require_approval', expectedSha: pushRequest.source_sha, actualSha: sourceSha }
+          );
+        }
+
+        if (rules) {
+          await enforceProtectionRules(supabaseClient, rules, {
+            callerId: caller.id,
+            sourceRepoId,
+            targetRepoId,
+            targetRef,
+            sourceSha,
+            force: request.type === 'push' && request.pushType !== 'regular',
+            previewId: request.previewId,
+            approved: !!pushRequest,
+            getTargetSha: async () => (await targetProvider.getBranch(targetLocation, targetRef)).sha
+          });
+        }
+      }
+
+      if (request.type === 'compare') {
+        // Compare inside the target repository so the result describes what
+        // the push would do to the target branch
+        const comparison = useMirror
+          ? await compareRemotes(sourceRemote, sourceBranchData.name, targetRemote, targetRef)
+          : await targetProvider.compare(targetLocation, targetRef, sourceSha);
+
+        console.log('Comparison result:', {
+          status: comparison.status,
+          aheadBy: comparison.aheadBy,
+          behindBy: comparison.behindBy
+        });
+
+        let mergeStatus = 'identical';
+        let conflictingFiles: string[] = [];
+
+        if (comparison.status === 'ahead') {
+          mergeStatus = 'fast-forward';
+        } else if (comparison.status === 'behind') {
+          mergeStatus = 'behind';
+        } else if (comparison.status === 'diverged') {
+          // Providers have no side-effect free merge check, so the merge is
+          // tried in memory over git
+          const mergeCheck = await checkMerge(
+            sourceRemote,
+            sourceBranchData.name,
+            targetRemote,
+            targetRef
+          );
+          conflictingFiles = mergeCheck.conflictingFiles;
+          mergeStatus = mergeCheck.clean ? 'merge' : 'conflicting';
+        }
+
+        const { data: preview, error: previewError } = await supabaseClient
+          .from('push_previews')
+          .insert({
+            source_repository_id: sourceRepoId,
+            target_repository_id: targetRepoId,
+            source_branch: sourceBranchData.name,
+            target_branch: targetRef,
+            source_sha: sourceSha,
+            target_sha: comparison.baseSha,
+            created_by: caller.id
+          })
+          .select('id')
+          .single();
+
+        if (previewError) {
+          console.error('Failed to record preview:', previewError);
+        }
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            sourceBranch: sourceBranchData.name,
+            targetBranch: targetRef,
+            sourceSha,
+            targetSha: comparison.baseSha,
+            mergeBaseSha: comparison.mergeBaseSha,
+            aheadBy: comparison.aheadBy,
+            behindBy: comparison.behindBy,
+            mergeStatus,
+            conflictingFiles,
+            commits: comparison.commits.map(commit => ({
+              ...commit,
+              message: commit.message.split('\n')[0]
+            })),
+            files: comparison.files,
+            htmlUrl: comparison.htmlUrl,
+            previewId: preview?.id ?? null
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (request.type === 'merge') {
+        const { mergeStrategy, commitMessage } = request;
+
+        try {
+          await progress(`Merging ${sourceBranchData.name} into ${targetRef}`);
+
+          // Provider merges need the source commits inside the target
+          // repository, so across hosts they are first copied to a temporary
+          // branch there
+          const tempBranch = useMirror ? `git-operations/merge-source-${Date.now()}` : null;
+          if (tempBranch) {
+            await mirrorRefs({
+              source: sourceRemote,
+              target: targetRemote,
+              refspecs: [{ source: toFullRef(sourceBranchData.name), target: toFullRef(tempBranch) }],
+              pushType: 'regular'
+            });
+          }
+
+          let mergeResult: { sha: string };
+          try {
+            mergeResult = await targetProvider.merge(
+              targetLocation,
+              targetRef,
+              sourceSha,
+              commitMessage || `Merge ${sourceBranchData.name} into ${targetRef}`,
+              mergeStrategy
+            );
+          } finally {
+            if (tempBranch) {
+              await deleteRemoteRef(targetRemote, tempBranch).catch(error => {
+                console.error('Failed to delete temporary merge branch:', tempBranch, error);
+              });
+            }
+          }
+
+          console.log('Merge successful:', mergeResult);
+
+          const timestamp = new Date().toISOString();
+
+          await supabaseClient
+            .from('repositories')
+            .update({
+              last_sync: timestamp,
+              status: 'synced',
+              ...(targetRef === targetRepoInfo.defaultBranch
+                ? { last_commit: mergeResult.sha, last_commit_date: timestamp, last_pushed_sha: mergeResult.sha }
+                : {})
+            })
+            .eq('id', targetRepoId);
+
+          await finishOperation(supabaseClient, operationId, {
+            status: 'succeeded',
+            source_branch: sourceBranchData.name,
+            target_branch: targetRef,
+            result_sha: mergeResult.sha
+          });
+
+          return new Response(
+            JSON.stringify({
+              success: true,
+              message: `Merged ${sourceBranchData.name} into ${targetRef} using ${mergeStrategy} strategy`,
+              sha: mergeResult.sha
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        } catch (error) {
+          console.error('Error during merge operation:', error);
+
+          // Report which paths conflict instead of the provider's bare 409
+          let operationError = toOperationError(error);
+          if (operationError.code === 'merge_conflict') {
+            const conflictingFiles = await checkMerge(
+              sourceRemote,
+              sourceBranchData.name,
+              targetRemote,
+              targetRef
+            ).then(result => result.conflictingFiles).catch(() => []);
+
+            operationError = new OperationError(
+              'merge_conflict',
+              `${sourceBranchData.name} cannot be merged into ${targetRef} automatically` +
+                (conflictingFiles.length > 0 ? `: ${conflictingFiles.length} conflicting file(s)` : ''),
+              { conflictingFiles }
+            );
+          }
+
+          await finishOperation(supabaseClient, operationId, {
+            status: 'failed',
+            source_branch: sourceBranchData.name,
+            target_branch: targetRef,
+            ...failureFields(operationError)
+          });
+
+          return errorResponse(operationError);
+        }
+      }
+
+      const { pushType, expectedTargetSha, refspecs } = request;
+
+      try {
+        // The last step: once the target is being changed the job can no
+        // longer be cancelled
+        await progress(pushType === 'pull-request' ? 'Opening pull request' : `Updating ${targetRef}`);
+
+        // Pull requests never touch the target branch, so the repositories'
+        // recorded commits stay as they are until the pull request is merged
+        if (pushType === 'pull-request') {
+          const pullRequest = await openPullRequest({
+            source: { location: sourceLocation, remote: sourceRemote, branch: sourceBranchData.name, sha: sourceSha },
+            target: { location: targetLocation, remote: targetRemote, provider: targetProvider, branch: targetRef },
+            useMirror
+          });
+
+          console.log('Opened pull request:', pullRequest.url);
+
+          const { error: insertError } = await supabaseClient
+            .from('pull_requests')
+            .insert({
+              source_repository_id: sourceRepoId,
+              target_repository_id: targetRepoId,
+              source_branch: sourceBranchData.name,
+              head_branch: pullRequest.headBranch,
+              target_branch: targetRef,
+              head_sha: sourceSha,
+              number: pullRequest.number,
+              url: pullRequest.url,
+              title: pullRequest.title,
+              state: pullRequest.state,
+              review_status: pullRequest.reviewStatus,
+              check_status: pullRequest.checkStatus,
+              created_by: caller.label
+            });
+
+          if (insertError) {
+            console.error('Failed to record pull request:', insertError);
+          }
+
+          await finishOperation(supabaseClient, operationId, {
+            status: 'succeeded',
+            source_branch: sourceBranchData.name,
+            target_branch: targetRef,
+            result_sha: sourceSha
+          });
+
+          return new Response(
+            JSON.stringify({
+              success: true,
+              message: `Opened pull request #${pullRequest.number} from ${pullRequest.headBranch} into ${targetRef}`,
+              pullRequest
+            }),
+            { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+          );
+        }
+
+        // Force with lease only overwrites the target when its head is still
+        // the commit the user last saw: the branch SHA sent by the client, or
+        // the commit we last pushed or merged into the default branch.
+        // last_commit also follows pushes reported by webhooks, so it cannot
+        // vouch that nobody else changed the target.
+        const expectedSha = expectedTargetSha ||
+          (targetRef === targetRepoInfo.defaultBranch ? targetRepo.last_pushed_sha : null);
+
+        if (pushType === 'force-with-lease' && !useMirror) {
+          const currentBranch = await targetProvider.getBranch(targetLocation, targetRef);
+
+          console.log('Checking lease:', {
+            expected: expectedSha,
+            actual: currentBranch.sha
+          });
+
+          if (!expectedSha || currentBranch.sha !== expectedSha) {
+            throw new OperationError(
+              'lease_mismatch',
+              `Target branch ${targetRef} has moved since it was last synced ` +
+              `(expected ${expectedSha?.substring(0, 7) ?? 'unknown'}, ` +
+              `found ${currentBranch.sha.substring(0, 7)}). Refresh the repository and try again.`,
+              { expectedSha, actualSha: currentBranch.sha }
+            );
+          }
+        }
+
+        // A regular push is only accepted when it fast-forwards the target
+        // ref; force and force-with-lease overwrite it
+        let updateResult: { sha: string };
+        let mirrored = null;
+
+        if (useMirror) {
+          const primaryRefspec = { source: toFullRef(sourceBranchData.name), target: toFullRef(targetRef) };
+          mirrored = await mirrorRefs({
+            source: sourceRemote,
+            target: targetRemote,
+            refspecs: [primaryRefspec, ...(refspecs || []).map(parseRefspec)],
+            pushType,
+            expectedShas: { [primaryRefspec.target]: expectedSha ?? null }
+          });
+          updateResult = { sha: mirrored[0].sha };
+        } else {
+          updateResult = await targetProvider.updateRef!(
+            targetLocation,
+            targetRef,
+            sourceSha,
+            pushType !== 'regular'
+          );
+        }
+
+        console.log('Ref update successful:', updateResult);
+
+        // Update both repositories' status. last_commit tracks the default
+        // branch, so it only changes when that is the branch we touched
+        const timestamp = new Date().toISOString();
+        const syncedRepoIds = [
+          ...(sourceBranchData.name === sourceRepoInfo.defaultBranch ? [sourceRepoId] : []),
+          ...(targetRef === targetRepoInfo.defaultBranch ? [targetRepoId] : [])
+        ];
+
+        await supabaseClient
+          .from('repositories')
+          .update({ 
+            last_sync: timestamp,
+            status: 'synced'
+          })
+          .in('id', [sourceRepoId, targetRepoId]);
+
+        if (syncedRepoIds.length > 0) {
+          await supabaseClient
+            .from('repositories')
+            .update({
+              last_commit: sourceSha,
+              last_commit_date: timestamp
+            })
+            .in('id', syncedRepoIds);
+        }
+
+        if (targetRef === targetRepoInfo.defaultBranch) {
+          await supabaseClient
+            .from('repositories')
+            .update({ last_pushed_sha: sourceSha })
+            .eq('id', targetRepoId);
+        }
+
+        await finishOperation(supabaseClient, operationId, {
+          status: 'succeeded',
+          source_branch: sourceBranchData.name,
+          target_branch: targetRef,
+          result_sha: updateResult.sha
+        });
+
+        if (pushRequest) await finishPushRequest(supabaseClient, pushRequest.id, 'executed');
+
+        return new Response(
+          JSON.stringify({ 
+            success: true, 
+            message: `Pushed ${sourceBranchData.name} to ${targetRef} using ${pushType} strategy`,
+            ref: updateResult,
+            mirrored
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      } catch (error) {
+        console.error('Error during push operation:', error);
+        const operationError = toOperationError(error);
+        await finishOperation(supabaseClient, operationId, {
+          status: 'failed',
+          source_branch: sourceBranchData.name,
+          target_branch: targetRef,
+          ...failureFields(operationError)
+        });
+        if (pushRequest) await finishPushRequest(supabaseClient, pushRequest.id, 'failed', operationError.message);
+        return errorResponse(operationError);
+      }
+    }
+
+    // Validation only lets through operations handled above
+    throw new OperationError('invalid_request', 'Unhandled operation');
+
+  } catch (error) {
+    console.error('Error in git-operations function:', error);
+    const operationError = toOperationError(error);
+    await finishOperation(supabaseClient, operationId, {
+      status: 'failed',
+      ...failureFields(operationError)
+    });
+    // Once claimed, a failed push request has to be requested again
+    if (pushRequest) {
+      await finishPushRequest(supabaseClient, pushRequest.id, 'failed', operationError.message);
+    }
+    return errorResponse(operationError);
+  }
+};
+
+// Runs a queued job and records how it ended. Jobs cancelled before they
+// started are skipped.
+const runJob = async (deps: HandlerDependencies, jobId: string, operation: JobOperation, caller: Caller) => {
+  const { supabaseClient } = deps;
+
+  try {
+    if (!await startJob(supabaseClient, jobId)) return;
+
+    const response = await runOperation(deps, operation, caller, createJobProgress(supabaseClient, jobId));
+    const body = await response.json();
+
+    await updateJob(supabaseClient, jobId, body.success
+      ? { status: 'succeeded', result: body, finished_at: new Date().toISOString() }
+      : {
+        status: body.code === 'cancelled' ? 'cancelled' : 'failed',
+        error: { code: body.code, message: body.error, details: body.details },
+        finished_at: new Date().toISOString()
+      });
+  } catch (error) {
+    console.error('Error running job:', jobId, error);
+    const { code, message } = toOperationError(error);
+    await updateJob(supabaseClient, jobId, {
+      status: 'failed',
+      error: { code, message },
+      finished_at: new Date().toISOString()
+    });
+  }
+};
+
+// Runs a sync rule's push as the member who last changed the rule, so it
+// needs their role and is held to the target's protection rules like a push
+// they made by hand. The outcome is recorded on the rule.
+export const runSyncRule = async (deps: HandlerDependencies, rule: SyncRuleRow, now = new Date()) => {
+  const { supabaseClient } = deps;
+  let result: SyncRuleResult;
+
+  try {
+    await claimSyncRule(supabaseClient, rule.id, now);
+
+    if (!rule.run_as) {
+      throw new OperationError('forbidden', 'The member who set up this sync rule no longer exists');
+    }
+
+    // History names the member the rule ran as
+    const { data: memberships } = await supabaseClient
+      .from('workspace_members')
+      .select('email')
+      .eq('user_id', rule.run_as);
+    const email = memberships?.find(membership => membership.email)?.email ?? rule.run_as;
+
+    const caller = await loadCaller(supabaseClient, rule.run_as, `${email} (sync rule)`);
+    const response = await runOperation(deps, toRulePushOperation(rule), caller);
+    const body = await response.json();
+
+    result = body.success
+      ? { ruleId: rule.id, status: 'succeeded' }
+      : { ruleId: rule.id, status: 'failed', code: body.code, error: body.error };
+  } catch (error) {
+    console.error('Error running sync rule:', rule.id, error);
+    const { code, message } = toOperationError(error);
+    result = { ruleId: rule.id, status: 'failed', code, error: message };
+  }
+
+  await finishSyncRule(supabaseClient, result);
+  return result;
+};
+
+// Pushes every sync rule that is due, one after another
+const runSyncRules = async (deps: HandlerDependencies) => {
+  const now = new Date();
+
+  const rules = await loadDueSyncRules(deps.supabaseClient, now);
+  console.log('Running sync rules:', rules.length);
+
+  const results: SyncRuleResult[] = [];
+  for (const rule of rules) {
+    results.push(await runSyncRule(deps, rule, now));
+  }
+
+  return new Response(
+    JSON.stringify({ success: true, results }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+};
+
+export const createHandler = (deps: HandlerDependencies) => async (req: Request) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const body = await req.json().catch(() => {
+      throw new OperationError('invalid_request', 'Request body must be valid JSON');
+    });
+
+    const { request: validatedRequest, error: validationError } = validateOperationRequest(body);
+    if (validationError) throw new OperationError('invalid_request', validationError);
+
+    if (validatedRequest.type === 'runSyncRules') {
+      authenticateScheduler(req, deps.scheduleSecret);
+      return await runSyncRules(deps);
+    }
+
+    const caller = await authenticate(deps.supabaseClient, req);
+    return await runOperation(deps, validatedRequest, caller);
+  } catch (error) {
+    console.error('Error in git-operations function:', error);
+    return errorResponse(toOperationError(error));
+  }
+};
@@ -0,0 +1,85 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { OperationError } from './errors.ts'
+import type { JobOperation, JobStatus, JobStep } from '../_shared/operations.ts'
+
+export interface JobRow {
+  id: string;
+  workspace_id: string;
+  operation: JobOperation;
+  status: JobStatus;
+  cancel_requested: boolean;
+  created_by: string | null;
+}
+
+// Called as an operation starts each step. Jobs record the step and stop
+// there when cancelled; direct calls report nowhere.
+export type ProgressReporter = (step: string) => Promise<void>;
+
+export const noProgress: ProgressReporter = async () => {};
+
+export const createJob = async (
+  supabaseClient: SupabaseClient,
+  fields: { workspace_id: string; operation: JobOperation; created_by: string; created_by_label: string }
+) => {
+  const { data, error } = await supabaseClient
+    .from('operation_jobs')
+    .insert({ ...fields, operation_type: fields.operation.type, status: 'queued', steps: [] })
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id as string;
+};
+
+export const loadJob = async (supabaseClient: SupabaseClient, jobId: string): Promise<JobRow> => {
+  const { data, error } = await supabaseClient
+    .from('operation_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single();
+
+  // .single() reports a missing row as PGRST116
+  if (error && error.code !== 'PGRST116') throw error;
+  if (!data) throw new OperationError('not_found', 'Job not found');
+  return data;
+};
+
+// Moves a queued job to running. False when it was cancelled first.
+export const startJob = async (supabaseClient: SupabaseClient, jobId: string) => {
+  const { data, error } = await supabaseClient
+    .from('operation_jobs')
+    .update({ status: 'running', started_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('status', 'queued')
+    .select('id');
+
+  if (error) throw error;
+  return data.length > 0;
+};
+
+export const updateJob = async (supabaseClient: SupabaseClient, jobId: string, fields: Record<string, unknown>) => {
+  const { error } = await supabaseClient
+    .from('operation_jobs')
+    .update(fields)
+    .eq('id', jobId);
+
+  if (error) {
+    console.error('Failed to update job:', error);
+  }
+};
+
+// Appends each step to the job, which Realtime passes on to the page. A
+// cancellation is noticed between steps, before the next one starts.
+export const createJobProgress = (supabaseClient: SupabaseClient, jobId: string): ProgressReporter => {
+  const steps: JobStep[] = [];
+
+  return async (step: string) => {
+    const job = await loadJob(supabaseClient, jobId);
+    if (job.cancel_requested) {
+      throw new OperationError('cancelled', `Cancelled before: ${step}`);
+    }
+
+    steps.push({ name: step, startedAt: new Date().toISOString() });
+    await updateJob(supabaseClient, jobId, { steps: [...steps] });
+  };
+};
@@ -0,0 +1,332 @@
+import fs from 'node:fs'
+import git from 'https://esm.sh/isomorphic-git@1.27.1'
+import http from 'https://esm.sh/isomorphic-git@1.27.1/http/web'
+import { OperationError } from './errors.ts'
+import type { CommitInfo, Comparison, FileChange } from './providers/types.ts'
+
+// Plain git-over-HTTPS transport for remotes without a usable REST API, or
+// for pushes between different hosts. Every operation works in a throwaway
+// bare repository under the function's tmp directory.
+
+export interface GitRemote {
+  url: string;
+  auth?: { username: string; password: string };
+}
+
+export interface RemoteRef {
+  ref: string;
+  oid: string;
+}
+
+export interface Refspec {
+  source: string;
+  target: string;
+}
+
+export interface MirrorResult {
+  source: string;
+  target: string;
+  sha: string;
+  previousSha: string | null;
+}
+
+export const PUSH_TYPES = ['regular', 'force', 'force-with-lease'];
+
+const authFor = (remote: GitRemote) => () => remote.auth;
+
+// Short names are branches, anything under refs/ is used as is
+export const toFullRef = (ref: string) => ref.startsWith('refs/') ? ref : `refs/heads/${ref}`;
+
+// Parses `src:dst` refspecs; a bare `ref` pushes to the same name
+export const parseRefspec = (refspec: string): Refspec => {
+  const [source, target] = refspec.replace(/^\+/, '').split(':');
+  return { source: toFullRef(source), target: toFullRef(target || source) };
+};
+
+export const withTempRepo = async <T>(fn: (gitdir: string) => Promise<T>): Promise<T> => {
+  const gitdir = await Deno.makeTempDir({ prefix: 'git-operations-' });
+  try {
+    await git.init({ fs, gitdir, bare: true });
+    return await fn(gitdir);
+  } finally {
+    await Deno.remove(gitdir, { recursive: true }).catch(() => undefined);
+  }
+};
+
+export const listRemoteRefs = async (remote: GitRemote, prefix?: string): Promise<RemoteRef[]> => {
+  const refs = await git.listServerRefs({
+    http,
+    url: remote.url,
+    prefix,
+    onAuth: authFor(remote)
+  });
+  return refs.map(({ ref, oid }) => ({ ref, oid }));
+};
+
+// Resolves the branch HEAD points to on the remote
+export const getRemoteDefaultBranch = async (remote: GitRemote) => {
+  const refs = await git.listServerRefs({
+    http,
+    url: remote.url,
+    prefix: 'HEAD',
+    symrefs: true,
+    onAuth: authFor(remote)
+  });
+  const target = refs.find(ref => ref.ref === 'HEAD')?.target;
+  return target?.replace('refs/heads/', '') ?? 'main';
+};
+
+export const fetchRef = async (gitdir: string, remote: GitRemote, ref: string, name: string, depth?: number) => {
+  // Fetching records the remote's branches under refs/remotes/<name>, which
+  // needs the remote's fetch refspec in the config. The config file is
+  // rewritten as a whole, so fetches into one repository run one at a time.
+  await git.addRemote({ fs, gitdir, remote: name, url: remote.url, force: true });
+
+  const { fetchHead } = await git.fetch({
+    fs,
+    http,
+    gitdir,
+    url: remote.url,
+    remote: name,
+    ref: toFullRef(ref),
+    singleBranch: true,
+    tags: false,
+    depth,
+    onAuth: authFor(remote)
+  });
+
+  if (!fetchHead) throw new OperationError('not_found', `Ref ${ref} not found on ${remote.url}`);
+  return fetchHead as string;
+};
+
+export const readCommitInfo = async (gitdir: string, oid: string): Promise<CommitInfo> => {
+  const { commit } = await git.readCommit({ fs, gitdir, oid });
+  return {
+    sha: oid,
+    message: commit.message,
+    author: commit.author.name,
+    date: new Date(commit.author.timestamp * 1000).toISOString()
+  };
+};
+
+const listChangedFiles = async (gitdir: string, base: string, head: string): Promise<FileChange[]> => {
+  const changes = await git.walk({
+    fs,
+    gitdir,
+    trees: [git.TREE({ ref: base }), git.TREE({ ref: head })],
+    map: async (filepath, [before, after]) => {
+      if (filepath === '.') return;
+
+      const [beforeOid, afterOid] = await Promise.all([before?.oid(), after?.oid()]);
+      if (beforeOid === afterOid) return null;
+
+      const type = await (after ?? before)?.type();
+      if (type === 'tree') return;
+
+      return {
+        filename: filepath,
+        status: !before ? 'added' : !after ? 'removed' : 'modified',
+        // Line counts would require diffing blob contents
+        additions: 0,
+        deletions: 0
+      };
+    }
+  });
+
+  return changes.filter(Boolean);
+};
+
+// Compares `head` against `base` inside a repository holding both histories
+export const compareFetched = async (gitdir: string, base: string, head: string): Promise<Comparison> => {
+  const [mergeBaseSha] = await git.findMergeBase({ fs, gitdir, oids: [base, head] });
+  const [baseLog, headLog] = await Promise.all([
+    git.log({ fs, gitdir, ref: base }),
+    git.log({ fs, gitdir, ref: head })
+  ]);
+
+  const baseOids = new Set(baseLog.map(entry => entry.oid));
+  const headOids = new Set(headLog.map(entry => entry.oid));
+  const ahead = headLog.filter(entry => !baseOids.has(entry.oid)).reverse();
+  const behindBy = baseLog.filter(entry => !headOids.has(entry.oid)).length;
+
+  const status = ahead.length > 0 && behindBy > 0
+    ? 'diverged'
+    : ahead.length > 0 ? 'ahead' : behindBy > 0 ? 'behind' : 'identical';
+
+  return {
+    status,
+    aheadBy: ahead.length,
+    behindBy,
+    baseSha: base,
+    mergeBaseSha: mergeBaseSha ?? base,
+    commits: ahead.map(entry => ({
+      sha: entry.oid,
+      message: entry.commit.message,
+      author: entry.commit.author.name,
+      date: new Date(entry.commit.author.timestamp * 1000).toISOString()
+    })),
+    files: mergeBaseSha ? await listChangedFiles(gitdir, mergeBaseSha, head) : []
+  };
+};
+
+export const compareRemotes = (
+  source: GitRemote,
+  sourceRef: string,
+  target: GitRemote,
+  targetRef: string
+) => withTempRepo(async (gitdir) => {
+  const headSha = await fetchRef(gitdir, source, sourceRef, 'source');
+  const baseSha = await fetchRef(gitdir, target, targetRef, 'target');
+  return compareFetched(gitdir, baseSha, headSha);
+});
+
+export interface MergeCheck {
+  clean: boolean;
+  fastForward: boolean;
+  conflictingFiles: string[];
+}
+
+// Only used for the dry-run merge commit, which is never written
+const MERGE_AUTHOR = { name: 'git-operations', email: 'git-operations@localhost' };
+
+// Merges `sourceRef` into `targetRef` in memory to find the paths git cannot
+// merge automatically. Nothing is written to either remote.
+export const checkMerge = (
+  source: GitRemote,
+  sourceRef: string,
+  target: GitRemote,
+  targetRef: string
+) => withTempRepo(async (gitdir): Promise<MergeCheck> => {
+  const theirs = await fetchRef(gitdir, source, sourceRef, 'source');
+  const ours = await fetchRef(gitdir, target, targetRef, 'target');
+
+  try {
+    const result = await git.merge({
+      fs,
+      gitdir,
+      ours,
+      theirs,
+      dryRun: true,
+      noUpdateBranch: true,
+      author: MERGE_AUTHOR
+    });
+    return { clean: true, fastForward: !!(result.fastForward || result.alreadyMerged), conflictingFiles: [] };
+  } catch (error) {
+    if (error.code !== 'MergeConflictError') throw error;
+    return { clean: false, fastForward: false, conflictingFiles: error.data.filepaths };
+  }
+});
+
+export const deleteRemoteRef = async (remote: GitRemote, ref: string) => {
+  await withTempRepo(async (gitdir) => {
+    const result = await git.push({
+      fs,
+      http,
+      gitdir,
+      url: remote.url,
+      remoteRef: toFullRef(ref),
+      delete: true,
+      onAuth: authFor(remote)
+    });
+
+    if (!result.ok) {
+      throw new Error(`Deleting ${ref} was rejected: ${result.error ?? 'unknown error'}`);
+    }
+  });
+};
+
+// The oid git sends for a ref that does not exist
+const ZERO_OID = '0'.repeat(40);
+
+const leaseMismatch = (targetRef: string, expectedSha: string | null, actualSha: string | null) =>
+  new OperationError(
+    'lease_mismatch',
+    `Target ref ${targetRef} has moved since it was last synced ` +
+    `(expected ${expectedSha?.substring(0, 7) ?? 'none'}, ` +
+    `found ${actualSha?.substring(0, 7) ?? 'none'}). Refresh the repository and try again.`,
+    { expectedSha, actualSha }
+  );
+
+interface MirrorOptions {
+  source: GitRemote;
+  target: GitRemote;
+  refspecs: Refspec[];
+  pushType: string;
+  // Expected target SHA per target ref for force-with-lease
+  expectedShas?: Record<string, string | null>;
+}
+
+// Copies each source ref onto the target remote with push semantics:
+// regular only fast-forwards, force overwrites, force-with-lease overwrites
+// only when the target ref still points at the expected commit. Under
+// force-with-lease, refs without an expected SHA are only fast-forwarded.
+export const mirrorRefs = ({ source, target, refspecs, pushType, expectedShas = {} }: MirrorOptions) =>
+  withTempRepo(async (gitdir) => {
+    if (!PUSH_TYPES.includes(pushType)) {
+      throw new OperationError('invalid_request', `Unsupported push type: ${pushType}`);
+    }
+
+    const targetRefs = new Map(
+      (await listRemoteRefs(target)).map(({ ref, oid }) => [ref, oid])
+    );
+    const results: MirrorResult[] = [];
+
+    for (const { source: sourceRef, target: targetRef } of refspecs) {
+      const sha = await fetchRef(gitdir, source, sourceRef, 'source');
+      const previousSha = targetRefs.get(targetRef) ?? null;
+      const refPushType = pushType === 'force-with-lease' && !(targetRef in expectedShas)
+        ? 'regular'
+        : pushType;
+
+      if (refPushType === 'force-with-lease') {
+        const expectedSha = expectedShas[targetRef];
+        if (previousSha !== expectedSha) throw leaseMismatch(targetRef, expectedSha, previousSha);
+      }
+
+      if (refPushType === 'regular' && previousSha && previousSha !== sha) {
+        const isTag = targetRef.startsWith('refs/tags/');
+        await fetchRef(gitdir, target, targetRef, 'target');
+        const isFastForward = !isTag && await git.isDescendent({ fs, gitdir, oid: sha, ancestor: previousSha, depth: -1 });
+        if (!isFastForward) {
+          throw new OperationError('non_fast_forward', `Update of ${targetRef} is not a fast forward`);
+        }
+      }
+
+      if (previousSha !== sha) {
+        const localRef = `refs/mirror/${results.length}`;
+        await git.writeRef({ fs, gitdir, ref: localRef, value: sha, force: true });
+
+        const pushResult = await git.push({
+          fs,
+          http,
+          gitdir,
+          url: target.url,
+          ref: localRef,
+          remoteRef: targetRef,
+          force: refPushType !== 'regular',
+          onAuth: authFor(target),
+          // The push lists the target refs again and sends the oid it found
+          // as the ref's old value, which the server only accepts while the
+          // ref still has it. Refusing when that oid is not the one checked
+          // above keeps the lease and fast-forward checks valid up to the
+          // update itself.
+          onPrePush: ({ remoteRef }) => {
+            const currentSha = remoteRef.oid === ZERO_OID ? null : remoteRef.oid;
+            if (refPushType !== 'force' && currentSha !== previousSha) {
+              throw leaseMismatch(targetRef, previousSha, currentSha);
+            }
+            return true;
+          }
+        });
+
+        if (!pushResult.ok) {
+          throw new Error(`Push of ${targetRef} was rejected: ${pushResult.error ?? 'unknown error'}`);
+        }
+      }
+
+      console.log('Mirrored ref:', { sourceRef, targetRef, sha, previousSha });
+      results.push({ source: sourceRef, target: targetRef, sha, previousSha });
+    }
+
+    return results;
+  });
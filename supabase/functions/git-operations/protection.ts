@@ -0,0 +1,177 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { OperationError } from './errors.ts'
+import type { AllowedWindow, ProtectionRuleName } from '../_shared/operations.ts'
+
+export interface ProtectionRules {
+  block_force_push: boolean;
+  require_preview: boolean;
+  require_approval: boolean;
+  allowed_windows: AllowedWindow[];
+  timezone: string;
+}
+
+// A change into a protected repository, as far as the rules care
+export interface ProtectedChange {
+  callerId: string;
+  sourceRepoId: string;
+  targetRepoId: string;
+  targetRef: string;
+  sourceSha: string;
+  force: boolean;
+  previewId?: string;
+  // Set when an approved push request vouches for the change
+  approved?: boolean;
+  // Only read when the rules require a preview
+  getTargetSha: () => Promise<string>;
+  now?: Date;
+}
+
+// How long a preview vouches for a push
+const PREVIEW_TTL_MS = 15 * 60 * 1000;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const violation = (rule: ProtectionRuleName, message: string, details: Record<string, unknown> = {}) =>
+  new OperationError('rule_violation', message, { rule, ...details });
+
+export const loadProtectionRules = async (supabaseClient: SupabaseClient, repositoryId: string): Promise<ProtectionRules | null> => {
+  const { data, error } = await supabaseClient
+    .from('protection_rules')
+    .select('block_force_push, require_preview, require_approval, allowed_windows, timezone')
+    .eq('repository_id', repositoryId)
+    .single();
+
+  // .single() reports a missing row as PGRST116
+  if (error && error.code !== 'PGRST116') throw error;
+  return data ?? null;
+};
+
+// Day of the week (0 is Sunday) and minutes since midnight in the time zone
+const localTime = (now: Date, timeZone: string) => {
+  let parts: Record<string, string>;
+  try {
+    parts = Object.fromEntries(
+      new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+        .formatToParts(now)
+        .map(part => [part.type, part.value])
+    );
+  } catch {
+    throw new OperationError('not_configured', `Protection rules use an unknown time zone: ${timeZone}`);
+  }
+
+  return { day: WEEKDAYS.indexOf(parts.weekday), minutes: Number(parts.hour) * 60 + Number(parts.minute) };
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const isWithinWindows = (windows: AllowedWindow[], timeZone: string, now = new Date()) => {
+  if (windows.length === 0) return true;
+
+  const { day, minutes } = localTime(now, timeZone);
+  return windows.some(window => {
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+    if (start <= end) return window.days.includes(day) && minutes >= start && minutes < end;
+
+    // After midnight the window still belongs to the day it started on
+    return (window.days.includes(day) && minutes >= start) ||
+      (window.days.includes((day + 6) % 7) && minutes < end);
+  });
+};
+
+export const describeWindows = (windows: AllowedWindow[], timeZone: string) =>
+  windows
+    .map(window => `${window.days.map(day => WEEKDAYS[day]).join(', ')} ${window.start}-${window.end}`)
+    .join('; ') + ` (${timeZone})`;
+
+export const loadPreview = async (supabaseClient: SupabaseClient, previewId: string) => {
+  const { data, error } = await supabaseClient
+    .from('push_previews')
+    .select('*')
+    .eq('id', previewId)
+    .single();
+
+  // .single() reports a missing row as PGRST116
+  if (error && error.code !== 'PGRST116') throw error;
+  return data ?? null;
+};
+
+// A preview only vouches for the change when the caller made it for the same
+// branches in the last 15 minutes and neither branch has moved since
+const checkPreview = async (supabaseClient: SupabaseClient, change: ProtectedChange, now: Date) => {
+  if (!change.previewId) {
+    throw violation('require_preview', 'This repository requires previewing the change first. Preview it and try again.');
+  }
+
+  const preview = await loadPreview(supabaseClient, change.previewId);
+
+  const matches = preview &&
+    preview.created_by === change.callerId &&
+    preview.source_repository_id === change.sourceRepoId &&
+    preview.target_repository_id === change.targetRepoId &&
+    preview.target_branch === change.targetRef &&
+    now.getTime() - new Date(preview.created_at).getTime() < PREVIEW_TTL_MS;
+
+  if (!matches) {
+    throw violation('require_preview', 'The preview does not match this change or has expired. Preview it again.');
+  }
+
+  const targetSha = await change.getTargetSha();
+  if (preview.source_sha !== change.sourceSha || preview.target_sha !== targetSha) {
+    throw violation(
+      'require_preview',
+      'The branches have moved since the preview. Preview the change again.',
+      { expectedSha: preview.target_sha, actualSha: targetSha }
+    );
+  }
+};
+
+const checkWindows = (rules: ProtectionRules, now: Date) => {
+  if (!isWithinWindows(rules.allowed_windows, rules.timezone, now)) {
+    throw violation(
+      'allowed_windows',
+      `Changes to this repository are only allowed ${describeWindows(rules.allowed_windows, rules.timezone)}`
+    );
+  }
+};
+
+// Throws a rule_violation naming the first rule the change breaks. Approved
+// push requests were previewed when requested, so neither the preview nor
+// the approval rule applies to them again.
+export const enforceProtectionRules = async (
+  supabaseClient: SupabaseClient,
+  rules: ProtectionRules,
+  change: ProtectedChange
+) => {
+  const now = change.now ?? new Date();
+
+  if (rules.block_force_push && change.force) {
+    throw violation('block_force_push', 'Force pushes into this repository are blocked by its protection rules');
+  }
+
+  checkWindows(rules, now);
+
+  if (change.approved) return;
+
+  if (rules.require_preview) {
+    await checkPreview(supabaseClient, change, now);
+  }
+
+  if (rules.require_approval) {
+    throw violation('require_approval', 'Changes to this repository need an approved push request');
+  }
+};
+
+// Tag syncs never overwrite tags and cannot be previewed, and push requests
+// only cover branches. So the allowed windows apply, and repositories that
+// need approval refuse tag syncs altogether.
+export const enforceTagSyncRules = (rules: ProtectionRules, now = new Date()) => {
+  checkWindows(rules, now);
+
+  if (rules.require_approval) {
+    throw violation('require_approval', 'Changes to this repository need an approved push request, which cannot sync tags');
+  }
+};
@@ -0,0 +1,218 @@
+import { requestJson, toComparisonStatus } from './http.ts'
+import type { GitProvider, MergeStrategy, RepoLocation } from './types.ts'
+
+const API_URL = 'https://api.bitbucket.org/2.0';
+
+// Comparisons list at most this many commits, like GitHub's compare API
+const MAX_COMPARE_COMMITS = 250;
+
+const MERGE_STRATEGIES: Record<MergeStrategy, string> = {
+  merge: 'merge_commit',
+  squash: 'squash',
+  rebase: 'rebase_fast_forward'
+};
+
+interface BitbucketPage<T> {
+  values: T[];
+  next?: string;
+}
+
+interface BitbucketCommit {
+  hash: string;
+  message: string;
+  date?: string;
+  author?: { raw?: string; user?: { display_name?: string } };
+}
+
+interface BitbucketBranch {
+  name: string;
+  target: { hash: string };
+}
+
+interface BitbucketDiffStat {
+  status: string;
+  lines_added: number;
+  lines_removed: number;
+  old?: { path: string };
+  new?: { path: string };
+}
+
+export const createBitbucketProvider = (username: string, appPassword: string): GitProvider => {
+  const authorization = `Basic ${btoa(`${username}:${appPassword}`)}`;
+
+  const repoUrl = (location: RepoLocation) =>
+    `${API_URL}/repositories/${encodeURIComponent(location.owner)}/${encodeURIComponent(location.repo)}`;
+
+  const request = <T>(url: string, init: RequestInit = {}) =>
+    requestJson<T>(url, { ...init, headers: { 'Authorization': authorization, ...init.headers } });
+
+  const collect = async <T>(url: string, limit = Infinity) => {
+    const values: T[] = [];
+    let next: string | undefined = url;
+    while (next && values.length < limit) {
+      const page: BitbucketPage<T> = await request<BitbucketPage<T>>(next);
+      values.push(...page.values);
+      next = page.next;
+    }
+    return values.slice(0, limit);
+  };
+
+  const toCommitInfo = (commit: BitbucketCommit) => ({
+    sha: commit.hash,
+    message: commit.message,
+    author: commit.author?.user?.display_name ?? commit.author?.raw,
+    date: commit.date
+  });
+
+  // Commits reachable from `include` but not from `exclude`
+  const listCommitsBetween = (location: RepoLocation, exclude: string, include: string) =>
+    collect<BitbucketCommit>(
+      `${repoUrl(location)}/commits?include=${encodeURIComponent(include)}&exclude=${encodeURIComponent(exclude)}&pagelen=100`,
+      MAX_COMPARE_COMMITS
+    );
+
+  const deleteBranch = (location: RepoLocation, branch: string) =>
+    request(`${repoUrl(location)}/refs/branches/${encodeURIComponent(branch)}`, { method: 'DELETE' });
+
+  const createBranch = (location: RepoLocation, branch: string, sha: string) =>
+    request<BitbucketBranch>(`${repoUrl(location)}/refs/branches`, {
+      method: 'POST',
+      body: JSON.stringify({ name: branch, target: { hash: sha } })
+    });
+
+  return {
+    async getRepoInfo(location) {
+      const repo = await request<{ mainbranch: { name: string }; links: { html: { href: string } } }>(repoUrl(location));
+      return { defaultBranch: repo.mainbranch.name, htmlUrl: repo.links.html.href };
+    },
+
+    async listBranches(location) {
+      const branches = await collect<BitbucketBranch>(`${repoUrl(location)}/refs/branches?pagelen=100`);
+      return branches.map(branch => ({ name: branch.name, sha: branch.target.hash }));
+    },
+
+    async getBranch(location, branch) {
+      const data = await request<BitbucketBranch>(`${repoUrl(location)}/refs/branches/${encodeURIComponent(branch)}`);
+      return { name: data.name, sha: data.target.hash };
+    },
+
+    async getCommit(location, ref) {
+      const commit = await request<BitbucketCommit>(`${repoUrl(location)}/commit/${encodeURIComponent(ref)}`);
+      return toCommitInfo(commit);
+    },
+
+    async compare(location, base, head) {
+      const [ahead, behind, baseCommit, mergeBase, diffStat] = await Promise.all([
+        listCommitsBetween(location, base, head),
+        listCommitsBetween(location, head, base),
+        request<BitbucketCommit>(`${repoUrl(location)}/commit/${encodeURIComponent(base)}`),
+        request<BitbucketCommit>(`${repoUrl(location)}/merge-base/${encodeURIComponent(`${base}..${head}`)}`),
+        collect<BitbucketDiffStat>(`${repoUrl(location)}/diffstat/${encodeURIComponent(`${head}..${base}`)}?pagelen=500`)
+      ]);
+
+      return {
+        status: toComparisonStatus(ahead.length, behind.length),
+        aheadBy: ahead.length,
+        behindBy: behind.length,
+        baseSha: baseCommit.hash,
+        mergeBaseSha: mergeBase.hash,
+        // Bitbucket lists newest first; every other provider lists oldest first
+        commits: ahead.map(toCommitInfo).reverse(),
+        files: diffStat.map(stat => ({
+          filename: stat.new?.path ?? stat.old?.path ?? '',
+          status: stat.status,
+          additions: stat.lines_added,
+          deletions: stat.lines_removed
+        })),
+        htmlUrl: `https://bitbucket.org/${location.owner}/${location.repo}/branches/compare/${head}%0D${base}`
+      };
+    },
+
+    async createBranch(location, branch, sha) {
+      const created = await createBranch(location, branch, sha);
+      return { sha: created.target.hash };
+    },
+
+    async createPullRequest(location, pullRequest) {
+      const pull = await request<{ id: number; title: string; links: { html: { href: string } } }>(
+        `${repoUrl(location)}/pullrequests`,
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            title: pullRequest.title,
+            description: pullRequest.body,
+            source: { branch: { name: pullRequest.head } },
+            destination: { branch: { name: pullRequest.base } }
+          })
+        }
+      );
+
+      return {
+        number: pull.id,
+        url: pull.links.html.href,
+        title: pull.title,
+        state: 'open',
+        reviewStatus: 'pending',
+        checkStatus: 'none'
+      };
+    },
+
+    async getPullRequest(location, number) {
+      const [pull, statuses] = await Promise.all([
+        request<{
+          id: number;
+          title: string;
+          state: string;
+          links: { html: { href: string } };
+          participants: { approved: boolean; state?: string | null }[];
+        }>(`${repoUrl(location)}/pullrequests/${number}`),
+        collect<{ state: string }>(`${repoUrl(location)}/pullrequests/${number}/statuses?pagelen=100`)
+      ]);
+
+      return {
+        number: pull.id,
+        url: pull.links.html.href,
+        title: pull.title,
+        state: pull.state === 'MERGED' ? 'merged' : pull.state === 'OPEN' ? 'open' : 'closed',
+        reviewStatus: pull.participants.some(participant => participant.state === 'changes_requested')
+          ? 'changes_requested'
+          : pull.participants.some(participant => participant.approved) ? 'approved' : 'pending',
+        checkStatus: statuses.length === 0
+          ? 'none'
+          : statuses.some(status => ['FAILED', 'STOPPED'].includes(status.state))
+            ? 'failure'
+            : statuses.some(status => status.state === 'INPROGRESS') ? 'pending' : 'success'
+      };
+    },
+
+    async merge(location, base, head, message, strategy) {
+      // Merges go through a short-lived pull request from a temporary branch
+      const tempBranch = `git-operations/merge-${Date.now()}`;
+      await createBranch(location, tempBranch, head);
+
+      try {
+        const pull = await request<{ id: number }>(`${repoUrl(location)}/pullrequests`, {
+          method: 'POST',
+          body: JSON.stringify({
+            title: message.split('\n')[0],
+            source: { branch: { name: tempBranch } },
+            destination: { branch: { name: base } },
+            close_source_branch: true
+          })
+        });
+
+        const merged = await request<{ merge_commit: { hash: string } }>(
+          `${repoUrl(location)}/pullrequests/${pull.id}/merge`,
+          {
+            method: 'POST',
+            body: JSON.stringify({ message, merge_strategy: MERGE_STRATEGIES[strategy] })
+          }
+        );
+
+        return { sha: merged.merge_commit.hash };
+      } finally {
+        await deleteBranch(location, tempBranch).catch(() => undefined);
+      }
+    }
+  };
+};
@@ -0,0 +1,87 @@
+import {
+  compareFetched,
+  fetchRef,
+  getRemoteDefaultBranch,
+  listRemoteRefs,
+  mirrorRefs,
+  readCommitInfo,
+  toFullRef,
+  withTempRepo,
+  type GitRemote
+} from '../mirror.ts'
+import { OperationError } from '../errors.ts'
+import type { GitProvider } from './types.ts'
+
+// Provider for remotes that only speak the git smart HTTP protocol. Reads go
+// through ref advertisement and throwaway fetches instead of a REST API.
+export const createGitRemoteProvider = (url: string, auth?: GitRemote['auth']): GitProvider => {
+  const remote: GitRemote = { url, auth };
+
+  // Only refs can be fetched, so commit SHAs are mapped to the branch they
+  // are the tip of
+  const resolveRef = async (ref: string) => {
+    if (!/^[0-9a-f]{40}$/.test(ref)) return ref;
+
+    const source = (await listRemoteRefs(remote, 'refs/heads/')).find(({ oid }) => oid === ref);
+    if (!source) throw new OperationError('not_found', `Commit ${ref} is not the tip of any branch`);
+    return source.ref;
+  };
+
+  return {
+    async getRepoInfo() {
+      return { defaultBranch: await getRemoteDefaultBranch(remote) };
+    },
+
+    async listBranches() {
+      const refs = await listRemoteRefs(remote, 'refs/heads/');
+      return refs.map(({ ref, oid }) => ({ name: ref.replace('refs/heads/', ''), sha: oid }));
+    },
+
+    async getBranch(_location, branch) {
+      const refs = await listRemoteRefs(remote, toFullRef(branch));
+      const match = refs.find(({ ref }) => ref === toFullRef(branch));
+      if (!match) throw new OperationError('not_found', `Branch ${branch} not found`);
+      return { name: branch, sha: match.oid };
+    },
+
+    getCommit(_location, ref) {
+      return withTempRepo(async (gitdir) => {
+        const oid = await fetchRef(gitdir, remote, await resolveRef(ref), 'origin', 1);
+        return readCommitInfo(gitdir, oid);
+      });
+    },
+
+    compare(_location, base, head) {
+      return withTempRepo(async (gitdir) => {
+        const baseSha = await fetchRef(gitdir, remote, await resolveRef(base), 'base');
+        const headSha = await fetchRef(gitdir, remote, await resolveRef(head), 'head');
+        return compareFetched(gitdir, baseSha, headSha);
+      });
+    },
+
+    async createBranch(_location, branch, sha) {
+      await mirrorRefs({
+        source: remote,
+        target: remote,
+        refspecs: [{ source: await resolveRef(sha), target: toFullRef(branch) }],
+        pushType: 'regular'
+      });
+      return { sha };
+    },
+
+    async updateRef(_location, branch, sha, force) {
+      // Ref updates within one remote are pushes from the remote to itself
+      await mirrorRefs({
+        source: remote,
+        target: remote,
+        refspecs: [{ source: await resolveRef(sha), target: toFullRef(branch) }],
+        pushType: force ? 'force' : 'regular'
+      });
+      return { sha };
+    },
+
+    merge() {
+      return Promise.reject(new OperationError('unsupported', 'Merging is not supported for plain git remotes'));
+    }
+  };
+};
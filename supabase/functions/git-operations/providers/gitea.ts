@@ -0,0 +1,195 @@
+import { requestJson, rethrowMergeConflict, toComparisonStatus } from './http.ts'
+import type { GitProvider, RepoLocation } from './types.ts'
+
+interface GiteaCommit {
+  sha: string;
+  parents?: { sha: string }[];
+  commit: {
+    message: string;
+    author?: { name?: string; date?: string };
+  };
+}
+
+interface GiteaBranch {
+  name: string;
+  protected: boolean;
+  commit: { id: string };
+}
+
+interface GiteaComparison {
+  total_commits: number;
+  commits: GiteaCommit[];
+  files?: { filename: string; status: string; additions: number; deletions: number }[];
+}
+
+export const createGiteaProvider = (token: string, host: string): GitProvider => {
+  const repoUrl = (location: RepoLocation) =>
+    `https://${host}/api/v1/repos/${encodeURIComponent(location.owner)}/${encodeURIComponent(location.repo)}`;
+
+  const request = <T>(url: string, init: RequestInit = {}) =>
+    requestJson<T>(url, { ...init, headers: { 'Authorization': `token ${token}`, ...init.headers } });
+
+  const toCommitInfo = (commit: GiteaCommit) => ({
+    sha: commit.sha,
+    message: commit.commit.message,
+    author: commit.commit.author?.name,
+    date: commit.commit.author?.date
+  });
+
+  const compareRefs = (location: RepoLocation, base: string, head: string) =>
+    request<GiteaComparison>(`${repoUrl(location)}/compare/${encodeURIComponent(base)}...${encodeURIComponent(head)}`);
+
+  const getCommit = (location: RepoLocation, ref: string) =>
+    request<GiteaCommit>(`${repoUrl(location)}/git/commits/${encodeURIComponent(ref)}`);
+
+  const deleteBranch = (location: RepoLocation, branch: string) =>
+    request(`${repoUrl(location)}/branches/${encodeURIComponent(branch)}`, { method: 'DELETE' });
+
+  const createBranch = (location: RepoLocation, branch: string, ref: string) =>
+    request<GiteaBranch>(`${repoUrl(location)}/branches`, {
+      method: 'POST',
+      body: JSON.stringify({ new_branch_name: branch, old_ref_name: ref })
+    });
+
+  return {
+    async getRepoInfo(location) {
+      const repo = await request<{ default_branch: string; html_url: string }>(repoUrl(location));
+      return { defaultBranch: repo.default_branch, htmlUrl: repo.html_url };
+    },
+
+    async listBranches(location) {
+      const branches: GiteaBranch[] = [];
+      for (let page = 1; ; page++) {
+        const batch = await request<GiteaBranch[]>(`${repoUrl(location)}/branches?limit=50&page=${page}`);
+        branches.push(...batch);
+        if (batch.length < 50) break;
+      }
+
+      return branches.map(branch => ({
+        name: branch.name,
+        sha: branch.commit.id,
+        protected: branch.protected
+      }));
+    },
+
+    async getBranch(location, branch) {
+      const data = await request<GiteaBranch>(`${repoUrl(location)}/branches/${encodeURIComponent(branch)}`);
+      return { name: data.name, sha: data.commit.id, protected: data.protected };
+    },
+
+    async getCommit(location, ref) {
+      return toCommitInfo(await getCommit(location, ref));
+    },
+
+    async compare(location, base, head) {
+      const [ahead, behind, baseCommit, headCommit] = await Promise.all([
+        compareRefs(location, base, head),
+        compareRefs(location, head, base),
+        getCommit(location, base),
+        getCommit(location, head)
+      ]);
+
+      // Gitea does not report the merge base; the parent of the oldest commit
+      // only reachable from head is the closest common ancestor
+      const mergeBaseSha = ahead.total_commits === 0
+        ? headCommit.sha
+        : behind.total_commits === 0
+          ? baseCommit.sha
+          : ahead.commits[0]?.parents?.[0]?.sha ?? baseCommit.sha;
+
+      return {
+        status: toComparisonStatus(ahead.total_commits, behind.total_commits),
+        aheadBy: ahead.total_commits,
+        behindBy: behind.total_commits,
+        baseSha: baseCommit.sha,
+        mergeBaseSha,
+        commits: ahead.commits.map(toCommitInfo),
+        files: ahead.files || [],
+        htmlUrl: `https://${host}/${location.owner}/${location.repo}/compare/${base}...${head}`
+      };
+    },
+
+    async createBranch(location, branch, sha) {
+      const created = await createBranch(location, branch, sha);
+      return { sha: created.commit.id };
+    },
+
+    async createPullRequest(location, pullRequest) {
+      const pull = await request<{ number: number; html_url: string; title: string }>(`${repoUrl(location)}/pulls`, {
+        method: 'POST',
+        body: JSON.stringify(pullRequest)
+      });
+
+      return {
+        number: pull.number,
+        url: pull.html_url,
+        title: pull.title,
+        state: 'open',
+        reviewStatus: 'pending',
+        checkStatus: 'none'
+      };
+    },
+
+    async getPullRequest(location, number) {
+      const pull = await request<{
+        number: number;
+        html_url: string;
+        title: string;
+        state: string;
+        merged: boolean;
+        head: { sha: string };
+      }>(`${repoUrl(location)}/pulls/${number}`);
+
+      const [reviews, status] = await Promise.all([
+        request<{ state: string; user?: { login: string } }[]>(`${repoUrl(location)}/pulls/${number}/reviews`),
+        request<{ state: string; total_count: number }>(`${repoUrl(location)}/commits/${pull.head.sha}/status`)
+      ]);
+
+      // Only each reviewer's latest verdict counts
+      const verdicts = new Map<string, string>();
+      for (const review of reviews) {
+        if (review.state === 'APPROVED' || review.state === 'REQUEST_CHANGES') {
+          verdicts.set(review.user?.login ?? '', review.state);
+        }
+      }
+
+      return {
+        number: pull.number,
+        url: pull.html_url,
+        title: pull.title,
+        state: pull.merged ? 'merged' : pull.state === 'open' ? 'open' : 'closed',
+        reviewStatus: [...verdicts.values()].includes('REQUEST_CHANGES')
+          ? 'changes_requested'
+          : verdicts.size > 0 ? 'approved' : 'pending',
+        checkStatus: status.total_count === 0
+          ? 'none'
+          : status.state === 'success'
+            ? 'success'
+            : ['failure', 'error'].includes(status.state) ? 'failure' : 'pending'
+      };
+    },
+
+    async merge(location, base, head, message, strategy) {
+      // Merges go through a short-lived pull request from a temporary branch
+      const tempBranch = `git-operations/merge-${Date.now()}`;
+      await createBranch(location, tempBranch, head);
+
+      try {
+        const pull = await request<{ number: number }>(`${repoUrl(location)}/pulls`, {
+          method: 'POST',
+          body: JSON.stringify({ head: tempBranch, base, title: message.split('\n')[0] })
+        });
+
+        await request(`${repoUrl(location)}/pulls/${pull.number}/merge`, {
+          method: 'POST',
+          body: JSON.stringify({ Do: strategy, MergeMessageField: message })
+        }).catch(error => rethrowMergeConflict(error, [405]));
+
+        const merged = await request<{ merge_commit_sha: string }>(`${repoUrl(location)}/pulls/${pull.number}`);
+        return { sha: merged.merge_commit_sha };
+      } finally {
+        await deleteBranch(location, tempBranch).catch(() => undefined);
+      }
+    }
+  };
+};
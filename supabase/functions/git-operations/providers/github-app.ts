@@ -0,0 +1,158 @@
+import { OperationError } from '../errors.ts'
+import { requestJson } from './http.ts'
+import type { ProviderCredential, RepoLocation } from './types.ts'
+
+// Authenticates as a GitHub App: a JWT signed with the app's private key is
+// exchanged for an installation token of the account owning the repository.
+// The installation token is then used like a personal access token, so API
+// calls and git pushes are attributed to the app.
+
+interface CachedToken {
+  token: string;
+  expiresAt: number;
+}
+
+// Installation tokens live for an hour; they are replaced a few minutes early
+// so a long operation never runs with an expired one
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+const installationTokens = new Map<string, CachedToken>();
+
+export const getGitHubApiUrl = (host: string) =>
+  host === 'github.com' ? 'https://api.github.com' : `https://${host}/api/v3`;
+
+const base64Url = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+const encodeJson = (value: unknown) => base64Url(new TextEncoder().encode(JSON.stringify(value)));
+
+const derLength = (length: number) => length < 0x80
+  ? [length]
+  : length < 0x100 ? [0x81, length] : [0x82, length >> 8, length & 0xff];
+
+// GitHub hands out PKCS#1 keys ("BEGIN RSA PRIVATE KEY") but WebCrypto only
+// imports PKCS#8, so the key is wrapped in a PrivateKeyInfo structure
+const wrapPkcs1 = (pkcs1: Uint8Array) => {
+  const version = [0x02, 0x01, 0x00];
+  const rsaEncryption = [0x30, 0x0d, 0x06, 0x09, 0x2a, 0x86, 0x48, 0x86, 0xf7, 0x0d, 0x01, 0x01, 0x01, 0x05, 0x00];
+  const octetString = [0x04, ...derLength(pkcs1.length)];
+  const length = version.length + rsaEncryption.length + octetString.length + pkcs1.length;
+
+  return new Uint8Array([0x30, ...derLength(length), ...version, ...rsaEncryption, ...octetString, ...pkcs1]);
+};
+
+const importPrivateKey = (pem: string) => {
+  // Keys pasted into environment secrets often carry escaped newlines
+  const normalized = pem.replace(/\\n/g, '\n');
+  const body = normalized.replace(/-----(BEGIN|END) [A-Z ]+-----/g, '').replace(/\s+/g, '');
+
+  let der: Uint8Array;
+  try {
+    der = Uint8Array.from(atob(body), char => char.charCodeAt(0));
+  } catch {
+    throw new OperationError('not_configured', 'GitHub App private key is not a valid PEM key');
+  }
+
+  return crypto.subtle.importKey(
+    'pkcs8',
+    normalized.includes('BEGIN RSA PRIVATE KEY') ? wrapPkcs1(der) : der,
+    { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+    false,
+    ['sign']
+  ).catch(() => {
+    throw new OperationError('not_configured', 'GitHub App private key could not be imported');
+  });
+};
+
+// App JWTs may live at most ten minutes; iat is backdated for clock drift
+export const createAppJwt = async (appId: string, privateKey: string) => {
+  const now = Math.floor(Date.now() / 1000);
+  const unsigned = `${encodeJson({ alg: 'RS256', typ: 'JWT' })}.${encodeJson({ iat: now - 60, exp: now + 540, iss: appId })}`;
+
+  const signature = await crypto.subtle.sign(
+    'RSASSA-PKCS1-v1_5',
+    await importPrivateKey(privateKey),
+    new TextEncoder().encode(unsigned)
+  );
+
+  return `${unsigned}.${base64Url(new Uint8Array(signature))}`;
+};
+
+// Installations belong to an account, so one token serves every repository
+// of the owner and is cached per app, host and owner
+export const getInstallationToken = async (
+  appId: string,
+  privateKey: string,
+  location: RepoLocation,
+  apiUrl = getGitHubApiUrl(location.host)
+) => {
+  const cacheKey = `${apiUrl}|${appId}|${location.owner.toLowerCase()}`;
+  const cached = installationTokens.get(cacheKey);
+  if (cached && cached.expiresAt - REFRESH_MARGIN_MS > Date.now()) return cached.token;
+
+  const headers = {
+    'Accept': 'application/vnd.github+json',
+    'Authorization': `Bearer ${await createAppJwt(appId, privateKey)}`
+  };
+
+  // Owner-wide requests, such as listing repositories, have no repository
+  // and look the installation up by organization, then by user
+  const installationPaths = location.repo
+    ? [`/repos/${location.owner}/${location.repo}/installation`]
+    : [`/orgs/${location.owner}/installation`, `/users/${location.owner}/installation`];
+
+  let installation: { id: number } | null = null;
+  for (const path of installationPaths) {
+    installation = await requestJson<{ id: number }>(`${apiUrl}${path}`, { headers }).catch(error => {
+      if (error?.status === 404) return null;
+      throw error;
+    });
+    if (installation) break;
+  }
+
+  if (!installation) {
+    const target = location.repo ? `${location.owner}/${location.repo}` : location.owner;
+    throw new OperationError('auth_failed', `GitHub App ${appId} is not installed for ${target}`);
+  }
+
+  const { token, expires_at } = await requestJson<{ token: string; expires_at: string }>(
+    `${apiUrl}/app/installations/${installation.id}/access_tokens`,
+    { method: 'POST', headers }
+  );
+
+  console.log('Issued GitHub App installation token:', { appId, owner: location.owner, expiresAt: expires_at });
+
+  installationTokens.set(cacheKey, { token, expiresAt: new Date(expires_at).getTime() });
+  return token;
+};
+
+// The function-wide app from GITHUB_APP_ID / GITHUB_APP_PRIVATE_KEY, used for
+// GitHub repositories without a stored credential. The app is registered on
+// one instance, github.com unless GITHUB_APP_HOST names another, and its JWT
+// is never sent to any other host.
+export const getEnvironmentGitHubApp = (location: RepoLocation): ProviderCredential | null => {
+  const host = Deno.env.get('GITHUB_APP_HOST') || 'github.com';
+  if (location.provider !== 'github' || location.host.toLowerCase() !== host.toLowerCase()) return null;
+
+  const appId = Deno.env.get('GITHUB_APP_ID');
+  const privateKey = Deno.env.get('GITHUB_APP_PRIVATE_KEY');
+  return appId && privateKey ? { kind: 'github_app', appId, username: null, secret: privateKey } : null;
+};
+
+// Swaps an app credential for a token credential holding an installation
+// token, which every provider and git remote accepts
+export const resolveGitHubAppCredential = async (credential: ProviderCredential, location: RepoLocation): Promise<ProviderCredential> => {
+  if (location.provider !== 'github') {
+    throw new OperationError('invalid_request', 'GitHub App credentials only work for GitHub repositories');
+  }
+  if (!credential.appId) {
+    throw new OperationError('not_configured', 'GitHub App credential has no app ID');
+  }
+
+  return {
+    kind: 'token',
+    appId: null,
+    username: 'x-access-token',
+    secret: await getInstallationToken(credential.appId, credential.secret, location)
+  };
+};
@@ -0,0 +1,310 @@
+import { Octokit } from 'https://esm.sh/octokit'
+import { rethrowMergeConflict } from './http.ts'
+import type { GitProvider, RepoLocation } from './types.ts'
+
+// Octokit settings a caller may override, e.g. to talk to a mock API server
+export interface GitHubClientOptions {
+  baseUrl?: string;
+  retry?: { enabled: boolean };
+  throttle?: { enabled: boolean };
+}
+
+const OWNER_REPOS_PER_PAGE = 100;
+
+export const createGitHubProvider = (token: string, host = 'github.com', options: GitHubClientOptions = {}): GitProvider => {
+  const octokit = new Octokit({
+    auth: token,
+    // GitHub Enterprise Server serves its API under /api/v3
+    ...(host !== 'github.com' ? { baseUrl: `https://${host}/api/v3` } : {}),
+    ...options
+  });
+
+  const repoParams = (location: RepoLocation) => ({
+    owner: location.owner,
+    repo: location.repo
+  });
+
+  return {
+    async getRepoInfo(location) {
+      const { data } = await octokit.rest.repos.get(repoParams(location));
+      return { defaultBranch: data.default_branch, htmlUrl: data.html_url };
+    },
+
+    async listBranches(location) {
+      const branches = await octokit.paginate(octokit.rest.repos.listBranches, {
+        ...repoParams(location),
+        per_page: 100
+      });
+
+      return branches.map(branch => ({
+        name: branch.name,
+        sha: branch.commit.sha,
+        protected: branch.protected
+      }));
+    },
+
+    async getBranch(location, branch) {
+      const { data } = await octokit.rest.repos.getBranch({
+        ...repoParams(location),
+        branch
+      });
+
+      return { name: data.name, sha: data.commit.sha, protected: data.protected };
+    },
+
+    async getCommit(location, ref) {
+      const { data } = await octokit.rest.repos.getCommit({
+        ...repoParams(location),
+        ref
+      });
+
+      return {
+        sha: data.sha,
+        message: data.commit.message,
+        author: data.commit.author?.name,
+        date: data.commit.author?.date
+      };
+    },
+
+    async compare(location, base, head) {
+      const { data } = await octokit.rest.repos.compareCommitsWithBasehead({
+        ...repoParams(location),
+        basehead: `${base}...${head}`
+      });
+
+      return {
+        status: data.status,
+        aheadBy: data.ahead_by,
+        behindBy: data.behind_by,
+        baseSha: data.base_commit.sha,
+        mergeBaseSha: data.merge_base_commit.sha,
+        commits: data.commits.map(commit => ({
+          sha: commit.sha,
+          message: commit.commit.message,
+          author: commit.commit.author?.name,
+          date: commit.commit.author?.date
+        })),
+        files: (data.files || []).map(file => ({
+          filename: file.filename,
+          status: file.status,
+          additions: file.additions,
+          deletions: file.deletions
+        })),
+        htmlUrl: data.html_url
+      };
+    },
+
+    async createBranch(location, branch, sha) {
+      const { data } = await octokit.rest.git.createRef({
+        ...repoParams(location),
+        ref: `refs/heads/${branch}`,
+        sha
+      });
+
+      return { sha: data.object.sha };
+    },
+
+    async updateRef(location, branch, sha, force) {
+      // GitHub rejects non-forced updates that are not fast-forwards
+      const { data } = await octokit.rest.git.updateRef({
+        ...repoParams(location),
+        ref: `heads/${branch}`,
+        sha,
+        force
+      });
+
+      return { sha: data.object.sha };
+    },
+
+    async merge(location, base, head, message, strategy) {
+      if (strategy === 'merge') {
+        const { data } = await octokit.rest.repos.merge({
+          ...repoParams(location),
+          base,
+          head,
+          commit_message: message
+        });
+
+        // GitHub answers 204 without a body when base already contains head
+        return { sha: data?.sha ?? head };
+      }
+
+      // Squash and rebase are only offered for pull requests, so they go
+      // through a short-lived one from a temporary branch
+      const tempBranch = `git-operations/merge-${Date.now()}`;
+      await octokit.rest.git.createRef({ ...repoParams(location), ref: `refs/heads/${tempBranch}`, sha: head });
+
+      try {
+        const [title, ...body] = message.split('\n');
+        const { data: pull } = await octokit.rest.pulls.create({
+          ...repoParams(location),
+          head: tempBranch,
+          base,
+          title
+        });
+
+        const { data } = await octokit.rest.pulls.merge({
+          ...repoParams(location),
+          pull_number: pull.number,
+          merge_method: strategy,
+          commit_title: title,
+          commit_message: body.join('\n').trim() || undefined
+        }).catch(error => rethrowMergeConflict(error, [405]));
+
+        return { sha: data.sha };
+      } finally {
+        await octokit.rest.git.deleteRef({ ...repoParams(location), ref: `heads/${tempBranch}` }).catch(() => undefined);
+      }
+    },
+
+    async createPullRequest(location, pullRequest) {
+      const { data } = await octokit.rest.pulls.create({
+        ...repoParams(location),
+        ...pullRequest
+      });
+
+      return {
+        number: data.number,
+        url: data.html_url,
+        title: data.title,
+        state: 'open',
+        reviewStatus: 'pending',
+        checkStatus: 'none'
+      };
+    },
+
+    async getPullRequest(location, number) {
+      const { data: pull } = await octokit.rest.pulls.get({
+        ...repoParams(location),
+        pull_number: number
+      });
+
+      const reviews = await octokit.paginate(octokit.rest.pulls.listReviews, {
+        ...repoParams(location),
+        pull_number: number,
+        per_page: 100
+      });
+
+      // Only each reviewer's latest verdict counts
+      const verdicts = new Map<string, string>();
+      for (const review of reviews) {
+        if (review.state === 'APPROVED' || review.state === 'CHANGES_REQUESTED') {
+          verdicts.set(review.user?.login ?? String(review.id), review.state);
+        }
+      }
+
+      const { data: checks } = await octokit.rest.checks.listForRef({
+        ...repoParams(location),
+        ref: pull.head.sha,
+        per_page: 100
+      });
+
+      const runs = checks.check_runs;
+      const checkStatus = runs.length === 0
+        ? 'none'
+        : runs.some(run => ['failure', 'cancelled', 'timed_out', 'action_required'].includes(run.conclusion ?? ''))
+          ? 'failure'
+          : runs.some(run => run.status !== 'completed') ? 'pending' : 'success';
+
+      return {
+        number: pull.number,
+        url: pull.html_url,
+        title: pull.title,
+        state: pull.merged ? 'merged' : pull.state,
+        reviewStatus: [...verdicts.values()].includes('CHANGES_REQUESTED')
+          ? 'changes_requested'
+          : verdicts.size > 0 ? 'approved' : 'pending',
+        checkStatus
+      };
+    },
+
+    async listReleases(location) {
+      const releases = await octokit.paginate(octokit.rest.repos.listReleases, {
+        ...repoParams(location),
+        per_page: 100
+      });
+
+      return releases.map(release => ({
+        id: release.id,
+        tagName: release.tag_name,
+        name: release.name,
+        body: release.body,
+        draft: release.draft,
+        prerelease: release.prerelease,
+        assets: release.assets.map(asset => ({
+          id: asset.id,
+          name: asset.name,
+          contentType: asset.content_type,
+          size: asset.size
+        }))
+      }));
+    },
+
+    async createRelease(location, release) {
+      const { data } = await octokit.rest.repos.createRelease({
+        ...repoParams(location),
+        tag_name: release.tagName,
+        name: release.name ?? undefined,
+        body: release.body ?? undefined,
+        draft: release.draft,
+        prerelease: release.prerelease
+      });
+
+      return { id: data.id };
+    },
+
+    async downloadReleaseAsset(location, assetId) {
+      const { data } = await octokit.rest.repos.getReleaseAsset({
+        ...repoParams(location),
+        asset_id: assetId,
+        headers: { accept: 'application/octet-stream' }
+      });
+
+      return data as unknown as ArrayBuffer;
+    },
+
+    async uploadReleaseAsset(location, releaseId, asset, data) {
+      await octokit.rest.repos.uploadReleaseAsset({
+        ...repoParams(location),
+        release_id: releaseId,
+        name: asset.name,
+        // Octokit passes binary bodies through untouched
+        data: data as unknown as string,
+        headers: {
+          'content-type': asset.contentType,
+          'content-length': asset.size
+        }
+      });
+    },
+
+    // Organizations list their private repositories to members. Users only
+    // list public ones, as GitHub has no listing of another user's private
+    // repositories.
+    async listOwnerRepos(location, page) {
+      const params = { per_page: OWNER_REPOS_PER_PAGE, page };
+      let repos;
+
+      try {
+        ({ data: repos } = await octokit.rest.repos.listForOrg({ org: location.owner, type: 'all', ...params }));
+      } catch (error) {
+        if ((error as { status?: number })?.status !== 404) throw error;
+        ({ data: repos } = await octokit.rest.repos.listForUser({ username: location.owner, type: 'owner', ...params }));
+      }
+
+      return {
+        repositories: repos.map(repo => ({
+          name: repo.name,
+          url: repo.clone_url ?? repo.html_url,
+          htmlUrl: repo.html_url,
+          description: repo.description ?? null,
+          defaultBranch: repo.default_branch ?? 'main',
+          private: repo.private,
+          archived: !!repo.archived,
+          fork: repo.fork,
+          pushedAt: repo.pushed_at ?? null
+        })),
+        hasMore: repos.length === OWNER_REPOS_PER_PAGE
+      };
+    }
+  };
+};
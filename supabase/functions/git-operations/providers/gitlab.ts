@@ -0,0 +1,249 @@
+import { ProviderRequestError, requestJson, rethrowMergeConflict, toComparisonStatus } from './http.ts'
+import type { GitProvider, RepoLocation } from './types.ts'
+
+interface GitLabCommit {
+  id: string;
+  message: string;
+  author_name?: string;
+  authored_date?: string;
+}
+
+interface GitLabBranch {
+  name: string;
+  protected: boolean;
+  commit: GitLabCommit;
+}
+
+interface GitLabDiff {
+  new_path: string;
+  new_file: boolean;
+  deleted_file: boolean;
+  renamed_file: boolean;
+  diff: string;
+}
+
+interface GitLabComparison {
+  commits: GitLabCommit[];
+  diffs: GitLabDiff[];
+}
+
+const REBASE_POLL_ATTEMPTS = 30;
+
+const countDiffLines = (diff: string, marker: '+' | '-') =>
+  diff.split('\n').filter(line => line.startsWith(marker) && !line.startsWith(marker.repeat(3))).length;
+
+export const createGitLabProvider = (token: string, host = 'gitlab.com'): GitProvider => {
+  const projectUrl = (location: RepoLocation) =>
+    `https://${host}/api/v4/projects/${encodeURIComponent(`${location.owner}/${location.repo}`)}`;
+
+  const request = <T>(url: string, init: RequestInit = {}) =>
+    requestJson<T>(url, { ...init, headers: { 'PRIVATE-TOKEN': token, ...init.headers } });
+
+  const toCommitInfo = (commit: GitLabCommit) => ({
+    sha: commit.id,
+    message: commit.message,
+    author: commit.author_name,
+    date: commit.authored_date
+  });
+
+  const compareRefs = (location: RepoLocation, from: string, to: string) =>
+    request<GitLabComparison>(
+      `${projectUrl(location)}/repository/compare?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`
+    );
+
+  const deleteBranch = (location: RepoLocation, branch: string) =>
+    request(`${projectUrl(location)}/repository/branches/${encodeURIComponent(branch)}`, { method: 'DELETE' });
+
+  const createBranch = (location: RepoLocation, branch: string, ref: string) =>
+    request<GitLabBranch>(
+      `${projectUrl(location)}/repository/branches?branch=${encodeURIComponent(branch)}&ref=${encodeURIComponent(ref)}`,
+      { method: 'POST' }
+    );
+
+  // Rebasing runs in the background; the merge request reports when it is done
+  const rebaseMergeRequest = async (location: RepoLocation, iid: number) => {
+    await request(`${projectUrl(location)}/merge_requests/${iid}/rebase`, { method: 'PUT' });
+
+    for (let attempt = 0; attempt < REBASE_POLL_ATTEMPTS; attempt++) {
+      const status = await request<{ rebase_in_progress: boolean; merge_error: string | null }>(
+        `${projectUrl(location)}/merge_requests/${iid}?include_rebase_in_progress=true`
+      );
+
+      if (status.merge_error) {
+        throw new ProviderRequestError(`Merge conflict: rebase failed (${status.merge_error})`, 409, status);
+      }
+      if (!status.rebase_in_progress) return;
+
+      await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+
+    throw new ProviderRequestError('Rebase did not finish in time', 504, { iid });
+  };
+
+  return {
+    async getRepoInfo(location) {
+      const project = await request<{ default_branch: string; web_url: string }>(projectUrl(location));
+      return { defaultBranch: project.default_branch, htmlUrl: project.web_url };
+    },
+
+    async listBranches(location) {
+      const branches: GitLabBranch[] = [];
+      for (let page = 1; ; page++) {
+        const batch = await request<GitLabBranch[]>(
+          `${projectUrl(location)}/repository/branches?per_page=100&page=${page}`
+        );
+        branches.push(...batch);
+        if (batch.length < 100) break;
+      }
+
+      return branches.map(branch => ({
+        name: branch.name,
+        sha: branch.commit.id,
+        protected: branch.protected
+      }));
+    },
+
+    async getBranch(location, branch) {
+      const data = await request<GitLabBranch>(
+        `${projectUrl(location)}/repository/branches/${encodeURIComponent(branch)}`
+      );
+      return { name: data.name, sha: data.commit.id, protected: data.protected };
+    },
+
+    async getCommit(location, ref) {
+      const commit = await request<GitLabCommit>(
+        `${projectUrl(location)}/repository/commits/${encodeURIComponent(ref)}`
+      );
+      return toCommitInfo(commit);
+    },
+
+    async compare(location, base, head) {
+      const [ahead, behind, baseCommit, mergeBase] = await Promise.all([
+        compareRefs(location, base, head),
+        compareRefs(location, head, base),
+        request<GitLabCommit>(`${projectUrl(location)}/repository/commits/${encodeURIComponent(base)}`),
+        request<GitLabCommit>(
+          `${projectUrl(location)}/repository/merge_base?refs[]=${encodeURIComponent(base)}&refs[]=${encodeURIComponent(head)}`
+        )
+      ]);
+
+      return {
+        status: toComparisonStatus(ahead.commits.length, behind.commits.length),
+        aheadBy: ahead.commits.length,
+        behindBy: behind.commits.length,
+        baseSha: baseCommit.id,
+        mergeBaseSha: mergeBase.id,
+        commits: ahead.commits.map(toCommitInfo),
+        files: ahead.diffs.map(diff => ({
+          filename: diff.new_path,
+          status: diff.new_file ? 'added' : diff.deleted_file ? 'removed' : diff.renamed_file ? 'renamed' : 'modified',
+          additions: countDiffLines(diff.diff, '+'),
+          deletions: countDiffLines(diff.diff, '-')
+        })),
+        htmlUrl: `https://${host}/${location.owner}/${location.repo}/-/compare/${base}...${head}`
+      };
+    },
+
+    async createBranch(location, branch, sha) {
+      const created = await createBranch(location, branch, sha);
+      return { sha: created.commit.id };
+    },
+
+    async createPullRequest(location, pullRequest) {
+      const mergeRequest = await request<{ iid: number; web_url: string; title: string }>(
+        `${projectUrl(location)}/merge_requests`,
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            source_branch: pullRequest.head,
+            target_branch: pullRequest.base,
+            title: pullRequest.title,
+            description: pullRequest.body
+          })
+        }
+      );
+
+      return {
+        number: mergeRequest.iid,
+        url: mergeRequest.web_url,
+        title: mergeRequest.title,
+        state: 'open',
+        reviewStatus: 'pending',
+        checkStatus: 'none'
+      };
+    },
+
+    async getPullRequest(location, number) {
+      const [mergeRequest, approvals] = await Promise.all([
+        request<{
+          iid: number;
+          web_url: string;
+          title: string;
+          state: string;
+          detailed_merge_status?: string;
+          head_pipeline?: { status: string } | null;
+        }>(`${projectUrl(location)}/merge_requests/${number}`),
+        request<{ approved: boolean }>(`${projectUrl(location)}/merge_requests/${number}/approvals`)
+      ]);
+
+      const pipelineStatus = mergeRequest.head_pipeline?.status;
+
+      return {
+        number: mergeRequest.iid,
+        url: mergeRequest.web_url,
+        title: mergeRequest.title,
+        state: mergeRequest.state === 'merged' ? 'merged' : mergeRequest.state === 'opened' ? 'open' : 'closed',
+        reviewStatus: mergeRequest.detailed_merge_status === 'requested_changes'
+          ? 'changes_requested'
+          : approvals.approved ? 'approved' : 'pending',
+        checkStatus: !pipelineStatus
+          ? 'none'
+          : pipelineStatus === 'success'
+            ? 'success'
+            : ['failed', 'canceled'].includes(pipelineStatus) ? 'failure' : 'pending'
+      };
+    },
+
+    async merge(location, base, head, message, strategy) {
+      // Merges go through a short-lived merge request from a temporary branch
+      const tempBranch = `git-operations/merge-${Date.now()}`;
+      await createBranch(location, tempBranch, head);
+
+      try {
+        const mergeRequest = await request<{ iid: number }>(`${projectUrl(location)}/merge_requests`, {
+          method: 'POST',
+          body: JSON.stringify({
+            source_branch: tempBranch,
+            target_branch: base,
+            title: message.split('\n')[0],
+            remove_source_branch: true,
+            squash: strategy === 'squash'
+          })
+        });
+
+        if (strategy === 'rebase') {
+          await rebaseMergeRequest(location, mergeRequest.iid);
+        }
+
+        // Whether a merge commit is still created after rebasing depends on
+        // the project's merge method
+        const merged = await request<{ merge_commit_sha: string }>(
+          `${projectUrl(location)}/merge_requests/${mergeRequest.iid}/merge`,
+          {
+            method: 'PUT',
+            body: JSON.stringify({
+              merge_commit_message: message,
+              squash_commit_message: message,
+              squash: strategy === 'squash',
+              should_remove_source_branch: true
+            })
+          }
+        ).catch(error => rethrowMergeConflict(error, [405, 406]));
+
+        return { sha: merged.merge_commit_sha };
+      } finally {
+        await deleteBranch(location, tempBranch).catch(() => undefined);
+      }
+    }
+  };
+};
@@ -0,0 +1,58 @@
+// Minimal JSON client for the REST providers. Errors mirror the shape of
+// Octokit's RequestError (`status` and `response.data`) so callers can treat
+// every provider alike.
+export class ProviderRequestError extends Error {
+  status: number;
+  response: { data: unknown; headers: Record<string, string> };
+
+  constructor(message: string, status: number, data: unknown, headers: Record<string, string> = {}) {
+    super(message);
+    this.name = 'ProviderRequestError';
+    this.status = status;
+    this.response = { data, headers };
+  }
+}
+
+export const requestJson = async <T>(url: string, init: RequestInit = {}): Promise<T> => {
+  const response = await fetch(url, {
+    ...init,
+    headers: {
+      'Accept': 'application/json',
+      ...(init.body ? { 'Content-Type': 'application/json' } : {}),
+      ...init.headers,
+    },
+  });
+
+  const text = await response.text();
+  let data: unknown = null;
+  try {
+    data = text ? JSON.parse(text) : null;
+  } catch {
+    data = text;
+  }
+
+  if (!response.ok) {
+    const message = (data as { message?: string; error?: { message?: string } })?.message
+      ?? (data as { error?: { message?: string } })?.error?.message
+      ?? `Request to ${url} failed with status ${response.status}`;
+    throw new ProviderRequestError(message, response.status, data, Object.fromEntries(response.headers));
+  }
+
+  return data as T;
+};
+
+// Providers refuse unmergeable changes with different statuses; callers only
+// ever see 409
+export const rethrowMergeConflict = (error, statuses: number[]): never => {
+  if (statuses.includes(error?.status)) {
+    throw new ProviderRequestError('Merge conflict', 409, error.response?.data ?? null, error.response?.headers);
+  }
+  throw error;
+};
+
+export const toComparisonStatus = (aheadBy: number, behindBy: number) => {
+  if (aheadBy > 0 && behindBy > 0) return 'diverged' as const;
+  if (aheadBy > 0) return 'ahead' as const;
+  if (behindBy > 0) return 'behind' as const;
+  return 'identical' as const;
+};
@@ -0,0 +1,155 @@
+import { OperationError } from '../errors.ts'
+import type { GitRemote } from '../mirror.ts'
+import { createBitbucketProvider } from './bitbucket.ts'
+import { createGitRemoteProvider } from './git.ts'
+import { createGiteaProvider } from './gitea.ts'
+import { createGitHubProvider } from './github.ts'
+import { createGitLabProvider } from './gitlab.ts'
+import type { GitProvider, ProviderCredential, ProviderName, RepoLocation } from './types.ts'
+
+export type * from './types.ts'
+
+export const PROVIDERS: ProviderName[] = ['github', 'gitlab', 'bitbucket', 'gitea', 'git'];
+
+// Guesses the provider from well-known hosts. Self-hosted instances need the
+// provider stored on the repository.
+export const detectProvider = (host: string): ProviderName | null => {
+  if (host === 'github.com') return 'github';
+  if (host === 'gitlab.com') return 'gitlab';
+  if (host === 'bitbucket.org') return 'bitbucket';
+  if (host === 'codeberg.org') return 'gitea';
+  return null;
+};
+
+// Accepts HTTPS and SSH (git@host:owner/repo.git) URLs
+export const parseRepoUrl = (url: string, provider?: string | null): RepoLocation | null => {
+  const match = url.trim().match(/^(?:https?:\/\/(?:[^@/]+@)?|ssh:\/\/git@|git@)([^/:]+)(?::\d+)?[/:](.+?)(?:\.git)?\/?$/);
+  if (!match) return null;
+
+  const [, host, path] = match;
+  const segments = path.split('/').filter(Boolean);
+
+  const resolvedProvider = (provider as ProviderName) || detectProvider(host);
+  if (!resolvedProvider || !PROVIDERS.includes(resolvedProvider)) return null;
+
+  // Plain git remotes can live at any path; GitLab nests projects in
+  // subgroups; everything else is exactly owner/repo
+  if (resolvedProvider === 'git' ? segments.length < 1 : segments.length < 2) return null;
+  if (!['gitlab', 'git'].includes(resolvedProvider) && segments.length !== 2) return null;
+
+  return {
+    provider: resolvedProvider,
+    host,
+    owner: segments.slice(0, -1).join('/'),
+    repo: segments[segments.length - 1],
+    url: url.trim()
+  };
+};
+
+export const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) {
+    console.error(`${name} not found`);
+    throw new OperationError('not_configured', `${name} not configured`);
+  }
+  return value;
+};
+
+// Hosts the environment tokens were issued for. Self-hosted instances are
+// added through a comma-separated list in the provider's *_HOSTS variable;
+// repositories anywhere else need a stored credential.
+const TOKEN_HOSTS: Record<ProviderName, { hosts: string[]; variable: string }> = {
+  github: { hosts: ['github.com'], variable: 'GITHUB_HOSTS' },
+  gitlab: { hosts: ['gitlab.com'], variable: 'GITLAB_HOSTS' },
+  bitbucket: { hosts: ['bitbucket.org'], variable: 'BITBUCKET_HOSTS' },
+  gitea: { hosts: [], variable: 'GITEA_HOSTS' },
+  git: { hosts: [], variable: 'GIT_HTTP_HOSTS' }
+};
+
+export const usesEnvironmentToken = (location: RepoLocation) => {
+  const { hosts, variable } = TOKEN_HOSTS[location.provider];
+  const configured = (Deno.env.get(variable) ?? '').split(',').map(host => host.trim().toLowerCase());
+  const host = location.host.toLowerCase();
+  return hosts.includes(host) || configured.includes(host);
+};
+
+// Reads a provider token from the environment, refusing hosts it was not
+// issued for so it is never sent to a host named in a repository URL
+const requireToken = (location: RepoLocation, name: string) => {
+  if (!usesEnvironmentToken(location)) {
+    throw new OperationError('not_configured', `No credential stored for ${location.host}`, { host: location.host });
+  }
+  return requireEnv(name);
+};
+
+// Usernames that providers accept next to a token for git over HTTPS
+const TOKEN_USERNAMES: Record<ProviderName, string> = {
+  github: 'x-access-token',
+  gitlab: 'oauth2',
+  bitbucket: 'x-token-auth',
+  gitea: 'git-operations',
+  git: 'git'
+};
+
+// Bitbucket app passwords belong to a user, so the API needs the username
+const getBitbucketLogin = (location: RepoLocation, credential?: ProviderCredential | null) => {
+  if (!credential) {
+    return { username: requireToken(location, 'BITBUCKET_USERNAME'), password: requireEnv('BITBUCKET_APP_PASSWORD') };
+  }
+  if (!credential.username) throw new OperationError('not_configured', 'Bitbucket credentials need a username');
+  return { username: credential.username, password: credential.secret };
+};
+
+// Credentials for git-over-HTTPS access: the repository's credential when it
+// has one, otherwise the provider tokens. Plain git remotes use
+// GIT_HTTP_USERNAME / GIT_HTTP_PASSWORD when set and the host is listed in
+// GIT_HTTP_HOSTS, and are read anonymously otherwise.
+const getGitAuth = (location: RepoLocation, credential?: ProviderCredential | null): GitRemote['auth'] => {
+  if (credential && location.provider !== 'bitbucket') {
+    return { username: credential.username || TOKEN_USERNAMES[location.provider], password: credential.secret };
+  }
+
+  switch (location.provider) {
+    case 'github':
+      return { username: TOKEN_USERNAMES.github, password: requireToken(location, 'GITHUB_ACCESS_TOKEN') };
+    case 'gitlab':
+      return { username: TOKEN_USERNAMES.gitlab, password: requireToken(location, 'GITLAB_ACCESS_TOKEN') };
+    case 'bitbucket':
+      return getBitbucketLogin(location, credential);
+    case 'gitea':
+      return { username: TOKEN_USERNAMES.gitea, password: requireToken(location, 'GITEA_ACCESS_TOKEN') };
+    case 'git': {
+      if (!usesEnvironmentToken(location)) return undefined;
+      const username = Deno.env.get('GIT_HTTP_USERNAME');
+      const password = Deno.env.get('GIT_HTTP_PASSWORD');
+      return username && password ? { username, password } : undefined;
+    }
+  }
+};
+
+// Git transport remotes always use HTTPS, whatever form the stored URL has
+export const getGitRemote = (location: RepoLocation, credential?: ProviderCredential | null): GitRemote => ({
+  url: /^https?:\/\//.test(location.url)
+    ? location.url
+    : `https://${location.host}/${location.owner}/${location.repo}.git`,
+  auth: getGitAuth(location, credential)
+});
+
+export const createProvider = (location: RepoLocation, credential?: ProviderCredential | null): GitProvider => {
+  switch (location.provider) {
+    case 'github':
+      return createGitHubProvider(credential?.secret ?? requireToken(location, 'GITHUB_ACCESS_TOKEN'), location.host);
+    case 'gitlab':
+      return createGitLabProvider(credential?.secret ?? requireToken(location, 'GITLAB_ACCESS_TOKEN'), location.host);
+    case 'bitbucket': {
+      const { username, password } = getBitbucketLogin(location, credential);
+      return createBitbucketProvider(username, password);
+    }
+    case 'gitea':
+      return createGiteaProvider(credential?.secret ?? requireToken(location, 'GITEA_ACCESS_TOKEN'), location.host);
+    case 'git': {
+      const remote = getGitRemote(location, credential);
+      return createGitRemoteProvider(remote.url, remote.auth);
+    }
+  }
+};
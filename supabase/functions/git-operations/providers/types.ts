@@ -0,0 +1,136 @@
+import type { CredentialKind, MergeStrategy } from '../../_shared/operations.ts'
+
+export type { CredentialKind, MergeStrategy }
+
+export type ProviderName = 'github' | 'gitlab' | 'bitbucket' | 'gitea' | 'git';
+
+// Where a repository lives, parsed from its URL. `owner` may contain slashes
+// for GitLab subgroups and plain git remotes.
+export interface RepoLocation {
+  provider: ProviderName;
+  host: string;
+  owner: string;
+  repo: string;
+  url: string;
+}
+
+// A decrypted credential from the credentials table. Without one the
+// provider's environment secrets are used.
+export interface ProviderCredential {
+  kind: CredentialKind;
+  // Only set for GitHub Apps, whose secret is the app's private key
+  appId: string | null;
+  username: string | null;
+  secret: string;
+}
+
+export interface RepoInfo {
+  defaultBranch: string;
+  htmlUrl?: string;
+}
+
+export interface BranchInfo {
+  name: string;
+  sha: string;
+  protected?: boolean;
+}
+
+export interface CommitInfo {
+  sha: string;
+  message: string;
+  author?: string;
+  date?: string;
+}
+
+export interface FileChange {
+  filename: string;
+  status: string;
+  additions: number;
+  deletions: number;
+}
+
+export interface Comparison {
+  status: 'identical' | 'ahead' | 'behind' | 'diverged';
+  aheadBy: number;
+  behindBy: number;
+  baseSha: string;
+  mergeBaseSha: string;
+  commits: CommitInfo[];
+  files: FileChange[];
+  htmlUrl?: string;
+}
+
+export interface ReleaseAsset {
+  id: number;
+  name: string;
+  contentType: string;
+  size: number;
+}
+
+export interface ReleaseInfo {
+  id: number;
+  tagName: string;
+  name: string | null;
+  body: string | null;
+  draft: boolean;
+  prerelease: boolean;
+  assets: ReleaseAsset[];
+}
+
+export interface PullRequestInfo {
+  number: number;
+  url: string;
+  title: string;
+  state: 'open' | 'closed' | 'merged';
+  reviewStatus: 'approved' | 'changes_requested' | 'pending';
+  checkStatus: 'success' | 'failure' | 'pending' | 'none';
+}
+
+export interface NewPullRequest {
+  head: string;
+  base: string;
+  title: string;
+  body: string;
+}
+
+export interface OwnerRepoInfo {
+  name: string;
+  url: string;
+  htmlUrl: string;
+  description: string | null;
+  defaultBranch: string;
+  private: boolean;
+  archived: boolean;
+  fork: boolean;
+  pushedAt: string | null;
+}
+
+export interface OwnerRepoPage {
+  repositories: OwnerRepoInfo[];
+  hasMore: boolean;
+}
+
+export interface GitProvider {
+  getRepoInfo(location: RepoLocation): Promise<RepoInfo>;
+  listBranches(location: RepoLocation): Promise<BranchInfo[]>;
+  getBranch(location: RepoLocation, branch: string): Promise<BranchInfo>;
+  getCommit(location: RepoLocation, ref: string): Promise<CommitInfo>;
+  // Describes `head` relative to `base`, both resolved inside `location`
+  compare(location: RepoLocation, base: string, head: string): Promise<Comparison>;
+  createBranch(location: RepoLocation, branch: string, sha: string): Promise<{ sha: string }>;
+  // Points `branch` at `sha`. Without `force` only fast-forwards are allowed.
+  // Only providers that can move a branch in place implement it; branches
+  // on the others are updated over git.
+  updateRef?(location: RepoLocation, branch: string, sha: string, force: boolean): Promise<{ sha: string }>;
+  // Merges `head` into the `base` branch. Conflicts fail with status 409.
+  merge(location: RepoLocation, base: string, head: string, message: string, strategy: MergeStrategy): Promise<{ sha: string }>;
+  // Pull requests and releases are only implemented by providers that have them
+  createPullRequest?(location: RepoLocation, pullRequest: NewPullRequest): Promise<PullRequestInfo>;
+  getPullRequest?(location: RepoLocation, number: number): Promise<PullRequestInfo>;
+  listReleases?(location: RepoLocation): Promise<ReleaseInfo[]>;
+  createRelease?(location: RepoLocation, release: Omit<ReleaseInfo, 'id' | 'assets'>): Promise<{ id: number }>;
+  downloadReleaseAsset?(location: RepoLocation, assetId: number): Promise<ArrayBuffer>;
+  uploadReleaseAsset?(location: RepoLocation, releaseId: number, asset: ReleaseAsset, data: ArrayBuffer): Promise<void>;
+  // Lists the repositories of `location.owner`, one page at a time
+  listOwnerRepos?(location: RepoLocation, page: number): Promise<OwnerRepoPage>;
+}
@@ -0,0 +1,70 @@
+import { mirrorRefs, toFullRef, type GitRemote } from './mirror.ts'
+import { OperationError } from './errors.ts'
+import type { CommitInfo, GitProvider, PullRequestInfo, RepoLocation } from './providers/types.ts'
+
+interface OpenPullRequestOptions {
+  source: { location: RepoLocation; remote: GitRemote; branch: string; sha: string };
+  target: { location: RepoLocation; remote: GitRemote; provider: GitProvider; branch: string };
+  // Copy the source commits over git when the target host does not have them
+  useMirror: boolean;
+}
+
+export interface OpenedPullRequest extends PullRequestInfo {
+  headBranch: string;
+}
+
+// The body lists at most this many commits; larger syncs link to the provider
+const MAX_LISTED_COMMITS = 50;
+
+const describeCommits = (commits: CommitInfo[]) => {
+  const lines = commits
+    .slice(0, MAX_LISTED_COMMITS)
+    .map(commit => `- ${commit.sha.substring(0, 7)} ${commit.message.split('\n')[0]}`);
+
+  if (commits.length > MAX_LISTED_COMMITS) {
+    lines.push(`- ...and ${commits.length - MAX_LISTED_COMMITS} more`);
+  }
+
+  return lines.join('\n');
+};
+
+// Pushes the source commit to a new branch on the target and opens a pull
+// request from it, leaving the target branch itself untouched
+export const openPullRequest = async ({ source, target, useMirror }: OpenPullRequestOptions): Promise<OpenedPullRequest> => {
+  if (!target.provider.createPullRequest) {
+    throw new OperationError('unsupported', 'Pull requests are not supported for plain git remotes');
+  }
+
+  const headBranch = `sync/${source.branch}-${source.sha.substring(0, 7)}`;
+
+  if (useMirror) {
+    await mirrorRefs({
+      source: source.remote,
+      target: target.remote,
+      refspecs: [{ source: toFullRef(source.branch), target: toFullRef(headBranch) }],
+      pushType: 'regular'
+    });
+  } else {
+    await target.provider.createBranch(target.location, headBranch, source.sha);
+  }
+
+  console.log('Created pull request branch:', headBranch);
+
+  const comparison = await target.provider.compare(target.location, target.branch, headBranch);
+  const sourceName = `${source.location.owner}/${source.location.repo}`;
+
+  const pullRequest = await target.provider.createPullRequest(target.location, {
+    head: headBranch,
+    base: target.branch,
+    title: `Sync ${source.branch} from ${sourceName}`,
+    body: [
+      `Brings ${target.branch} up to date with \`${source.branch}\` of ${sourceName} (${source.sha.substring(0, 7)}).`,
+      '',
+      `${comparison.aheadBy} commit(s):`,
+      '',
+      describeCommits(comparison.commits)
+    ].join('\n')
+  });
+
+  return { ...pullRequest, headBranch };
+};
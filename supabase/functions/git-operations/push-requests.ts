@@ -0,0 +1,79 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { OperationError } from './errors.ts'
+import type { PushRequest, PushRequestStatus } from '../_shared/operations.ts'
+
+export interface PushRequestRow {
+  id: string;
+  source_repository_id: string;
+  target_repository_id: string;
+  source_branch: string;
+  target_branch: string;
+  push_type: PushRequest['pushType'];
+  source_sha: string;
+  target_sha: string;
+  status: PushRequestStatus;
+  requested_by: string | null;
+}
+
+export const loadPushRequest = async (supabaseClient: SupabaseClient, pushRequestId: string): Promise<PushRequestRow> => {
+  const { data, error } = await supabaseClient
+    .from('push_requests')
+    .select('*')
+    .eq('id', pushRequestId)
+    .single();
+
+  // .single() reports a missing row as PGRST116
+  if (error && error.code !== 'PGRST116') throw error;
+  if (!data) throw new OperationError('not_found', 'Push request not found');
+  return data;
+};
+
+// Moves an approved request to executing. The update only matches while the
+// request is still approved, so of two concurrent runs only one claims it.
+export const claimPushRequest = async (supabaseClient: SupabaseClient, pushRequest: PushRequestRow) => {
+  if (pushRequest.status !== 'approved') {
+    throw new OperationError('invalid_request', `Only approved push requests can run; this one is ${pushRequest.status}`);
+  }
+
+  const { data, error } = await supabaseClient
+    .from('push_requests')
+    .update({ status: 'executing' })
+    .eq('id', pushRequest.id)
+    .eq('status', 'approved')
+    .select('id');
+
+  if (error) throw error;
+  if (data.length === 0) throw new OperationError('invalid_request', 'This push request is already running');
+  return { ...pushRequest, status: 'executing' as const };
+};
+
+// The push an approved request runs: exactly what was previewed. Forced
+// pushes run as force-with-lease on the target head the reviewer saw, so
+// they cannot overwrite commits that reached the target after the review.
+export const toPushOperation = (pushRequest: PushRequestRow): PushRequest => ({
+  type: 'push',
+  sourceRepoId: pushRequest.source_repository_id,
+  targetRepoId: pushRequest.target_repository_id,
+  sourceBranch: pushRequest.source_branch,
+  targetBranch: pushRequest.target_branch,
+  pushType: pushRequest.push_type === 'force' ? 'force-with-lease' : pushRequest.push_type,
+  expectedTargetSha: pushRequest.target_sha
+});
+
+// Records how an executed request ended. Like history, failing to record it
+// must not fail the push itself.
+export const finishPushRequest = async (
+  supabaseClient: SupabaseClient,
+  pushRequestId: string,
+  status: 'executed' | 'failed',
+  errorMessage: string | null = null
+) => {
+  const { error } = await supabaseClient
+    .from('push_requests')
+    .update({ status, error_message: errorMessage, executed_at: new Date().toISOString() })
+    .eq('id', pushRequestId);
+
+  if (error) {
+    console.error('Failed to update push request:', error);
+  }
+};
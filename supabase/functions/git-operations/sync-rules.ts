@@ -0,0 +1,89 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { nextCronRun, parseCron } from '../_shared/cron.ts'
+import type { PushRequest, SyncRuleResult } from '../_shared/operations.ts'
+
+export interface SyncRuleRow {
+  id: string;
+  source_repository_id: string;
+  target_repository_id: string;
+  source_branch: string | null;
+  target_branch: string | null;
+  push_type: PushRequest['pushType'];
+  // Null for rules that only run when the source branch is pushed
+  schedule: string | null;
+  run_on_push: boolean;
+  enabled: boolean;
+  run_as: string | null;
+  last_run_at: string | null;
+  created_at: string;
+}
+
+// A rule is due once its schedule has passed a run time since it last ran,
+// or since it was created. Runs missed while the scheduler was down are
+// made up with a single push.
+export const isSyncRuleDue = (rule: SyncRuleRow, now: Date) => {
+  const schedule = rule.schedule ? parseCron(rule.schedule) : null;
+  if (!schedule) return false;
+
+  const next = nextCronRun(schedule, new Date(rule.last_run_at ?? rule.created_at));
+  return next !== null && next.getTime() <= now.getTime();
+};
+
+export const loadDueSyncRules = async (supabaseClient: SupabaseClient, now: Date): Promise<SyncRuleRow[]> => {
+  const { data, error } = await supabaseClient
+    .from('sync_rules')
+    .select('*')
+    .eq('enabled', true);
+
+  if (error) throw error;
+  return data.filter(rule => isSyncRuleDue(rule, now));
+};
+
+// Enabled rules that run when one of the repositories is pushed to; the
+// caller still matches the pushed branch
+export const loadPushTriggeredSyncRules = async (
+  supabaseClient: SupabaseClient,
+  sourceRepoIds: string[]
+): Promise<SyncRuleRow[]> => {
+  const { data, error } = await supabaseClient
+    .from('sync_rules')
+    .select('*')
+    .eq('enabled', true)
+    .eq('run_on_push', true)
+    .in('source_repository_id', sourceRepoIds);
+
+  if (error) throw error;
+  return data;
+};
+
+export const toRulePushOperation = (rule: SyncRuleRow): PushRequest => ({
+  type: 'push',
+  sourceRepoId: rule.source_repository_id,
+  targetRepoId: rule.target_repository_id,
+  sourceBranch: rule.source_branch ?? undefined,
+  targetBranch: rule.target_branch ?? undefined,
+  pushType: rule.push_type
+});
+
+// Records when the rule ran, before pushing, so an overlapping scheduler
+// run does not start it again
+export const claimSyncRule = async (supabaseClient: SupabaseClient, ruleId: string, now: Date) => {
+  const { error } = await supabaseClient
+    .from('sync_rules')
+    .update({ last_run_at: now.toISOString() })
+    .eq('id', ruleId);
+
+  if (error) throw error;
+};
+
+// Like history, failing to record the result must not fail the run
+export const finishSyncRule = async (supabaseClient: SupabaseClient, result: SyncRuleResult) => {
+  const { error } = await supabaseClient
+    .from('sync_rules')
+    .update({ last_status: result.status, last_error: result.error ?? null })
+    .eq('id', result.ruleId);
+
+  if (error) {
+    console.error('Failed to update sync rule:', error);
+  }
+};
@@ -0,0 +1,120 @@
+import { listRemoteRefs, mirrorRefs, type GitRemote } from './mirror.ts'
+import { OperationError } from './errors.ts'
+import type { GitProvider, RepoLocation } from './providers/types.ts'
+
+export interface TagSyncResult {
+  created: string[];
+  skipped: string[];
+  conflicting: { tag: string; sourceSha: string; targetSha: string }[];
+  releases?: {
+    created: string[];
+    skipped: string[];
+    failed: { tag: string; error: string }[];
+  };
+}
+
+interface SyncSide {
+  location: RepoLocation;
+  provider: GitProvider;
+  remote: GitRemote;
+}
+
+interface SyncTagsOptions {
+  source: SyncSide;
+  target: SyncSide;
+  // Only these tag names are synced when given
+  tags?: string[];
+  includeReleases?: boolean;
+}
+
+const TAG_PREFIX = 'refs/tags/';
+
+// Copies tags from source to target over git, so lightweight and annotated
+// tags keep their exact objects. Tags that already exist on the target are
+// never moved: identical ones are skipped, different ones are reported.
+export const syncTags = async ({ source, target, tags, includeReleases }: SyncTagsOptions): Promise<TagSyncResult> => {
+  const [sourceRefs, targetRefs] = await Promise.all([
+    listRemoteRefs(source.remote, TAG_PREFIX),
+    listRemoteRefs(target.remote, TAG_PREFIX)
+  ]);
+
+  const targetTags = new Map(targetRefs.map(({ ref, oid }) => [ref.slice(TAG_PREFIX.length), oid]));
+  const result: TagSyncResult = { created: [], skipped: [], conflicting: [] };
+
+  for (const { ref, oid } of sourceRefs) {
+    const tag = ref.slice(TAG_PREFIX.length);
+    if (tags && !tags.includes(tag)) continue;
+
+    const targetSha = targetTags.get(tag);
+    if (!targetSha) {
+      result.created.push(tag);
+    } else if (targetSha === oid) {
+      result.skipped.push(tag);
+    } else {
+      result.conflicting.push({ tag, sourceSha: oid, targetSha });
+    }
+  }
+
+  console.log('Tag sync plan:', {
+    created: result.created.length,
+    skipped: result.skipped.length,
+    conflicting: result.conflicting.length
+  });
+
+  if (result.created.length > 0) {
+    await mirrorRefs({
+      source: source.remote,
+      target: target.remote,
+      refspecs: result.created.map(tag => ({ source: `${TAG_PREFIX}${tag}`, target: `${TAG_PREFIX}${tag}` })),
+      pushType: 'regular'
+    });
+  }
+
+  if (includeReleases) {
+    result.releases = await syncReleases(source, target, new Set([...result.created, ...result.skipped]));
+  }
+
+  return result;
+};
+
+// Recreates source releases on the target for tags both sides now share
+const syncReleases = async (source: SyncSide, target: SyncSide, sharedTags: Set<string>) => {
+  const { provider: sourceProvider, location: sourceLocation } = source;
+  const { provider: targetProvider, location: targetLocation } = target;
+
+  if (!sourceProvider.listReleases || !sourceProvider.downloadReleaseAsset ||
+      !targetProvider.listReleases || !targetProvider.createRelease || !targetProvider.uploadReleaseAsset) {
+    throw new OperationError('unsupported', 'Release synchronization is only supported between GitHub repositories');
+  }
+
+  const [sourceReleases, targetReleases] = await Promise.all([
+    sourceProvider.listReleases(sourceLocation),
+    targetProvider.listReleases(targetLocation)
+  ]);
+
+  const existingTags = new Set(targetReleases.map(release => release.tagName));
+  const releases = { created: [] as string[], skipped: [] as string[], failed: [] as { tag: string; error: string }[] };
+
+  for (const release of sourceReleases) {
+    if (!sharedTags.has(release.tagName)) continue;
+
+    if (existingTags.has(release.tagName)) {
+      releases.skipped.push(release.tagName);
+      continue;
+    }
+
+    try {
+      const { id } = await targetProvider.createRelease(targetLocation, release);
+      for (const asset of release.assets) {
+        const data = await sourceProvider.downloadReleaseAsset(sourceLocation, asset.id);
+        await targetProvider.uploadReleaseAsset(targetLocation, id, asset, data);
+      }
+      releases.created.push(release.tagName);
+    } catch (error) {
+      console.error('Error copying release:', release.tagName, error);
+      releases.failed.push({ tag: release.tagName, error: error.message });
+    }
+  }
+
+  return releases;
+};
@@ -0,0 +1,34 @@
+// Run with: deno test --allow-all supabase/functions/git-operations/tests
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts"
+import { nextCronRun, parseCron } from '../../_shared/cron.ts'
+
+const next = (expression: string, after: string) => nextCronRun(parseCron(expression)!, new Date(after))?.toISOString();
+
+Deno.test('invalid expressions are rejected', () => {
+  for (const expression of ['', '* * * *', '60 * * * *', '*/0 * * * *', '5-1 * * * *', 'a * * * *', '* * * * * *']) {
+    assertEquals(parseCron(expression), null, expression);
+  }
+  assert(parseCron('0,30 9-17 * * 1-5'));
+});
+
+Deno.test('the next run is strictly after the given time', () => {
+  assertEquals(next('*/15 * * * *', '2025-01-06T10:00:00Z'), '2025-01-06T10:15:00.000Z');
+  assertEquals(next('*/15 * * * *', '2025-01-06T10:07:30Z'), '2025-01-06T10:15:00.000Z');
+  assertEquals(next('0 3 * * *', '2025-01-06T03:00:00Z'), '2025-01-07T03:00:00.000Z');
+});
+
+Deno.test('days of the week count from Sunday and accept 7', () => {
+  // 2025-01-06 is a Monday
+  assertEquals(next('0 9 * * 1-5', '2025-01-10T12:00:00Z'), '2025-01-13T09:00:00.000Z');
+  assertEquals(next('0 0 * * 7', '2025-01-06T00:00:00Z'), '2025-01-12T00:00:00.000Z');
+});
+
+Deno.test('restricted day fields match either day', () => {
+  // The 15th or any Monday, whichever comes first
+  assertEquals(next('0 0 15 * 1', '2025-01-07T00:00:00Z'), '2025-01-13T00:00:00.000Z');
+  assertEquals(next('0 0 15 * 1', '2025-01-13T00:00:00Z'), '2025-01-15T00:00:00.000Z');
+});
+
+Deno.test('schedules that never run have no next run', () => {
+  assertEquals(next('0 0 30 2 *', '2025-01-01T00:00:00Z'), undefined);
+});
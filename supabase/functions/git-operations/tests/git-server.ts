@@ -0,0 +1,148 @@
+import { Server } from "https://deno.land/std@0.168.0/http/server.ts"
+
+export interface GitServer {
+  url: string;
+  // Runs before each request is answered, e.g. to move a ref mid-operation
+  onRequest: ((path: string) => Promise<void> | void) | null;
+  createRepo: (name: string) => Promise<void>;
+  commit: (name: string, ref: string, message: string) => Promise<string>;
+  copyRef: (from: string, to: string, ref: string) => Promise<void>;
+  readRef: (name: string, ref: string) => Promise<string | null>;
+  close: () => Promise<void>;
+}
+
+const COMMIT_ENV = {
+  GIT_AUTHOR_NAME: 'Ada',
+  GIT_AUTHOR_EMAIL: 'ada@example.com',
+  GIT_COMMITTER_NAME: 'Ada',
+  GIT_COMMITTER_EMAIL: 'ada@example.com'
+};
+
+const runGit = async (args: string[], input?: string) => {
+  const child = new Deno.Command('git', {
+    args,
+    env: COMMIT_ENV,
+    stdin: input === undefined ? 'null' : 'piped',
+    stdout: 'piped',
+    stderr: 'piped'
+  }).spawn();
+
+  if (input !== undefined) {
+    const writer = child.stdin.getWriter();
+    await writer.write(new TextEncoder().encode(input));
+    await writer.close();
+  }
+
+  const { success, stdout, stderr } = await child.output();
+  if (!success) throw new Error(`git ${args.join(' ')} failed: ${new TextDecoder().decode(stderr)}`);
+  return new TextDecoder().decode(stdout).trim();
+};
+
+const indexOfBytes = (haystack: Uint8Array, needle: number[]) => {
+  for (let i = 0; i <= haystack.length - needle.length; i++) {
+    if (needle.every((byte, offset) => haystack[i + offset] === byte)) return i;
+  }
+  return -1;
+};
+
+// Answers a smart HTTP request with git http-backend, which speaks CGI
+const runHttpBackend = async (root: string, req: Request) => {
+  const url = new URL(req.url);
+  const body = new Uint8Array(await req.arrayBuffer());
+  const child = new Deno.Command('git', {
+    args: ['http-backend'],
+    env: {
+      GIT_PROJECT_ROOT: root,
+      GIT_HTTP_EXPORT_ALL: '1',
+      // http-backend only accepts pushes from an authenticated user
+      REMOTE_USER: 'git-operations',
+      REQUEST_METHOD: req.method,
+      PATH_INFO: url.pathname,
+      QUERY_STRING: url.search.slice(1),
+      CONTENT_TYPE: req.headers.get('content-type') ?? '',
+      CONTENT_LENGTH: String(body.length)
+    },
+    stdin: 'piped',
+    stdout: 'piped',
+    stderr: 'null'
+  }).spawn();
+
+  const writer = child.stdin.getWriter();
+  await writer.write(body);
+  await writer.close();
+  const { stdout } = await child.output();
+
+  const separator = indexOfBytes(stdout, [13, 10, 13, 10]);
+  const headerLines = new TextDecoder().decode(stdout.subarray(0, separator)).split('\r\n');
+  const headers = new Headers();
+  let status = 200;
+
+  for (const line of headerLines) {
+    const [name, ...rest] = line.split(':');
+    const value = rest.join(':').trim();
+    if (name.toLowerCase() === 'status') status = Number(value.split(' ')[0]);
+    else headers.set(name, value);
+  }
+
+  return new Response(stdout.subarray(separator + 4), { status, headers });
+};
+
+// Serves bare repositories over git's smart HTTP protocol on a random local
+// port. Repositories are named `<name>.git` under a temporary directory.
+export const startGitServer = async (): Promise<GitServer> => {
+  const root = await Deno.makeTempDir({ prefix: 'git-server-' });
+  const listener = Deno.listen({ hostname: '127.0.0.1', port: 0 });
+  const { port } = listener.addr as Deno.NetAddr;
+  const gitdir = (name: string) => `${root}/${name}.git`;
+
+  const gitServer: GitServer = {
+    url: `http://127.0.0.1:${port}`,
+    onRequest: null,
+
+    createRepo: async (name) => {
+      await runGit(['init', '--quiet', '--bare', '--initial-branch=main', gitdir(name)]);
+    },
+
+    // Adds a commit with one file holding `message` on top of `ref`
+    commit: async (name, ref, message) => {
+      const dir = gitdir(name);
+      const blob = await runGit(['--git-dir', dir, 'hash-object', '-w', '--stdin'], message);
+      const tree = await runGit(['--git-dir', dir, 'mktree'], `100644 blob ${blob}\tfile.txt\n`);
+      const parent = await gitServer.readRef(name, ref);
+      const oid = await runGit(
+        ['--git-dir', dir, 'commit-tree', tree, ...(parent ? ['-p', parent] : []), '-m', message]
+      );
+      await runGit(['--git-dir', dir, 'update-ref', ref, oid]);
+      return oid;
+    },
+
+    copyRef: async (from, to, ref) => {
+      await runGit(['--git-dir', gitdir(to), 'fetch', '--quiet', '--update-head-ok', gitdir(from), `+${ref}:${ref}`]);
+    },
+
+    readRef: async (name, ref) => {
+      try {
+        return await runGit(['--git-dir', gitdir(name), 'rev-parse', '--verify', '--quiet', ref]);
+      } catch {
+        return null;
+      }
+    },
+
+    close: async () => {
+      server.close();
+      await serving;
+      await Deno.remove(root, { recursive: true });
+    }
+  };
+
+  const server = new Server({
+    handler: async (req) => {
+      await gitServer.onRequest?.(new URL(req.url).pathname);
+      return runHttpBackend(root, req);
+    }
+  });
+
+  const serving = server.serve(listener);
+
+  return gitServer;
+};
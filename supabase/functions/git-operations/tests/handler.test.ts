@@ -0,0 +1,1060 @@
+// Run with: deno test --allow-all supabase/functions/git-operations/tests
+import { assert, assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts"
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createHandler } from '../handler.ts'
+import { encryptSecret } from '../credentials.ts'
+import { createProvider, getGitRemote, parseRepoUrl } from '../providers/index.ts'
+import { createGitRemoteProvider } from '../providers/git.ts'
+import { createGitHubProvider } from '../providers/github.ts'
+import type { ProviderCredential, RepoLocation } from '../providers/types.ts'
+import { startGitServer } from './git-server.ts'
+import { createMemorySupabase, type Row } from './memory-supabase.ts'
+import { startMockGitHub, type MockGitHub, type MockRoutes } from './mock-github.ts'
+
+const SOURCE_ID = 'source-repo';
+const TARGET_ID = 'target-repo';
+const WORKSPACE_ID = 'workspace-1';
+const USER = { id: 'user-1', email: 'ada@example.com' };
+const ACCESS_TOKEN = 'user-1-jwt';
+const REVIEWER = { id: 'user-2', email: 'grace@example.com' };
+const REVIEWER_TOKEN = 'user-2-jwt';
+const SCHEDULE_SECRET = 'schedule-secret';
+const SOURCE_SHA = 'a'.repeat(40);
+const TARGET_SHA = 'b'.repeat(40);
+
+const seedRepositories = (overrides: { source?: Row; target?: Row } = {}): Row[] => [
+  { id: SOURCE_ID, user_id: USER.id, workspace_id: WORKSPACE_ID, url: 'https://github.test/acme/app', provider: 'github', last_commit: null, ...overrides.source },
+  { id: TARGET_ID, user_id: USER.id, workspace_id: WORKSPACE_ID, url: 'https://github.test/acme/app-mirror', provider: 'github', last_commit: TARGET_SHA, last_pushed_sha: TARGET_SHA, ...overrides.target }
+];
+
+const seedMembers = (role = 'admin'): Row[] => [{ workspace_id: WORKSPACE_ID, user_id: USER.id, role }];
+
+// What every push and merge reads before touching the target
+const repositoryRoutes: MockRoutes = {
+  'GET /repos/acme/app': { body: { default_branch: 'main', html_url: 'https://github.test/acme/app' } },
+  'GET /repos/acme/app-mirror': { body: { default_branch: 'main', html_url: 'https://github.test/acme/app-mirror' } },
+  'GET /repos/acme/app/branches/main': { body: { name: 'main', commit: { sha: SOURCE_SHA }, protected: false } }
+};
+
+const updateRefRoute: MockRoutes = {
+  'PATCH /repos/acme/app-mirror/git/refs/heads/main': { body: { object: { sha: SOURCE_SHA } } }
+};
+
+const operationRequest = (body: Record<string, unknown>, token: string | null = ACCESS_TOKEN) =>
+  new Request('http://localhost/git-operations', {
+    method: 'POST',
+    headers: token ? { Authorization: `Bearer ${token}` } : {},
+    body: JSON.stringify(body)
+  });
+
+const setup = (routes: MockRoutes, repositories = seedRepositories(), role = 'admin', seed: Record<string, Row[]> = {}) => {
+  const github = startMockGitHub(routes);
+  const background: (() => Promise<void>)[] = [];
+  const database = createMemorySupabase(
+    { repositories, workspace_members: seedMembers(role), ...seed },
+    { [ACCESS_TOKEN]: USER, [REVIEWER_TOKEN]: REVIEWER }
+  );
+
+  const handler = createHandler({
+    supabaseClient: database.client as unknown as SupabaseClient,
+    createProvider: (location: RepoLocation) => createGitHubProvider('test-token', location.host, {
+      baseUrl: github.url,
+      retry: { enabled: false },
+      throttle: { enabled: false }
+    }),
+    getGitRemote: (location: RepoLocation) => ({ url: `${github.url}/${location.owner}/${location.repo}.git` }),
+    scheduleSecret: SCHEDULE_SECRET,
+    runInBackground: start => background.push(start)
+  });
+
+  const invoke = async (body: Record<string, unknown>, token?: string | null) => {
+    const response = await handler(operationRequest(body, token));
+    return { status: response.status, body: await response.json() };
+  };
+
+  // Calls the function the way the scheduler does, without a user session
+  const runSchedule = async (secret = SCHEDULE_SECRET) => {
+    const response = await handler(new Request('http://localhost/git-operations', {
+      method: 'POST',
+      headers: { 'x-schedule-secret': secret },
+      body: JSON.stringify({ type: 'runSyncRules' })
+    }));
+    return { status: response.status, body: await response.json() };
+  };
+
+  // Background work waits until the test lets it run
+  const runBackground = async () => {
+    while (background.length > 0) await background.shift()!();
+  };
+
+  return { github, tables: database.tables, invoke, runSchedule, runBackground };
+};
+
+const findRequest = (github: MockGitHub, method: string, path: string) =>
+  github.requests.find(request => request.method === method && request.path === path);
+
+// Octokit keeps pooled connections open past the end of a test
+const test = (name: string, fn: () => Promise<void>) =>
+  Deno.test({ name, fn, sanitizeOps: false, sanitizeResources: false });
+
+test('getLastCommit records the default branch head', async () => {
+  const { github, tables, invoke } = setup({
+    'GET /repos/acme/app': repositoryRoutes['GET /repos/acme/app'],
+    'GET /repos/acme/app/commits/main': {
+      body: { sha: SOURCE_SHA, commit: { message: 'Initial commit', author: { name: 'Ada', date: '2025-01-01T00:00:00Z' } } }
+    }
+  });
+
+  try {
+    const { status, body } = await invoke({ type: 'getLastCommit', sourceRepoId: SOURCE_ID });
+
+    assertEquals(status, 200);
+    assertEquals(body.commit.sha, SOURCE_SHA);
+    assertEquals(tables.repositories[0].last_commit, SOURCE_SHA);
+    assertEquals(tables.repositories[0].status, 'synced');
+    assertEquals(tables.sync_operations[0].status, 'succeeded');
+    assertEquals(tables.sync_operations[0].result_sha, SOURCE_SHA);
+  } finally {
+    await github.close();
+  }
+});
+
+test('regular push updates the target without forcing', async () => {
+  const { github, tables, invoke } = setup({ ...repositoryRoutes, ...updateRefRoute });
+
+  try {
+    const { status, body } = await invoke({ type: 'push', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID, pushType: 'regular' });
+
+    assertEquals(status, 200);
+    assertEquals(body.ref.sha, SOURCE_SHA);
+    assertEquals(findRequest(github, 'PATCH', '/repos/acme/app-mirror/git/refs/heads/main')?.body, { sha: SOURCE_SHA, force: false });
+    assertEquals(tables.repositories[1].last_commit, SOURCE_SHA);
+    assertEquals(tables.repositories[1].last_pushed_sha, SOURCE_SHA);
+    assertEquals(tables.repositories[0].last_pushed_sha, undefined);
+    assertEquals(tables.sync_operations[0].push_type, 'regular');
+    assertEquals(tables.sync_operations[0].status, 'succeeded');
+  } finally {
+    await github.close();
+  }
+});
+
+test('force push overwrites the target', async () => {
+  const { github, invoke } = setup({ ...repositoryRoutes, ...updateRefRoute });
+
+  try {
+    const { status } = await invoke({ type: 'push', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID, pushType: 'force' });
+
+    assertEquals(status, 200);
+    assertEquals(findRequest(github, 'PATCH', '/repos/acme/app-mirror/git/refs/heads/main')?.body, { sha: SOURCE_SHA, force: true });
+  } finally {
+    await github.close();
+  }
+});
+
+test('force-with-lease pushes when the target has not moved', async () => {
+  const { github, invoke } = setup({
+    ...repositoryRoutes,
+    ...updateRefRoute,
+    'GET /repos/acme/app-mirror/branches/main': { body: { name: 'main', commit: { sha: TARGET_SHA }, protected: false } }
+  });
+
+  try {
+    const { status } = await invoke({ type: 'push', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID, pushType: 'force-with-lease' });
+
+    assertEquals(status, 200);
+    assertEquals(findRequest(github, 'PATCH', '/repos/acme/app-mirror/git/refs/heads/main')?.body, { sha: SOURCE_SHA, force: true });
+  } finally {
+    await github.close();
+  }
+});
+
+test('force-with-lease refuses to push when the target has moved', async () => {
+  const movedSha = 'c'.repeat(40);
+  const { github, tables, invoke } = setup({
+    ...repositoryRoutes,
+    ...updateRefRoute,
+    'GET /repos/acme/app-mirror/branches/main': { body: { name: 'main', commit: { sha: movedSha }, protected: false } }
+  });
+
+  try {
+    const { status, body } = await invoke({ type: 'push', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID, pushType: 'force-with-lease' });
+
+    assertEquals(status, 409);
+    assertEquals(body.code, 'lease_mismatch');
+    assertEquals(body.details, { expectedSha: TARGET_SHA, actualSha: movedSha });
+    assertEquals(findRequest(github, 'PATCH', '/repos/acme/app-mirror/git/refs/heads/main'), undefined);
+    assertEquals(tables.sync_operations[0].status, 'failed');
+  } finally {
+    await github.close();
+  }
+});
+
+test('force-with-lease does not take commits seen by webhooks as its lease', async () => {
+  // A webhook recorded someone else's push to the target after our last push
+  const movedSha = 'c'.repeat(40);
+  const { github, invoke } = setup(
+    {
+      ...repositoryRoutes,
+      ...updateRefRoute,
+      'GET /repos/acme/app-mirror/branches/main': { body: { name: 'main', commit: { sha: movedSha }, protected: false } }
+    },
+    seedRepositories({ target: { last_commit: movedSha } })
+  );
+
+  try {
+    const { status, body } = await invoke({ type: 'push', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID, pushType: 'force-with-lease' });
+
+    assertEquals(status, 409);
+    assertEquals(body.details, { expectedSha: TARGET_SHA, actualSha: movedSha });
+    assertEquals(findRequest(github, 'PATCH', '/repos/acme/app-mirror/git/refs/heads/main'), undefined);
+  } finally {
+    await github.close();
+  }
+});
+
+test('pull-request push opens a pull request from a sync branch', async () => {
+  const headBranch = `sync/main-${SOURCE_SHA.substring(0, 7)}`;
+  const { github, tables, invoke } = setup({
+    ...repositoryRoutes,
+    'POST /repos/acme/app-mirror/git/refs': { status: 201, body: { object: { sha: SOURCE_SHA } } },
+    [`GET /repos/acme/app-mirror/compare/main...${headBranch}`]: {
+      body: {
+        status: 'ahead',
+        ahead_by: 1,
+        behind_by: 0,
+        base_commit: { sha: TARGET_SHA },
+        merge_base_commit: { sha: TARGET_SHA },
+        commits: [{ sha: SOURCE_SHA, commit: { message: 'Add feature', author: { name: 'Ada' } } }],
+        files: []
+      }
+    },
+    'POST /repos/acme/app-mirror/pulls': {
+      status: 201,
+      body: { number: 7, html_url: 'https://github.test/acme/app-mirror/pull/7', title: 'Sync main from acme/app' }
+    }
+  });
+
+  try {
+    const { status, body } = await invoke({ type: 'push', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID, pushType: 'pull-request' });
+
+    assertEquals(status, 200);
+    assertEquals(body.pullRequest.number, 7);
+    assertEquals(findRequest(github, 'POST', '/repos/acme/app-mirror/git/refs')?.body, { ref: `refs/heads/${headBranch}`, sha: SOURCE_SHA });
+    assertEquals((findRequest(github, 'POST', '/repos/acme/app-mirror/pulls')?.body as Row).head, headBranch);
+    assertEquals(tables.pull_requests.length, 1);
+    assertEquals(tables.pull_requests[0].head_branch, headBranch);
+    // The target branch is left alone until the pull request is merged
+    assertEquals(tables.repositories[1].last_commit, TARGET_SHA);
+  } finally {
+    await github.close();
+  }
+});
+
+for (const provider of ['gitlab', 'bitbucket', 'gitea']) {
+  test(`${provider} pushes go over git`, async () => {
+    const server = await startGitServer();
+    await server.createRepo('app');
+    await server.createRepo('app-mirror');
+    const baseSha = await server.commit('app', 'refs/heads/main', 'Initial commit');
+    await server.copyRef('app', 'app-mirror', 'refs/heads/main');
+    const headSha = await server.commit('app', 'refs/heads/main', 'Add feature');
+
+    const database = createMemorySupabase({
+      repositories: seedRepositories({
+        source: { url: `https://${provider}.test/acme/app`, provider },
+        target: { url: `https://${provider}.test/acme/app-mirror`, provider, last_commit: baseSha, last_pushed_sha: baseSha }
+      }),
+      workspace_members: seedMembers()
+    }, { [ACCESS_TOKEN]: USER });
+
+    const remoteUrl = (location: RepoLocation) => `${server.url}/${location.repo}.git`;
+    const handler = createHandler({
+      supabaseClient: database.client as unknown as SupabaseClient,
+      // Reads go to the same repositories, and like these providers the
+      // stand-in cannot move a branch in place
+      createProvider: (location: RepoLocation) => ({ ...createGitRemoteProvider(remoteUrl(location)), updateRef: undefined }),
+      getGitRemote: (location: RepoLocation) => ({ url: remoteUrl(location) })
+    });
+
+    try {
+      const response = await handler(operationRequest({
+        type: 'push',
+        sourceRepoId: SOURCE_ID,
+        targetRepoId: TARGET_ID,
+        pushType: 'force-with-lease'
+      }));
+
+      assertEquals(response.status, 200);
+      assertEquals(await server.readRef('app-mirror', 'refs/heads/main'), headSha);
+      assertEquals(database.tables.repositories[1].last_pushed_sha, headSha);
+    } finally {
+      await server.close();
+    }
+  });
+}
+
+test('invalid repository URLs are rejected', async () => {
+  const { github, tables, invoke } = setup({}, seedRepositories({ source: { url: 'not a repository' } }));
+
+  try {
+    const { status, body } = await invoke({ type: 'getLastCommit', sourceRepoId: SOURCE_ID });
+
+    assertEquals(status, 400);
+    assertEquals(body.code, 'invalid_url');
+    assertEquals(github.requests.length, 0);
+    assertEquals(tables.sync_operations[0].status, 'failed');
+  } finally {
+    await github.close();
+  }
+});
+
+test('missing provider tokens are reported as not configured', async () => {
+  const database = createMemorySupabase(
+    { repositories: seedRepositories(), workspace_members: seedMembers() },
+    { [ACCESS_TOKEN]: USER }
+  );
+  const handler = createHandler({
+    supabaseClient: database.client as unknown as SupabaseClient,
+    createProvider,
+    getGitRemote: (location: RepoLocation) => ({ url: location.url })
+  });
+
+  const token = Deno.env.get('GITHUB_ACCESS_TOKEN');
+  Deno.env.delete('GITHUB_ACCESS_TOKEN');
+  Deno.env.set('GITHUB_HOSTS', 'github.test');
+
+  try {
+    const response = await handler(operationRequest({ type: 'getLastCommit', sourceRepoId: SOURCE_ID }));
+    const body = await response.json();
+
+    assertEquals(response.status, 503);
+    assertEquals(body.code, 'not_configured');
+    assert(body.error.includes('GITHUB_ACCESS_TOKEN'));
+  } finally {
+    if (token) Deno.env.set('GITHUB_ACCESS_TOKEN', token);
+    Deno.env.delete('GITHUB_HOSTS');
+  }
+});
+
+test('provider tokens are not sent to hosts they were not issued for', async () => {
+  const database = createMemorySupabase(
+    { repositories: seedRepositories(), workspace_members: seedMembers() },
+    { [ACCESS_TOKEN]: USER }
+  );
+  const handler = createHandler({
+    supabaseClient: database.client as unknown as SupabaseClient,
+    createProvider,
+    getGitRemote
+  });
+
+  const token = Deno.env.get('GITHUB_ACCESS_TOKEN');
+  Deno.env.set('GITHUB_ACCESS_TOKEN', 'environment-token');
+  Deno.env.set('GIT_HTTP_USERNAME', 'git');
+  Deno.env.set('GIT_HTTP_PASSWORD', 'environment-password');
+
+  try {
+    const response = await handler(operationRequest({ type: 'getLastCommit', sourceRepoId: SOURCE_ID }));
+    const body = await response.json();
+
+    assertEquals(response.status, 503);
+    assertEquals(body.code, 'not_configured');
+    assertEquals(body.details, { host: 'github.test' });
+    assertEquals(getGitRemote(parseRepoUrl('https://example.test/acme/app', 'git')!).auth, undefined);
+  } finally {
+    if (token) Deno.env.set('GITHUB_ACCESS_TOKEN', token);
+    else Deno.env.delete('GITHUB_ACCESS_TOKEN');
+    Deno.env.delete('GIT_HTTP_USERNAME');
+    Deno.env.delete('GIT_HTTP_PASSWORD');
+  }
+});
+
+test('merge conflicts are reported with a conflict code', async () => {
+  const { github, tables, invoke } = setup({
+    ...repositoryRoutes,
+    'POST /repos/acme/app-mirror/merges': { status: 409, body: { message: 'Merge conflict' } }
+  });
+
+  try {
+    const { status, body } = await invoke({
+      type: 'merge',
+      sourceRepoId: SOURCE_ID,
+      targetRepoId: TARGET_ID,
+      mergeStrategy: 'merge'
+    });
+
+    assertEquals(status, 409);
+    assertEquals(body.code, 'merge_conflict');
+    // The mock server has no git endpoint, so the conflicting paths are unknown
+    assertEquals(body.details.conflictingFiles, []);
+    assertEquals(tables.sync_operations[0].status, 'failed');
+    assertEquals((tables.sync_operations[0].error_details as Row).code, 'merge_conflict');
+  } finally {
+    await github.close();
+  }
+});
+
+test('requests outside the contract are rejected', async () => {
+  const { github, invoke } = setup({});
+
+  try {
+    const { status, body } = await invoke({ type: 'push', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID, pushType: 'sideways' });
+
+    assertEquals(status, 400);
+    assertEquals(body.code, 'invalid_request');
+    assertEquals(github.requests.length, 0);
+  } finally {
+    await github.close();
+  }
+});
+
+test('repositories use their own credential, then the shared one for their owner', async () => {
+  Deno.env.set('CREDENTIALS_ENCRYPTION_KEY', btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32)))));
+
+  const database = createMemorySupabase({
+    repositories: seedRepositories({ source: { credential_id: 'repo-credential' } }),
+    workspace_members: seedMembers(),
+    credentials: [
+      { id: 'repo-credential', user_id: USER.id, kind: 'token', host: 'github.test', owner: null, username: null, secret_ciphertext: await encryptSecret('repo-token') },
+      { id: 'owner-credential', user_id: USER.id, kind: 'token', host: 'github.test', owner: 'acme', username: null, secret_ciphertext: await encryptSecret('owner-token') }
+    ]
+  }, { [ACCESS_TOKEN]: USER });
+
+  const used: (ProviderCredential | null | undefined)[] = [];
+  const handler = createHandler({
+    supabaseClient: database.client as unknown as SupabaseClient,
+    createProvider: (_location: RepoLocation, credential?: ProviderCredential | null) => {
+      used.push(credential);
+      throw new Error('stop after resolving credentials');
+    },
+    getGitRemote: (location: RepoLocation) => ({ url: location.url })
+  });
+
+  for (const sourceRepoId of [SOURCE_ID, TARGET_ID]) {
+    await handler(operationRequest({ type: 'getLastCommit', sourceRepoId }));
+  }
+
+  assertEquals(used.map(credential => credential?.secret), ['repo-token', 'owner-token']);
+});
+
+test('credential secrets are kept out of the logs', async () => {
+  Deno.env.set('CREDENTIALS_ENCRYPTION_KEY', btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32)))));
+
+  const { github, tables, invoke } = setup({});
+  const logged: string[] = [];
+  const { log, error } = console;
+  console.log = console.error = (...args: unknown[]) => logged.push(Deno.inspect(args));
+
+  try {
+    const { status } = await invoke({
+      type: 'createCredential',
+      name: 'Deploy token',
+      kind: 'token',
+      host: 'github.test',
+      secret: 'plaintext-token'
+    });
+
+    assertEquals(status, 200);
+    assertEquals(tables.credentials.length, 1);
+    assert(logged.length > 0);
+    assert(!logged.some(line => line.includes('plaintext-token')));
+  } finally {
+    console.log = log;
+    console.error = error;
+    await github.close();
+  }
+});
+
+test('requests without a valid session are refused', async () => {
+  const { github, tables, invoke } = setup({});
+
+  try {
+    const missing = await invoke({ type: 'getLastCommit', sourceRepoId: SOURCE_ID }, null);
+    const invalid = await invoke({ type: 'getLastCommit', sourceRepoId: SOURCE_ID }, 'expired-jwt');
+
+    assertEquals(missing.status, 401);
+    assertEquals(missing.body.code, 'unauthenticated');
+    assertEquals(invalid.status, 401);
+    assertEquals(tables.sync_operations.length, 0);
+  } finally {
+    await github.close();
+  }
+});
+
+test("repositories in other workspaces are off limits", async () => {
+  const { github, invoke } = setup(
+    { ...repositoryRoutes, ...updateRefRoute },
+    seedRepositories({ target: { workspace_id: 'workspace-2' } })
+  );
+
+  try {
+    const { status, body } = await invoke({ type: 'push', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID, pushType: 'force' });
+
+    assertEquals(status, 403);
+    assertEquals(body.code, 'forbidden');
+    assertEquals(github.requests.length, 0);
+  } finally {
+    await github.close();
+  }
+});
+
+test('nobody pushes directly into the master repository', async () => {
+  const operator = setup({ ...repositoryRoutes, ...updateRefRoute }, seedRepositories({ target: { is_master: true } }), 'operator');
+  const admin = setup({ ...repositoryRoutes, ...updateRefRoute }, seedRepositories({ target: { is_master: true } }), 'admin');
+
+  try {
+    const push = { type: 'push', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID, pushType: 'force' };
+    const forbidden = await operator.invoke(push);
+    const unapproved = await admin.invoke(push);
+
+    assertEquals(forbidden.status, 403);
+    assertEquals(forbidden.body.details.requiredRole, 'admin');
+    assertEquals(operator.github.requests.length, 0);
+    assertEquals(unapproved.status, 403);
+    assertEquals(unapproved.body.details.rule, 'require_approval');
+    assertEquals(findRequest(admin.github, 'PATCH', '/repos/acme/app-mirror/git/refs/heads/main'), undefined);
+  } finally {
+    await operator.github.close();
+    await admin.github.close();
+  }
+});
+
+test('nobody merges into the master repository', async () => {
+  const { github, tables, invoke } = setup(
+    { ...repositoryRoutes, 'POST /repos/acme/app-mirror/merges': { status: 201, body: { sha: SOURCE_SHA } } },
+    seedRepositories({ target: { is_master: true } }),
+    'admin'
+  );
+
+  try {
+    const { status, body } = await invoke({
+      type: 'merge',
+      sourceRepoId: SOURCE_ID,
+      targetRepoId: TARGET_ID,
+      mergeStrategy: 'merge'
+    });
+
+    assertEquals(status, 403);
+    assertEquals(body.code, 'rule_violation');
+    assertEquals(body.details.rule, 'require_approval');
+    assertEquals(findRequest(github, 'POST', '/repos/acme/app-mirror/merges'), undefined);
+    assertEquals(tables.sync_operations[0].status, 'failed');
+  } finally {
+    await github.close();
+  }
+});
+
+test('operators push to other repositories and viewers only read', async () => {
+  const operator = setup({ ...repositoryRoutes, ...updateRefRoute }, seedRepositories(), 'operator');
+  const viewer = setup({ ...repositoryRoutes, ...updateRefRoute }, seedRepositories(), 'viewer');
+
+  try {
+    const push = { type: 'push', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID, pushType: 'force' };
+    const pushed = await operator.invoke(push);
+    const refused = await viewer.invoke(push);
+
+    assertEquals(pushed.status, 200);
+    assertEquals(refused.status, 403);
+    assertEquals(refused.body.details.requiredRole, 'operator');
+    assertEquals(viewer.github.requests.length, 0);
+  } finally {
+    await operator.github.close();
+    await viewer.github.close();
+  }
+});
+
+test('setMaster moves the flag within the workspace and needs an admin', async () => {
+  const operator = setup({}, seedRepositories({ source: { is_master: true } }), 'operator');
+  const admin = setup({}, seedRepositories({ source: { is_master: true } }), 'admin');
+
+  try {
+    const refused = await operator.invoke({ type: 'setMaster', targetRepoId: TARGET_ID });
+    const { status } = await admin.invoke({ type: 'setMaster', targetRepoId: TARGET_ID });
+
+    assertEquals(refused.status, 403);
+    assertEquals(operator.tables.repositories.map(repo => repo.is_master), [true, undefined]);
+    assertEquals(status, 200);
+    assertEquals(admin.tables.repositories.map(repo => repo.is_master), [false, true]);
+  } finally {
+    await operator.github.close();
+    await admin.github.close();
+  }
+});
+
+const protectionRules = (rules: Row): Row[] => [{
+  repository_id: TARGET_ID,
+  block_force_push: false,
+  require_preview: false,
+  require_approval: false,
+  allowed_windows: [],
+  timezone: 'UTC',
+  ...rules
+}];
+
+test('protection rules block force pushes whatever the client sends', async () => {
+  const { github, tables, invoke } = setup(
+    { ...repositoryRoutes, ...updateRefRoute },
+    seedRepositories(),
+    'admin',
+    { protection_rules: protectionRules({ block_force_push: true }) }
+  );
+
+  try {
+    const { status, body } = await invoke({ type: 'push', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID, pushType: 'force' });
+
+    assertEquals(status, 403);
+    assertEquals(body.code, 'rule_violation');
+    assertEquals(body.details.rule, 'block_force_push');
+    assertEquals(findRequest(github, 'PATCH', '/repos/acme/app-mirror/git/refs/heads/main'), undefined);
+    assertEquals(tables.sync_operations[0].status, 'failed');
+  } finally {
+    await github.close();
+  }
+});
+
+test('tag syncs are held to the target protection rules', async () => {
+  const closed = setup(
+    repositoryRoutes,
+    seedRepositories(),
+    'admin',
+    { protection_rules: protectionRules({ allowed_windows: [{ days: [], start: '00:00', end: '23:59' }] }) }
+  );
+  const master = setup(repositoryRoutes, seedRepositories({ target: { is_master: true } }), 'admin');
+
+  try {
+    const sync = { type: 'syncTags', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID };
+    const outsideWindows = await closed.invoke(sync);
+    const intoMaster = await master.invoke(sync);
+
+    assertEquals(outsideWindows.status, 403);
+    assertEquals(outsideWindows.body.details.rule, 'allowed_windows');
+    assertEquals(closed.github.requests.length, 0);
+    assertEquals(closed.tables.sync_operations[0].status, 'failed');
+    assertEquals(intoMaster.status, 403);
+    assertEquals(intoMaster.body.details.rule, 'require_approval');
+    assertEquals(master.github.requests.length, 0);
+  } finally {
+    await closed.github.close();
+    await master.github.close();
+  }
+});
+
+// A preview of pushing the source head onto an unchanged target
+const previewRoutes: MockRoutes = {
+  ...repositoryRoutes,
+  ...updateRefRoute,
+  'GET /repos/acme/app-mirror/branches/main': { body: { name: 'main', commit: { sha: TARGET_SHA }, protected: false } },
+  [`GET /repos/acme/app-mirror/compare/main...${SOURCE_SHA}`]: {
+    body: {
+      status: 'ahead',
+      ahead_by: 1,
+      behind_by: 0,
+      base_commit: { sha: TARGET_SHA },
+      merge_base_commit: { sha: TARGET_SHA },
+      commits: [],
+      files: []
+    }
+  }
+};
+
+test('repositories requiring a preview only accept pushes made from a current one', async () => {
+  const { github, invoke } = setup(
+    previewRoutes,
+    seedRepositories(),
+    'admin',
+    { protection_rules: protectionRules({ require_preview: true }) }
+  );
+
+  try {
+    const push = { type: 'push', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID, pushType: 'regular' };
+    const unpreviewed = await invoke(push);
+    const comparison = await invoke({ type: 'compare', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID });
+    const previewed = await invoke({ ...push, previewId: comparison.body.previewId });
+
+    assertEquals(unpreviewed.status, 403);
+    assertEquals(unpreviewed.body.details.rule, 'require_preview');
+    assert(comparison.body.previewId);
+    assertEquals(previewed.status, 200);
+  } finally {
+    await github.close();
+  }
+});
+
+test('approved push requests run the previewed push into the master repository', async () => {
+  const { github, tables, invoke } = setup(
+    previewRoutes,
+    seedRepositories({ target: { is_master: true } }),
+    'operator',
+    {
+      workspace_members: [
+        { workspace_id: WORKSPACE_ID, user_id: USER.id, role: 'operator' },
+        { workspace_id: WORKSPACE_ID, user_id: REVIEWER.id, role: 'admin' }
+      ]
+    }
+  );
+
+  try {
+    const comparison = await invoke({ type: 'compare', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID });
+    const requested = await invoke({ type: 'requestPush', previewId: comparison.body.previewId, pushType: 'regular' });
+    const pushRequestId = requested.body.pushRequestId;
+
+    const early = await invoke({ type: 'executePush', pushRequestId });
+    const selfApproved = await invoke({ type: 'reviewPush', pushRequestId, approve: true });
+    const approved = await invoke({ type: 'reviewPush', pushRequestId, approve: true }, REVIEWER_TOKEN);
+    const executed = await invoke({ type: 'executePush', pushRequestId });
+
+    assertEquals(requested.status, 200);
+    assertEquals(early.status, 400);
+    assertEquals(selfApproved.status, 403);
+    assertEquals(approved.body.status, 'approved');
+    assertEquals(executed.status, 200);
+    assertEquals(findRequest(github, 'PATCH', '/repos/acme/app-mirror/git/refs/heads/main')?.body, { sha: SOURCE_SHA, force: false });
+    assertEquals(tables.push_requests[0].status, 'executed');
+    assertEquals(tables.push_requests[0].reviewed_by, REVIEWER.id);
+  } finally {
+    await github.close();
+  }
+});
+
+const approvedPushRequest = (overrides: Row = {}): Row => ({
+  id: 'push-request-1',
+  source_repository_id: SOURCE_ID,
+  target_repository_id: TARGET_ID,
+  source_branch: 'main',
+  target_branch: 'main',
+  push_type: 'regular',
+  source_sha: SOURCE_SHA,
+  target_sha: TARGET_SHA,
+  status: 'approved',
+  requested_by: USER.id,
+  ...overrides
+});
+
+test('approved push requests fail when the source moved since the preview', async () => {
+  const { github, tables, invoke } = setup(
+    { ...repositoryRoutes, ...updateRefRoute },
+    seedRepositories({ target: { is_master: true } }),
+    'operator',
+    { push_requests: [approvedPushRequest({ source_sha: 'c'.repeat(40) })] }
+  );
+
+  try {
+    const { status, body } = await invoke({ type: 'executePush', pushRequestId: 'push-request-1' });
+
+    assertEquals(status, 403);
+    assertEquals(body.details.actualSha, SOURCE_SHA);
+    assertEquals(findRequest(github, 'PATCH', '/repos/acme/app-mirror/git/refs/heads/main'), undefined);
+    assertEquals(tables.push_requests[0].status, 'failed');
+  } finally {
+    await github.close();
+  }
+});
+
+test('approved force pushes keep to the target head the reviewer saw', async () => {
+  const { github, tables, invoke } = setup(
+    {
+      ...repositoryRoutes,
+      ...updateRefRoute,
+      'GET /repos/acme/app-mirror/branches/main': { body: { name: 'main', commit: { sha: 'd'.repeat(40) }, protected: false } }
+    },
+    seedRepositories({ target: { is_master: true } }),
+    'operator',
+    { push_requests: [approvedPushRequest({ push_type: 'force' })] }
+  );
+
+  try {
+    const { status, body } = await invoke({ type: 'executePush', pushRequestId: 'push-request-1' });
+
+    assertEquals(status, 409);
+    assertEquals(body.code, 'lease_mismatch');
+    assertEquals(body.details.expectedSha, TARGET_SHA);
+    assertEquals(findRequest(github, 'PATCH', '/repos/acme/app-mirror/git/refs/heads/main'), undefined);
+    assertEquals(tables.push_requests[0].status, 'failed');
+  } finally {
+    await github.close();
+  }
+});
+
+test('approved push requests run only once', async () => {
+  const { github, tables, invoke } = setup(
+    { ...repositoryRoutes, ...updateRefRoute },
+    seedRepositories({ target: { is_master: true } }),
+    'operator',
+    { push_requests: [approvedPushRequest()] }
+  );
+
+  try {
+    const runs = await Promise.all([
+      invoke({ type: 'executePush', pushRequestId: 'push-request-1' }),
+      invoke({ type: 'executePush', pushRequestId: 'push-request-1' })
+    ]);
+
+    assertEquals(runs.map(run => run.status).sort(), [200, 400]);
+    assertEquals(github.requests.filter(request => request.method === 'PATCH').length, 1);
+    assertEquals(tables.push_requests[0].status, 'executed');
+  } finally {
+    await github.close();
+  }
+});
+
+const syncRule = (overrides: Row = {}): Row => ({
+  id: 'rule-1',
+  source_repository_id: SOURCE_ID,
+  target_repository_id: TARGET_ID,
+  source_branch: null,
+  target_branch: null,
+  push_type: 'regular',
+  schedule: '*/15 * * * *',
+  enabled: true,
+  run_as: USER.id,
+  last_run_at: '2025-01-01T00:00:00Z',
+  created_at: '2025-01-01T00:00:00Z',
+  ...overrides
+});
+
+test('due sync rules push as the member who set them up', async () => {
+  const { github, tables, runSchedule } = setup({ ...repositoryRoutes, ...updateRefRoute }, seedRepositories(), 'operator', {
+    workspace_members: [{ workspace_id: WORKSPACE_ID, user_id: USER.id, role: 'operator', email: USER.email }],
+    sync_rules: [
+      syncRule(),
+      syncRule({ id: 'rule-2', last_run_at: new Date().toISOString() }),
+      syncRule({ id: 'rule-3', enabled: false })
+    ]
+  });
+
+  try {
+    const { status, body } = await runSchedule();
+
+    assertEquals(status, 200);
+    assertEquals(body.results, [{ ruleId: 'rule-1', status: 'succeeded' }]);
+    assertEquals(findRequest(github, 'PATCH', '/repos/acme/app-mirror/git/refs/heads/main')?.body, { sha: SOURCE_SHA, force: false });
+    assertEquals(tables.sync_rules[0].last_status, 'succeeded');
+    assert(tables.sync_rules[0].last_run_at !== '2025-01-01T00:00:00Z');
+    assertEquals(tables.sync_rules[1].last_status, undefined);
+    assertEquals(tables.sync_operations[0].initiated_by, `${USER.email} (sync rule)`);
+  } finally {
+    await github.close();
+  }
+});
+
+test('sync rules are held to the rules for the master repository', async () => {
+  const { github, tables, invoke, runSchedule } = setup(
+    { ...repositoryRoutes, ...updateRefRoute },
+    seedRepositories({ target: { is_master: true } }),
+    'admin',
+    { sync_rules: [syncRule()] }
+  );
+
+  try {
+    const userCall = await invoke({ type: 'runSyncRules' });
+    const wrongSecret = await runSchedule('guess');
+    const { status, body } = await runSchedule();
+
+    assertEquals(userCall.status, 401);
+    assertEquals(wrongSecret.status, 401);
+    assertEquals(status, 200);
+    assertEquals(body.results[0].code, 'rule_violation');
+    assertEquals(findRequest(github, 'PATCH', '/repos/acme/app-mirror/git/refs/heads/main'), undefined);
+    assertEquals(tables.sync_rules[0].last_status, 'failed');
+    assert(String(tables.sync_rules[0].last_error).includes('approved push request'));
+  } finally {
+    await github.close();
+  }
+});
+
+test('queued jobs run in the background and record their steps', async () => {
+  const { github, tables, invoke, runBackground } = setup({ ...repositoryRoutes, ...updateRefRoute }, seedRepositories(), 'operator');
+
+  try {
+    const push = { type: 'push', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID, pushType: 'regular' };
+    const invalid = await invoke({ type: 'enqueueJob', operation: { type: 'compare', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID } });
+    const { status, body } = await invoke({ type: 'enqueueJob', operation: push });
+
+    assertEquals(invalid.status, 400);
+    assertEquals(status, 200);
+    assertEquals(tables.operation_jobs[0].id, body.jobId);
+    assertEquals(tables.operation_jobs[0].status, 'queued');
+    assertEquals(tables.operation_jobs[0].workspace_id, WORKSPACE_ID);
+    assertEquals(findRequest(github, 'PATCH', '/repos/acme/app-mirror/git/refs/heads/main'), undefined);
+
+    await runBackground();
+
+    const job = tables.operation_jobs[0];
+    assertEquals(job.status, 'succeeded');
+    assertEquals((job.steps as { name: string }[]).map(step => step.name), [
+      'Connecting to repositories',
+      'Reading branches',
+      'Checking protection rules',
+      'Updating main'
+    ]);
+    assertEquals((job.result as { ref: { sha: string } }).ref.sha, SOURCE_SHA);
+    assertEquals(tables.sync_operations[0].status, 'succeeded');
+  } finally {
+    await github.close();
+  }
+});
+
+test('cancelled jobs never change the target', async () => {
+  const { github, tables, invoke, runBackground } = setup({ ...repositoryRoutes, ...updateRefRoute });
+
+  try {
+    const { body } = await invoke({
+      type: 'enqueueJob',
+      operation: { type: 'push', sourceRepoId: SOURCE_ID, targetRepoId: TARGET_ID, pushType: 'force' }
+    });
+    const cancelled = await invoke({ type: 'cancelJob', jobId: body.jobId });
+
+    await runBackground();
+    const again = await invoke({ type: 'cancelJob', jobId: body.jobId });
+
+    assertEquals(cancelled.body.status, 'cancelled');
+    assertEquals(again.status, 400);
+    assertEquals(tables.operation_jobs[0].status, 'cancelled');
+    assertEquals(findRequest(github, 'PATCH', '/repos/acme/app-mirror/git/refs/heads/main'), undefined);
+  } finally {
+    await github.close();
+  }
+});
+
+test('batch pushes continue past targets that fail', async () => {
+  const repositories = [
+    ...seedRepositories(),
+    { id: 'gone-repo', user_id: USER.id, workspace_id: WORKSPACE_ID, url: 'https://github.test/acme/app-gone', provider: 'github', last_commit: null }
+  ];
+  const { github, tables, invoke } = setup({ ...repositoryRoutes, ...updateRefRoute }, repositories);
+
+  try {
+    const { status, body } = await invoke({
+      type: 'pushBatch',
+      sourceRepoId: SOURCE_ID,
+      targetRepoIds: ['gone-repo', TARGET_ID, TARGET_ID],
+      pushType: 'regular'
+    });
+    const withSource = await invoke({ type: 'pushBatch', sourceRepoId: SOURCE_ID, targetRepoIds: [SOURCE_ID], pushType: 'regular' });
+
+    assertEquals(status, 200);
+    assertEquals(body.results.map((result: Row) => [result.targetRepoId, result.status, result.code]), [
+      ['gone-repo', 'failed', 'not_found'],
+      [TARGET_ID, 'succeeded', undefined]
+    ]);
+    assertEquals(tables.repositories[1].last_commit, SOURCE_SHA);
+    assertEquals(tables.sync_operations.map(operation => operation.status).sort(), ['failed', 'succeeded']);
+    assertEquals(withSource.status, 400);
+  } finally {
+    await github.close();
+  }
+});
+
+test('compareWithMaster reports how far each repository has drifted', async () => {
+  const repositories = [
+    ...seedRepositories({ source: { is_master: true } }),
+    { id: 'broken-repo', user_id: USER.id, workspace_id: WORKSPACE_ID, url: 'not a url', provider: null, last_commit: null }
+  ];
+  const { github, tables, invoke } = setup({
+    ...previewRoutes,
+    [`GET /repos/acme/app-mirror/commits/${TARGET_SHA}`]: {
+      body: { sha: TARGET_SHA, commit: { message: 'Base', author: { name: 'Ada', date: '2025-01-02T00:00:00Z' } } }
+    }
+  }, repositories);
+
+  try {
+    const { status, body } = await invoke({ type: 'compareWithMaster', workspaceId: WORKSPACE_ID });
+    const outsider = await invoke({ type: 'compareWithMaster', workspaceId: WORKSPACE_ID }, REVIEWER_TOKEN);
+
+    assertEquals(status, 200);
+    assertEquals(body.masterRepoId, SOURCE_ID);
+    assertEquals(body.masterSha, SOURCE_SHA);
+    assertEquals(body.results, [
+      {
+        repositoryId: TARGET_ID,
+        status: 'stale',
+        branch: 'main',
+        aheadBy: 0,
+        behindBy: 1,
+        mergeBaseSha: TARGET_SHA,
+        mergeBaseDate: '2025-01-02T00:00:00Z'
+      },
+      { repositoryId: 'broken-repo', status: 'failed', code: 'invalid_url', error: 'Invalid repository URL format: not a url' }
+    ]);
+    assertEquals(tables.sync_operations, []);
+    assertEquals(outsider.status, 403);
+  } finally {
+    await github.close();
+  }
+});
+
+test('listOwnerRepos falls back to user repositories and filters archives and forks', async () => {
+  const ownerRepo = (name: string, overrides: Row = {}) => ({
+    name,
+    clone_url: `https://github.test/ada/${name}.git`,
+    html_url: `https://github.test/ada/${name}`,
+    description: null,
+    default_branch: 'main',
+    private: false,
+    archived: false,
+    fork: false,
+    pushed_at: '2025-01-03T00:00:00Z',
+    ...overrides
+  });
+  const { github, invoke } = setup({
+    'GET /users/ada/repos': { body: [ownerRepo('app'), ownerRepo('old', { archived: true }), ownerRepo('fork', { fork: true })] }
+  });
+
+  try {
+    const { status, body } = await invoke({ type: 'listOwnerRepos', workspaceId: WORKSPACE_ID, owner: 'ada' });
+    const withForks = await invoke({ type: 'listOwnerRepos', workspaceId: WORKSPACE_ID, owner: 'ada', includeForks: true });
+    const badPage = await invoke({ type: 'listOwnerRepos', workspaceId: WORKSPACE_ID, owner: 'ada', page: 0 });
+
+    assertEquals(status, 200);
+    assert(findRequest(github, 'GET', '/orgs/ada/repos'));
+    assertEquals(body.repositories.map((repo: Row) => repo.url), ['https://github.test/ada/app.git']);
+    assertEquals(body.nextPage, null);
+    assertEquals(withForks.body.repositories.map((repo: Row) => repo.name), ['app', 'fork']);
+    assertEquals(badPage.status, 400);
+  } finally {
+    await github.close();
+  }
+});
+
+test('listOwnerRepos only contacts hosts with a known credential', async () => {
+  Deno.env.set('CREDENTIALS_ENCRYPTION_KEY', btoa(String.fromCharCode(...crypto.getRandomValues(new Uint8Array(32)))));
+
+  const { github, invoke } = setup({ 'GET /orgs/ada/repos': { body: [] } }, seedRepositories(), 'admin', {
+    credentials: [
+      { id: 'enterprise-credential', user_id: USER.id, kind: 'token', host: 'git.acme.test', owner: 'ada', username: null, secret_ciphertext: await encryptSecret('enterprise-token') }
+    ]
+  });
+
+  try {
+    const unknown = await invoke({ type: 'listOwnerRepos', workspaceId: WORKSPACE_ID, owner: 'ada', host: '169.254.169.254' });
+    const stored = await invoke({ type: 'listOwnerRepos', workspaceId: WORKSPACE_ID, owner: 'ada', host: 'git.acme.test' });
+
+    assertEquals(unknown.status, 503);
+    assertEquals(unknown.body.details, { host: '169.254.169.254' });
+    assertEquals(stored.status, 200);
+    assertEquals(github.requests.length, 1);
+  } finally {
+    await github.close();
+  }
+});
+
+test('getLastCommits reads every repository and reports failures per repository', async () => {
+  const { github, tables, invoke } = setup({
+    'GET /repos/acme/app': repositoryRoutes['GET /repos/acme/app'],
+    'GET /repos/acme/app/commits/main': {
+      body: { sha: SOURCE_SHA, commit: { message: 'Initial commit', author: { name: 'Ada', date: '2025-01-01T00:00:00Z' } } }
+    }
+  });
+
+  try {
+    const { status, body } = await invoke({ type: 'getLastCommits', sourceRepoIds: [SOURCE_ID, TARGET_ID] });
+
+    assertEquals(status, 200);
+    assertEquals(body.results.map((result: Row) => [result.repositoryId, result.status, result.code]), [
+      [SOURCE_ID, 'succeeded', undefined],
+      [TARGET_ID, 'failed', 'not_found']
+    ]);
+    assertEquals(tables.repositories[0].last_commit, SOURCE_SHA);
+  } finally {
+    await github.close();
+  }
+});
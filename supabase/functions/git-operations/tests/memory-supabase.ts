@@ -0,0 +1,105 @@
+// In-memory stand-in for the Postgres tables behind the Supabase client. It
+// implements only the query builder calls the handler makes: select, insert,
+// update, eq, in and single.
+
+export type Row = Record<string, unknown>;
+
+type Filter = (row: Row) => boolean;
+
+class MemoryQuery {
+  private filters: Filter[] = [];
+  private columns: string | null = null;
+  private insertRows: Row[] | null = null;
+  private updateFields: Row | null = null;
+  private singleRow = false;
+
+  constructor(private rows: Row[]) {}
+
+  select(columns = '*') {
+    this.columns = columns;
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.insertRows = (Array.isArray(values) ? values : [values]).map(value => ({
+      id: crypto.randomUUID(),
+      created_at: new Date().toISOString(),
+      ...value
+    }));
+    return this;
+  }
+
+  update(fields: Row) {
+    this.updateFields = fields;
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  single() {
+    this.singleRow = true;
+    return this;
+  }
+
+  // Plain column lists are projected; anything fancier returns whole rows
+  private project(row: Row) {
+    if (!this.columns || this.columns.includes('*') || this.columns.includes('(')) return { ...row };
+    return Object.fromEntries(this.columns.split(',').map(column => [column.trim(), row[column.trim()]]));
+  }
+
+  private execute() {
+    let result: Row[];
+
+    if (this.insertRows) {
+      this.rows.push(...this.insertRows);
+      result = this.insertRows;
+    } else {
+      result = this.rows.filter(row => this.filters.every(filter => filter(row)));
+      if (this.updateFields) {
+        for (const row of result) Object.assign(row, this.updateFields);
+      }
+    }
+
+    const data = result.map(row => this.project(row));
+
+    if (this.singleRow) {
+      return data.length === 1
+        ? { data: data[0], error: null }
+        : { data: null, error: { code: 'PGRST116', message: `Expected 1 row, found ${data.length}` } };
+    }
+
+    return { data, error: null };
+  }
+
+  then<T>(resolve: (value: { data: unknown; error: unknown }) => T, reject?: (reason: unknown) => T) {
+    try {
+      return Promise.resolve(resolve(this.execute()));
+    } catch (error) {
+      return reject ? Promise.resolve(reject(error)) : Promise.reject(error);
+    }
+  }
+}
+
+// `users` maps access tokens to the users they authenticate
+export const createMemorySupabase = (seed: Record<string, Row[]> = {}, users: Record<string, Row> = {}) => {
+  const tables: Record<string, Row[]> = { repositories: [], sync_operations: [], pull_requests: [], ...seed };
+
+  const client = {
+    from: (table: string) => new MemoryQuery(tables[table] ??= []),
+    auth: {
+      getUser: async (token: string) => users[token]
+        ? { data: { user: users[token] }, error: null }
+        : { data: { user: null }, error: { status: 401, message: 'Invalid JWT' } }
+    }
+  };
+
+  return { client, tables };
+};
@@ -0,0 +1,132 @@
+// Run with: deno test --allow-all supabase/functions/git-operations/tests
+import { assertEquals, assertRejects } from "https://deno.land/std@0.168.0/testing/asserts.ts"
+import { OperationError, type ErrorCode } from '../errors.ts'
+import { mirrorRefs, parseRefspec } from '../mirror.ts'
+import { startGitServer } from './git-server.ts'
+
+const MAIN = 'refs/heads/main';
+const mainRefspec = parseRefspec('main');
+
+// The target holds the source's first commit; the source is one ahead
+const setup = async () => {
+  const server = await startGitServer();
+  await server.createRepo('source');
+  await server.createRepo('target');
+
+  const baseSha = await server.commit('source', MAIN, 'Initial commit');
+  await server.copyRef('source', 'target', MAIN);
+  const headSha = await server.commit('source', MAIN, 'Add feature');
+
+  return {
+    server,
+    baseSha,
+    headSha,
+    source: { url: `${server.url}/source.git` },
+    target: { url: `${server.url}/target.git` }
+  };
+};
+
+const assertRejectsWith = async (promise: Promise<unknown>, code: ErrorCode) => {
+  const error = await assertRejects(() => promise, OperationError);
+  assertEquals((error as OperationError).code, code);
+};
+
+// isomorphic-git leaves fetch bodies to be collected after a test ends
+const test = (name: string, fn: () => Promise<void>) =>
+  Deno.test({ name, fn, sanitizeOps: false, sanitizeResources: false });
+
+test('regular pushes fast-forward the target', async () => {
+  const { server, baseSha, headSha, source, target } = await setup();
+
+  try {
+    const results = await mirrorRefs({ source, target, refspecs: [mainRefspec], pushType: 'regular' });
+
+    assertEquals(results, [{ source: MAIN, target: MAIN, sha: headSha, previousSha: baseSha }]);
+    assertEquals(await server.readRef('target', MAIN), headSha);
+  } finally {
+    await server.close();
+  }
+});
+
+test('regular pushes leave a diverged target alone', async () => {
+  const { server, source, target } = await setup();
+
+  try {
+    const hotfixSha = await server.commit('target', MAIN, 'Hotfix');
+
+    await assertRejectsWith(
+      mirrorRefs({ source, target, refspecs: [mainRefspec], pushType: 'regular' }),
+      'non_fast_forward'
+    );
+    assertEquals(await server.readRef('target', MAIN), hotfixSha);
+  } finally {
+    await server.close();
+  }
+});
+
+test('force-with-lease only overwrites the expected target commit', async () => {
+  const { server, baseSha, headSha, source, target } = await setup();
+
+  try {
+    const hotfixSha = await server.commit('target', MAIN, 'Hotfix');
+
+    await assertRejectsWith(
+      mirrorRefs({ source, target, refspecs: [mainRefspec], pushType: 'force-with-lease', expectedShas: { [MAIN]: baseSha } }),
+      'lease_mismatch'
+    );
+    assertEquals(await server.readRef('target', MAIN), hotfixSha);
+
+    await mirrorRefs({ source, target, refspecs: [mainRefspec], pushType: 'force-with-lease', expectedShas: { [MAIN]: hotfixSha } });
+    assertEquals(await server.readRef('target', MAIN), headSha);
+  } finally {
+    await server.close();
+  }
+});
+
+test('force-with-lease notices a target that moves while the source is fetched', async () => {
+  const { server, baseSha, source, target } = await setup();
+  let concurrentSha: string | null = null;
+
+  // Someone pushes to the target after its refs were listed
+  server.onRequest = async (path) => {
+    if (path !== '/source.git/git-upload-pack') return;
+    server.onRequest = null;
+    concurrentSha = await server.commit('target', MAIN, 'Concurrent push');
+  };
+
+  try {
+    await assertRejectsWith(
+      mirrorRefs({ source, target, refspecs: [mainRefspec], pushType: 'force-with-lease', expectedShas: { [MAIN]: baseSha } }),
+      'lease_mismatch'
+    );
+    assertEquals(await server.readRef('target', MAIN), concurrentSha);
+  } finally {
+    await server.close();
+  }
+});
+
+test('tag refspecs create tags but never move them without force', async () => {
+  const { server, source, target } = await setup();
+  const tag = 'refs/tags/v1.0';
+
+  try {
+    const tagSha = await server.commit('source', tag, 'Release 1.0');
+    const results = await mirrorRefs({ source, target, refspecs: [parseRefspec(tag)], pushType: 'regular' });
+
+    assertEquals(results[0].target, tag);
+    assertEquals(await server.readRef('target', tag), tagSha);
+
+    const movedSha = await server.commit('source', tag, 'Release 1.0, again');
+
+    await assertRejectsWith(
+      mirrorRefs({ source, target, refspecs: [parseRefspec(tag)], pushType: 'regular' }),
+      'non_fast_forward'
+    );
+    assertEquals(await server.readRef('target', tag), tagSha);
+
+    await mirrorRefs({ source, target, refspecs: [parseRefspec(tag)], pushType: 'force' });
+    assertEquals(await server.readRef('target', tag), movedSha);
+  } finally {
+    await server.close();
+  }
+});
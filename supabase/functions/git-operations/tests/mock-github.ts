@@ -0,0 +1,68 @@
+import { Server } from "https://deno.land/std@0.168.0/http/server.ts"
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  body: unknown;
+}
+
+export interface MockResponse {
+  status?: number;
+  body?: unknown;
+}
+
+// Routes are keyed by method and decoded path, e.g. 'GET /repos/acme/app'
+export type MockRoutes = Record<string, MockResponse | ((request: RecordedRequest) => MockResponse)>;
+
+export interface MockGitHub {
+  url: string;
+  requests: RecordedRequest[];
+  close: () => Promise<void>;
+}
+
+// Serves canned GitHub REST responses on a random local port and records
+// every request. Unknown routes answer 404 like the real API.
+export const startMockGitHub = (routes: MockRoutes): MockGitHub => {
+  const requests: RecordedRequest[] = [];
+  const listener = Deno.listen({ hostname: '127.0.0.1', port: 0 });
+  const { port } = listener.addr as Deno.NetAddr;
+
+  const server = new Server({
+    handler: async (req) => {
+      const url = new URL(req.url);
+      const isJson = req.headers.get('content-type')?.includes('json');
+      const request = {
+        method: req.method,
+        path: decodeURIComponent(url.pathname),
+        headers: Object.fromEntries(req.headers),
+        body: isJson ? await req.json() : null
+      };
+      requests.push(request);
+
+      const route = routes[`${request.method} ${request.path}`];
+      const response = typeof route === 'function'
+        ? route(request)
+        : route ?? { status: 404, body: { message: 'Not Found' } };
+
+      return new Response(
+        response.body === undefined ? null : JSON.stringify(response.body),
+        {
+          status: response.status ?? 200,
+          headers: { 'Content-Type': 'application/json' }
+        }
+      );
+    }
+  });
+
+  const serving = server.serve(listener);
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: async () => {
+      server.close();
+      await serving;
+    }
+  };
+};
@@ -0,0 +1,30 @@
+// Run with: deno test --allow-all supabase/functions/git-operations/tests
+import { assertEquals, assertThrows } from "https://deno.land/std@0.168.0/testing/asserts.ts"
+import { isWithinWindows } from '../protection.ts'
+
+const weekdays = [{ days: [1, 2, 3, 4, 5], start: '09:00', end: '17:00' }];
+
+Deno.test('no windows allow changes at any time', () => {
+  assertEquals(isWithinWindows([], 'UTC', new Date('2025-01-05T03:00:00Z')), true);
+});
+
+Deno.test('windows are evaluated in their time zone', () => {
+  // Monday 08:30 UTC is 09:30 in Berlin
+  const monday = new Date('2025-01-06T08:30:00Z');
+
+  assertEquals(isWithinWindows(weekdays, 'UTC', monday), false);
+  assertEquals(isWithinWindows(weekdays, 'Europe/Berlin', monday), true);
+  assertEquals(isWithinWindows(weekdays, 'UTC', new Date('2025-01-04T10:00:00Z')), false);
+});
+
+Deno.test('windows ending before they start run past midnight', () => {
+  const overnight = [{ days: [5], start: '22:00', end: '02:00' }];
+
+  assertEquals(isWithinWindows(overnight, 'UTC', new Date('2025-01-10T23:30:00Z')), true);
+  assertEquals(isWithinWindows(overnight, 'UTC', new Date('2025-01-11T01:30:00Z')), true);
+  assertEquals(isWithinWindows(overnight, 'UTC', new Date('2025-01-10T12:00:00Z')), false);
+});
+
+Deno.test('unknown time zones are a configuration error', () => {
+  assertThrows(() => isWithinWindows(weekdays, 'Mars/Olympus', new Date()), Error, 'unknown time zone');
+});
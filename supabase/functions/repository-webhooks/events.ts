@@ -0,0 +1,83 @@
+// Push events as GitHub and GitLab deliver them, reduced to what the webhook
+// handler needs
+
+export type WebhookProvider = 'github' | 'gitlab';
+
+export interface PushEvent {
+  // Web URL of the repository that was pushed to
+  repositoryUrl: string;
+  branch: string;
+  sha: string;
+  // Commit time of the new head, when the payload includes it
+  date: string | null;
+  defaultBranch: string | null;
+}
+
+const encoder = new TextEncoder();
+
+const fromHex = (hex: string) => {
+  if (!/^([0-9a-f]{2})+$/i.test(hex)) return null;
+  return new Uint8Array(hex.match(/../g)!.map(byte => parseInt(byte, 16)));
+};
+
+// GitHub signs the raw body with HMAC-SHA256 of the webhook secret and sends
+// it as `sha256=<hex>` in X-Hub-Signature-256
+export const verifyGitHubSignature = async (secret: string, body: string, signature: string | null) => {
+  const digest = signature?.startsWith('sha256=') ? fromHex(signature.slice('sha256='.length)) : null;
+  if (!digest) return false;
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+
+  // verify() compares in constant time
+  return crypto.subtle.verify('HMAC', key, digest, encoder.encode(body));
+};
+
+// GitLab does not sign payloads; it sends the webhook's secret token back in
+// X-Gitlab-Token, which is compared without exiting early
+export const verifyGitLabToken = (secret: string, token: string | null) => {
+  if (token === null || token.length !== secret.length) return false;
+
+  let difference = 0;
+  for (let i = 0; i < secret.length; i++) {
+    difference |= secret.charCodeAt(i) ^ token.charCodeAt(i);
+  }
+  return difference === 0;
+};
+
+const BRANCH_PREFIX = 'refs/heads/';
+
+// Returns null for pushes that do not leave a branch head behind: tags and
+// deleted branches
+export const parsePushEvent = (provider: WebhookProvider, payload): PushEvent | null => {
+  const ref: unknown = payload?.ref;
+  const sha: unknown = payload?.after;
+
+  if (typeof ref !== 'string' || !ref.startsWith(BRANCH_PREFIX)) return null;
+  if (typeof sha !== 'string' || /^0+$/.test(sha)) return null;
+
+  if (provider === 'github') {
+    if (payload.deleted || !payload.repository?.html_url) return null;
+    return {
+      repositoryUrl: payload.repository.html_url,
+      branch: ref.slice(BRANCH_PREFIX.length),
+      sha,
+      date: payload.head_commit?.timestamp ?? null,
+      defaultBranch: payload.repository.default_branch ?? null
+    };
+  }
+
+  if (!payload.project?.web_url) return null;
+  return {
+    repositoryUrl: payload.project.web_url,
+    branch: ref.slice(BRANCH_PREFIX.length),
+    sha,
+    date: payload.commits?.find(commit => commit.id === sha)?.timestamp ?? null,
+    defaultBranch: payload.project.default_branch ?? null
+  };
+};
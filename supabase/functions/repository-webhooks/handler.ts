@@ -0,0 +1,157 @@
+import { parseRepoUrl, type RepoLocation } from '../git-operations/providers/index.ts'
+import { OperationError, toOperationError } from '../git-operations/errors.ts'
+import { runSyncRule, type HandlerDependencies } from '../git-operations/handler.ts'
+import { loadPushTriggeredSyncRules } from '../git-operations/sync-rules.ts'
+import { parsePushEvent, verifyGitHubSignature, verifyGitLabToken, type WebhookProvider } from './events.ts'
+
+const jsonResponse = (body: Record<string, unknown>, status = 200) => new Response(
+  JSON.stringify(body),
+  { headers: { 'Content-Type': 'application/json' }, status }
+);
+
+// Host, owner and repository name identify a repository whatever form its
+// URL was entered in
+const sameRepository = (a: RepoLocation, b: RepoLocation) =>
+  a.host.toLowerCase() === b.host.toLowerCase() &&
+  a.owner.toLowerCase() === b.owner.toLowerCase() &&
+  a.repo.toLowerCase() === b.repo.toLowerCase();
+
+// Each workspace has its own secret, so a delivery signed for one workspace
+// cannot touch the repositories of another
+const loadWebhookSecret = async (supabaseClient, workspaceId: string): Promise<string | null> => {
+  const { data, error } = await supabaseClient
+    .from('workspace_webhook_secrets')
+    .select('secret')
+    .eq('workspace_id', workspaceId)
+    .single();
+
+  // .single() reports a missing row as PGRST116
+  if (error && error.code !== 'PGRST116') throw error;
+  return data?.secret ?? null;
+};
+
+// Checks the delivery's signature and names the provider that sent it
+const authenticateDelivery = async (req: Request, body: string, secret: string): Promise<{ provider: WebhookProvider; event: string }> => {
+  const githubEvent = req.headers.get('x-github-event');
+  if (githubEvent) {
+    if (!await verifyGitHubSignature(secret, body, req.headers.get('x-hub-signature-256'))) {
+      throw new OperationError('unauthenticated', 'Invalid webhook signature');
+    }
+    return { provider: 'github', event: githubEvent };
+  }
+
+  const gitlabEvent = req.headers.get('x-gitlab-event');
+  if (gitlabEvent) {
+    if (!verifyGitLabToken(secret, req.headers.get('x-gitlab-token'))) {
+      throw new OperationError('unauthenticated', 'Invalid webhook token');
+    }
+    return { provider: 'gitlab', event: gitlabEvent };
+  }
+
+  throw new OperationError('invalid_request', 'Only GitHub and GitLab webhooks are supported');
+};
+
+// Receives push webhooks for the workspace named in the URL
+// (?workspace=<id>). Every copy of the pushed repository in the workspace has
+// its recorded head updated right away. Sync rules that run on push from the
+// pushed branch run as they would on schedule, in the background, since
+// providers time out slow deliveries. Pushes run through git-operations'
+// code, so the webhook takes the same dependencies.
+export const createWebhookHandler = (deps: HandlerDependencies) => async (req: Request) => {
+  const { supabaseClient } = deps;
+
+  try {
+    if (req.method !== 'POST') {
+      throw new OperationError('invalid_request', 'Webhooks are delivered with POST');
+    }
+
+    const workspaceId = new URL(req.url).searchParams.get('workspace');
+    if (!workspaceId) {
+      throw new OperationError('invalid_request', 'Webhook URLs name their workspace: ?workspace=<id>');
+    }
+
+    const secret = await loadWebhookSecret(supabaseClient, workspaceId);
+    if (!secret) {
+      throw new OperationError('not_configured', 'This workspace has no webhook secret. An admin can create one on the Workspaces page.');
+    }
+
+    // Signatures cover the exact bytes, so the body is read as text
+    const body = await req.text();
+    const { provider, event } = await authenticateDelivery(req, body, secret);
+
+    // Providers send a test delivery when the webhook is set up
+    if (event !== (provider === 'github' ? 'push' : 'Push Hook')) {
+      return jsonResponse({ success: true, ignored: `${event} event` });
+    }
+
+    let payload;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      throw new OperationError('invalid_request', 'Webhook body must be valid JSON');
+    }
+
+    const push = parsePushEvent(provider, payload);
+    if (!push) {
+      return jsonResponse({ success: true, ignored: 'not a branch update' });
+    }
+
+    const location = parseRepoUrl(push.repositoryUrl, provider);
+    if (!location) throw new OperationError('invalid_url', `Invalid repository URL format: ${push.repositoryUrl}`);
+
+    console.log('Received push:', { url: push.repositoryUrl, branch: push.branch, sha: push.sha });
+
+    const { data: repositories, error: repositoriesError } = await supabaseClient
+      .from('repositories')
+      .select('id, url, provider, last_commit')
+      .eq('workspace_id', workspaceId);
+
+    if (repositoriesError) throw repositoriesError;
+
+    const matched = repositories.filter(repo => {
+      const repoLocation = parseRepoUrl(repo.url, repo.provider);
+      return repoLocation && sameRepository(repoLocation, location);
+    });
+
+    console.log('Matching repositories:', matched.length);
+
+    // last_commit tracks the default branch
+    const updated = push.branch === push.defaultBranch ? matched.map(repo => repo.id) : [];
+    if (updated.length > 0) {
+      const { error: updateError } = await supabaseClient
+        .from('repositories')
+        .update({ last_commit: push.sha, last_commit_date: push.date ?? new Date().toISOString() })
+        .in('id', updated);
+
+      if (updateError) throw updateError;
+    }
+
+    // Rules without a source branch follow the default branch
+    const rules = matched.length > 0
+      ? (await loadPushTriggeredSyncRules(supabaseClient, matched.map(repo => repo.id)))
+        .filter(rule => (rule.source_branch ?? push.defaultBranch) === push.branch)
+      : [];
+
+    // Rules record their results on the rule and in history
+    if (rules.length > 0) {
+      const runInBackground = deps.runInBackground ?? (start => { start(); });
+      runInBackground(async () => {
+        for (const rule of rules) await runSyncRule(deps, rule);
+      });
+    }
+
+    return jsonResponse({
+      success: true,
+      matched: matched.map(repo => repo.id),
+      updated,
+      queued: rules.map(rule => rule.id)
+    });
+  } catch (error) {
+    console.error('Error in repository-webhooks function:', error);
+    const operationError = toOperationError(error);
+    return jsonResponse(
+      { success: false, code: operationError.code, error: operationError.message },
+      operationError.status
+    );
+  }
+};
@@ -0,0 +1,19 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createProvider, getGitRemote } from '../git-operations/providers/index.ts'
+import { createWebhookHandler } from './handler.ts'
+
+// Provided by the Supabase edge runtime
+declare const EdgeRuntime: { waitUntil: (promise: Promise<unknown>) => void };
+
+console.log('Repository Webhooks Function Started');
+
+serve(createWebhookHandler({
+  supabaseClient: createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '',
+  ),
+  createProvider,
+  getGitRemote,
+  runInBackground: (start) => EdgeRuntime.waitUntil(start())
+}))
@@ -0,0 +1,219 @@
+// Run with: deno test --allow-all supabase/functions/repository-webhooks/tests
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts"
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createWebhookHandler } from '../handler.ts'
+import { createGitHubProvider } from '../../git-operations/providers/github.ts'
+import type { RepoLocation } from '../../git-operations/providers/types.ts'
+import { createMemorySupabase, type Row } from '../../git-operations/tests/memory-supabase.ts'
+import { startMockGitHub, type MockRoutes } from '../../git-operations/tests/mock-github.ts'
+
+const SECRET = 'webhook-secret-'.padEnd(32, 'x');
+const WORKSPACE_ID = 'workspace-1';
+const OTHER_WORKSPACE_ID = 'workspace-2';
+const OTHER_SECRET = 'other-webhook-secret-'.padEnd(32, 'x');
+const USER = { id: 'user-1', email: 'ada@example.com' };
+const SOURCE_SHA = 'a'.repeat(40);
+
+const repositories = (): Row[] => [
+  { id: 'source-repo', workspace_id: WORKSPACE_ID, url: 'https://github.test/Acme/App.git', provider: 'github', last_commit: null },
+  { id: 'target-repo', workspace_id: WORKSPACE_ID, url: 'https://github.test/acme/app-mirror', provider: 'github', last_commit: null }
+];
+
+const pushPayload = (overrides: Row = {}) => ({
+  ref: 'refs/heads/main',
+  after: SOURCE_SHA,
+  head_commit: { timestamp: '2025-01-06T10:00:00Z' },
+  repository: { html_url: 'https://github.test/acme/app', default_branch: 'main' },
+  ...overrides
+});
+
+const sign = async (body: string, secret = SECRET) => {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const digest = new Uint8Array(await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(body)));
+  return 'sha256=' + Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const setup = (routes: MockRoutes = {}, seed: Record<string, Row[]> = {}) => {
+  const github = startMockGitHub(routes);
+  const background: (() => Promise<void>)[] = [];
+  const database = createMemorySupabase({
+    repositories: repositories(),
+    workspace_members: [{ workspace_id: WORKSPACE_ID, user_id: USER.id, role: 'operator', email: USER.email }],
+    workspace_webhook_secrets: [
+      { workspace_id: WORKSPACE_ID, secret: SECRET },
+      { workspace_id: OTHER_WORKSPACE_ID, secret: OTHER_SECRET }
+    ],
+    ...seed
+  });
+
+  const handler = createWebhookHandler({
+    supabaseClient: database.client as unknown as SupabaseClient,
+    createProvider: (location: RepoLocation) => createGitHubProvider('test-token', location.host, {
+      baseUrl: github.url,
+      retry: { enabled: false },
+      throttle: { enabled: false }
+    }),
+    getGitRemote: (location: RepoLocation) => ({ url: `${github.url}/${location.owner}/${location.repo}.git` }),
+    runInBackground: start => background.push(start)
+  });
+
+  const deliver = async (body: string, headers: Record<string, string>, workspaceId: string | null = WORKSPACE_ID) => {
+    const url = workspaceId ? `http://localhost/repository-webhooks?workspace=${workspaceId}` : 'http://localhost/repository-webhooks';
+    const response = await handler(new Request(url, { method: 'POST', headers, body }));
+    return { status: response.status, body: await response.json() };
+  };
+
+  const deliverGitHub = async (payload: unknown, event = 'push', workspaceId = WORKSPACE_ID, secret = SECRET) => {
+    const body = JSON.stringify(payload);
+    return deliver(body, { 'x-github-event': event, 'x-hub-signature-256': await sign(body, secret) }, workspaceId);
+  };
+
+  // Background work waits until the test lets it run
+  const runBackground = async () => {
+    while (background.length > 0) await background.shift()!();
+  };
+
+  return { github, tables: database.tables, deliver, deliverGitHub, runBackground };
+};
+
+// Octokit keeps pooled connections open past the end of a test
+const test = (name: string, fn: () => Promise<void>) =>
+  Deno.test({ name, fn, sanitizeOps: false, sanitizeResources: false });
+
+test('deliveries with a wrong signature or token are refused', async () => {
+  const { github, tables, deliver } = setup();
+
+  try {
+    const body = JSON.stringify(pushPayload());
+    const github401 = await deliver(body, { 'x-github-event': 'push', 'x-hub-signature-256': await sign(body, 'guess') });
+    const gitlab401 = await deliver(body, { 'x-gitlab-event': 'Push Hook', 'x-gitlab-token': 'guess' });
+    const unknown = await deliver(body, {});
+    const noWorkspace = await deliver(body, { 'x-github-event': 'push', 'x-hub-signature-256': await sign(body) }, null);
+    const noSecret = await deliver(body, { 'x-github-event': 'push', 'x-hub-signature-256': await sign(body) }, 'workspace-3');
+
+    assertEquals(github401.status, 401);
+    assertEquals(gitlab401.status, 401);
+    assertEquals(unknown.status, 400);
+    assertEquals(noWorkspace.status, 400);
+    assertEquals(noSecret.status, 503);
+    assertEquals(tables.repositories[0].last_commit, null);
+  } finally {
+    await github.close();
+  }
+});
+
+test('deliveries only reach the repositories of their own workspace', async () => {
+  const { github, tables, deliverGitHub } = setup({}, {
+    repositories: [
+      ...repositories(),
+      { id: 'other-repo', workspace_id: OTHER_WORKSPACE_ID, url: 'https://github.test/acme/app', provider: 'github', last_commit: null }
+    ]
+  });
+
+  try {
+    // Another workspace's secret does not sign for this one
+    const forged = await deliverGitHub(pushPayload(), 'push', WORKSPACE_ID, OTHER_SECRET);
+    const { status, body } = await deliverGitHub(pushPayload(), 'push', OTHER_WORKSPACE_ID, OTHER_SECRET);
+
+    assertEquals(forged.status, 401);
+    assertEquals(status, 200);
+    assertEquals(body.matched, ['other-repo']);
+    assertEquals(tables.repositories[0].last_commit, null);
+    assertEquals(tables.repositories[2].last_commit, SOURCE_SHA);
+  } finally {
+    await github.close();
+  }
+});
+
+test('pushes to the default branch update every matching repository', async () => {
+  const { github, tables, deliverGitHub } = setup();
+
+  try {
+    const ping = await deliverGitHub({ zen: 'Keep it logically awesome.' }, 'ping');
+    const feature = await deliverGitHub(pushPayload({ ref: 'refs/heads/feature' }));
+    const { status, body } = await deliverGitHub(pushPayload());
+
+    assertEquals(ping.body.ignored, 'ping event');
+    assertEquals(feature.body.updated, []);
+    assertEquals(status, 200);
+    assertEquals(body.matched, ['source-repo']);
+    assertEquals(tables.repositories[0].last_commit, SOURCE_SHA);
+    assertEquals(tables.repositories[0].last_commit_date, '2025-01-06T10:00:00Z');
+    assertEquals(tables.repositories[1].last_commit, null);
+  } finally {
+    await github.close();
+  }
+});
+
+test('GitLab pushes are matched by their project URL', async () => {
+  const { github, tables, deliver } = setup({}, {
+    repositories: [{ id: 'gitlab-repo', workspace_id: WORKSPACE_ID, url: 'https://gitlab.com/acme/platform/app.git', provider: 'gitlab', last_commit: null }]
+  });
+
+  try {
+    const { status } = await deliver(JSON.stringify({
+      ref: 'refs/heads/main',
+      after: SOURCE_SHA,
+      commits: [{ id: SOURCE_SHA, timestamp: '2025-01-06T10:00:00Z' }],
+      project: { web_url: 'https://gitlab.com/acme/platform/app', default_branch: 'main' }
+    }), { 'x-gitlab-event': 'Push Hook', 'x-gitlab-token': SECRET });
+
+    assertEquals(status, 200);
+    assertEquals(tables.repositories[0].last_commit, SOURCE_SHA);
+  } finally {
+    await github.close();
+  }
+});
+
+test('pushes run the sync rules that follow the pushed branch', async () => {
+  const rule = {
+    source_repository_id: 'source-repo',
+    target_repository_id: 'target-repo',
+    source_branch: null,
+    target_branch: null,
+    push_type: 'regular',
+    schedule: null,
+    run_on_push: true,
+    enabled: true,
+    run_as: USER.id,
+    last_run_at: null,
+    created_at: '2025-01-01T00:00:00Z'
+  };
+
+  const { github, tables, deliverGitHub, runBackground } = setup({
+    // The source is registered as Acme/App and read under that name
+    'GET /repos/Acme/App': { body: { default_branch: 'main' } },
+    'GET /repos/acme/app-mirror': { body: { default_branch: 'main' } },
+    'GET /repos/Acme/App/branches/main': { body: { name: 'main', commit: { sha: SOURCE_SHA }, protected: false } },
+    'PATCH /repos/acme/app-mirror/git/refs/heads/main': { body: { object: { sha: SOURCE_SHA } } }
+  }, {
+    sync_rules: [
+      { id: 'rule-1', ...rule },
+      { id: 'rule-2', ...rule, source_branch: 'release' },
+      { id: 'rule-3', ...rule, run_on_push: false, schedule: '0 0 * * *' }
+    ]
+  });
+
+  try {
+    const { status, body } = await deliverGitHub(pushPayload());
+
+    assertEquals(status, 200);
+    // The delivery is answered before the rule pushes
+    assertEquals(body.queued, ['rule-1']);
+    assertEquals(github.requests.filter(request => request.method === 'PATCH').length, 0);
+
+    await runBackground();
+
+    assertEquals(github.requests.filter(request => request.method === 'PATCH').length, 1);
+    assertEquals(tables.sync_rules[0].last_status, 'succeeded');
+    assertEquals(tables.sync_operations[0].initiated_by, `${USER.email} (sync rule)`);
+  } finally {
+    await github.close();
+  }
+});
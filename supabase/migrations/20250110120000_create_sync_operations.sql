@@ -0,0 +1,29 @@
+-- History of every operation git-operations performs against a repository
+create table public.sync_operations (
+  id uuid primary key default gen_random_uuid(),
+  operation_type text not null,
+  source_repository_id uuid references public.repositories(id) on delete set null,
+  target_repository_id uuid references public.repositories(id) on delete set null,
+  push_type text,
+  source_branch text,
+  target_branch text,
+  result_sha text,
+  status text not null default 'running' check (status in ('running', 'succeeded', 'failed')),
+  error_message text,
+  error_details jsonb,
+  initiated_by text,
+  started_at timestamptz not null default now(),
+  completed_at timestamptz,
+  created_at timestamptz default now()
+);
+
+create index sync_operations_source_repository_id_idx on public.sync_operations (source_repository_id);
+create index sync_operations_target_repository_id_idx on public.sync_operations (target_repository_id);
+create index sync_operations_started_at_idx on public.sync_operations (started_at desc);
+
+alter table public.sync_operations enable row level security;
+
+-- Rows are written by the edge function with the service role
+create policy "Sync operations are readable by everyone"
+  on public.sync_operations for select
+  using (true);
@@ -0,0 +1,4 @@
+-- Hosting provider of each repository, used by git-operations to pick its API
+alter table public.repositories
+  add column provider text not null default 'github'
+  check (provider in ('github', 'gitlab', 'bitbucket', 'gitea'));
@@ -0,0 +1,7 @@
+-- Plain git remotes are reached over smart HTTP instead of a provider API
+alter table public.repositories
+  drop constraint repositories_provider_check;
+
+alter table public.repositories
+  add constraint repositories_provider_check
+  check (provider in ('github', 'gitlab', 'bitbucket', 'gitea', 'git'));
@@ -0,0 +1,29 @@
+-- Pull requests opened by git-operations instead of pushing directly
+create table public.pull_requests (
+  id uuid primary key default gen_random_uuid(),
+  source_repository_id uuid references public.repositories(id) on delete set null,
+  target_repository_id uuid references public.repositories(id) on delete cascade,
+  source_branch text not null,
+  head_branch text not null,
+  target_branch text not null,
+  head_sha text not null,
+  number integer not null,
+  url text not null,
+  title text not null,
+  state text not null default 'open' check (state in ('open', 'closed', 'merged')),
+  review_status text not null default 'pending' check (review_status in ('approved', 'changes_requested', 'pending')),
+  check_status text not null default 'none' check (check_status in ('success', 'failure', 'pending', 'none')),
+  created_by text,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index pull_requests_target_repository_id_idx on public.pull_requests (target_repository_id);
+create index pull_requests_created_at_idx on public.pull_requests (created_at desc);
+
+alter table public.pull_requests enable row level security;
+
+-- Rows are written by the edge function with the service role
+create policy "Pull requests are readable by everyone"
+  on public.pull_requests for select
+  using (true);
@@ -0,0 +1,30 @@
+-- Provider credentials, attached to single repositories or used for every
+-- repository of an owner on a host. Secrets are encrypted by git-operations
+-- with CREDENTIALS_ENCRYPTION_KEY and only ever decrypted there.
+create table public.credentials (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  kind text not null check (kind in ('token', 'deploy_token')),
+  host text not null,
+  -- Set for credentials shared by all repositories of an owner
+  owner text,
+  username text,
+  secret_ciphertext text not null,
+  created_at timestamptz not null default now()
+);
+
+-- One shared credential per owner keeps the lookup unambiguous
+create unique index credentials_host_owner_idx on public.credentials (host, owner) where owner is not null;
+
+-- No policies: only the service role reads the table
+alter table public.credentials enable row level security;
+
+-- The app lists credentials through this view, which leaves out the secret
+create view public.credential_summaries as
+  select id, name, kind, host, owner, username, created_at
+  from public.credentials;
+
+grant select on public.credential_summaries to anon, authenticated;
+
+alter table public.repositories
+  add column credential_id uuid references public.credentials(id) on delete set null;
@@ -0,0 +1,18 @@
+-- GitHub Apps store their private key as the secret next to the app ID
+alter table public.credentials
+  drop constraint credentials_kind_check;
+
+alter table public.credentials
+  add constraint credentials_kind_check
+  check (kind in ('token', 'deploy_token', 'github_app'));
+
+alter table public.credentials
+  add column app_id text;
+
+alter table public.credentials
+  add constraint credentials_app_id_check
+  check ((kind = 'github_app') = (app_id is not null));
+
+create or replace view public.credential_summaries as
+  select id, name, kind, host, owner, username, created_at, app_id
+  from public.credentials;
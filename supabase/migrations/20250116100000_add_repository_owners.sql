@@ -0,0 +1,70 @@
+-- Repositories belong to the user who added them. Rows created before sign-in
+-- existed have no owner and stay hidden until one is assigned.
+alter table public.repositories
+  add column user_id uuid references auth.users(id) on delete cascade default auth.uid();
+
+create index repositories_user_id_idx on public.repositories (user_id);
+
+alter table public.repositories enable row level security;
+
+-- Replace whatever anonymous policies the table was created with
+do $$
+declare
+  existing record;
+begin
+  for existing in
+    select policyname from pg_policies where schemaname = 'public' and tablename = 'repositories'
+  loop
+    execute format('drop policy %I on public.repositories', existing.policyname);
+  end loop;
+end $$;
+
+create policy "Users can read their repositories"
+  on public.repositories for select
+  using (user_id = auth.uid());
+
+create policy "Users can add repositories"
+  on public.repositories for insert
+  with check (user_id = auth.uid());
+
+create policy "Users can update their repositories"
+  on public.repositories for update
+  using (user_id = auth.uid())
+  with check (user_id = auth.uid());
+
+create policy "Users can delete their repositories"
+  on public.repositories for delete
+  using (user_id = auth.uid());
+
+-- History and pull requests are visible to the owner of either repository
+drop policy "Sync operations are readable by everyone" on public.sync_operations;
+
+create policy "Users can read operations on their repositories"
+  on public.sync_operations for select
+  using (exists (
+    select 1 from public.repositories
+    where repositories.id in (sync_operations.source_repository_id, sync_operations.target_repository_id)
+      and repositories.user_id = auth.uid()
+  ));
+
+drop policy "Pull requests are readable by everyone" on public.pull_requests;
+
+create policy "Users can read pull requests into their repositories"
+  on public.pull_requests for select
+  using (exists (
+    select 1 from public.repositories
+    where repositories.id = pull_requests.target_repository_id
+      and repositories.user_id = auth.uid()
+  ));
+
+-- Credentials are created by git-operations for the signed-in user
+alter table public.credentials
+  add column user_id uuid references auth.users(id) on delete cascade;
+
+drop index public.credentials_host_owner_idx;
+create unique index credentials_user_host_owner_idx on public.credentials (user_id, host, owner) where owner is not null;
+
+create or replace view public.credential_summaries as
+  select id, name, kind, host, owner, username, created_at, app_id
+  from public.credentials
+  where user_id = auth.uid();
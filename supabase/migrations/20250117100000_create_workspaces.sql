@@ -0,0 +1,181 @@
+-- Repositories are shared through workspaces. Members hold one role:
+-- viewers read, operators run operations on non-master repositories and
+-- admins manage the workspace and its master repository.
+create table public.workspaces (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  created_by uuid references auth.users(id) on delete set null default auth.uid(),
+  created_at timestamptz not null default now()
+);
+
+create table public.workspace_members (
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  user_id uuid not null references auth.users(id) on delete cascade,
+  -- Kept so members can be listed without access to auth.users
+  email text,
+  role text not null default 'viewer' check (role in ('viewer', 'operator', 'admin')),
+  created_at timestamptz not null default now(),
+  primary key (workspace_id, user_id)
+);
+
+create index workspace_members_user_id_idx on public.workspace_members (user_id);
+
+-- The caller's role in a workspace, or null for non-members. Security
+-- definer so policies on workspace_members can use it without recursing.
+create function public.workspace_role(target_workspace uuid)
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.workspace_members
+  where workspace_id = target_workspace and user_id = auth.uid();
+$$;
+
+-- Whoever creates a workspace administers it
+create function public.add_workspace_creator()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.created_by is not null then
+    insert into public.workspace_members (workspace_id, user_id, email, role)
+    select new.id, users.id, users.email, 'admin'
+    from auth.users where users.id = new.created_by;
+  end if;
+  return new;
+end;
+$$;
+
+create trigger workspaces_add_creator
+  after insert on public.workspaces
+  for each row execute function public.add_workspace_creator();
+
+-- Members are added by email, which needs auth.users, so admins go through
+-- this function instead of inserting rows themselves
+create function public.add_workspace_member(target_workspace uuid, member_email text, member_role text)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  member auth.users%rowtype;
+begin
+  if public.workspace_role(target_workspace) is distinct from 'admin' then
+    raise exception 'Only workspace admins can add members';
+  end if;
+
+  select * into member from auth.users where lower(email) = lower(trim(member_email));
+  if not found then
+    raise exception 'No user has signed in with %', member_email;
+  end if;
+
+  insert into public.workspace_members (workspace_id, user_id, email, role)
+  values (target_workspace, member.id, member.email, member_role)
+  on conflict (workspace_id, user_id) do update set role = excluded.role;
+end;
+$$;
+
+alter table public.workspaces enable row level security;
+alter table public.workspace_members enable row level security;
+
+create policy "Members can read their workspaces"
+  on public.workspaces for select
+  using (public.workspace_role(id) is not null);
+
+create policy "Users can create workspaces"
+  on public.workspaces for insert
+  with check (created_by = auth.uid());
+
+create policy "Admins can rename workspaces"
+  on public.workspaces for update
+  using (public.workspace_role(id) = 'admin');
+
+create policy "Admins can delete workspaces"
+  on public.workspaces for delete
+  using (public.workspace_role(id) = 'admin');
+
+create policy "Members can read fellow members"
+  on public.workspace_members for select
+  using (public.workspace_role(workspace_id) is not null);
+
+create policy "Admins can change roles"
+  on public.workspace_members for update
+  using (public.workspace_role(workspace_id) = 'admin');
+
+create policy "Admins can remove members"
+  on public.workspace_members for delete
+  using (public.workspace_role(workspace_id) = 'admin');
+
+-- Repositories move into workspaces. Every existing owner gets a personal
+-- workspace holding the repositories they added.
+alter table public.repositories
+  add column workspace_id uuid references public.workspaces(id) on delete cascade;
+
+create index repositories_workspace_id_idx on public.repositories (workspace_id);
+
+insert into public.workspaces (name, created_by)
+select 'Personal', owners.user_id
+from (select distinct user_id from public.repositories where user_id is not null) owners;
+
+update public.repositories
+set workspace_id = workspaces.id
+from public.workspaces
+where workspaces.created_by = repositories.user_id;
+
+-- Each workspace has at most one master repository. Only git-operations
+-- changes the flag, after checking the caller is an admin.
+update public.repositories set is_master = false
+where is_master and id not in (
+  select distinct on (workspace_id) id from public.repositories
+  where is_master order by workspace_id, updated_at desc nulls last
+);
+
+create unique index repositories_workspace_master_idx
+  on public.repositories (workspace_id) where is_master;
+
+drop policy "Users can read their repositories" on public.repositories;
+drop policy "Users can add repositories" on public.repositories;
+drop policy "Users can update their repositories" on public.repositories;
+drop policy "Users can delete their repositories" on public.repositories;
+
+create policy "Members can read workspace repositories"
+  on public.repositories for select
+  using (public.workspace_role(workspace_id) is not null);
+
+create policy "Admins can add repositories"
+  on public.repositories for insert
+  with check (public.workspace_role(workspace_id) = 'admin' and user_id = auth.uid() and coalesce(is_master, false) = false);
+
+create policy "Admins can update repositories"
+  on public.repositories for update
+  using (public.workspace_role(workspace_id) = 'admin')
+  with check (public.workspace_role(workspace_id) = 'admin');
+
+create policy "Admins can delete repositories"
+  on public.repositories for delete
+  using (public.workspace_role(workspace_id) = 'admin');
+
+drop policy "Users can read operations on their repositories" on public.sync_operations;
+
+create policy "Members can read operations on workspace repositories"
+  on public.sync_operations for select
+  using (exists (
+    select 1 from public.repositories
+    where repositories.id in (sync_operations.source_repository_id, sync_operations.target_repository_id)
+      and public.workspace_role(repositories.workspace_id) is not null
+  ));
+
+drop policy "Users can read pull requests into their repositories" on public.pull_requests;
+
+create policy "Members can read pull requests into workspace repositories"
+  on public.pull_requests for select
+  using (exists (
+    select 1 from public.repositories
+    where repositories.id = pull_requests.target_repository_id
+      and public.workspace_role(repositories.workspace_id) is not null
+  ));
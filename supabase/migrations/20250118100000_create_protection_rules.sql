@@ -0,0 +1,53 @@
+-- Rules git-operations checks before pushing or merging into a repository,
+-- whatever the client does. allowed_windows is a list of
+-- { "days": [1, 2, 3, 4, 5], "start": "09:00", "end": "17:00" } in
+-- `timezone`; an empty list allows changes at any time.
+create table public.protection_rules (
+  repository_id uuid primary key references public.repositories(id) on delete cascade,
+  block_force_push boolean not null default false,
+  require_preview boolean not null default false,
+  require_approval boolean not null default false,
+  allowed_windows jsonb not null default '[]'::jsonb check (jsonb_typeof(allowed_windows) = 'array'),
+  timezone text not null default 'UTC',
+  updated_at timestamptz not null default now()
+);
+
+alter table public.protection_rules enable row level security;
+
+create policy "Members can read protection rules"
+  on public.protection_rules for select
+  using (exists (
+    select 1 from public.repositories
+    where repositories.id = protection_rules.repository_id
+      and public.workspace_role(repositories.workspace_id) is not null
+  ));
+
+create policy "Admins can manage protection rules"
+  on public.protection_rules for all
+  using (exists (
+    select 1 from public.repositories
+    where repositories.id = protection_rules.repository_id
+      and public.workspace_role(repositories.workspace_id) = 'admin'
+  ))
+  with check (exists (
+    select 1 from public.repositories
+    where repositories.id = protection_rules.repository_id
+      and public.workspace_role(repositories.workspace_id) = 'admin'
+  ));
+
+-- Every compare is recorded so pushes into repositories that require a
+-- preview can show which one they were made from. Only git-operations
+-- reads and writes these rows.
+create table public.push_previews (
+  id uuid primary key default gen_random_uuid(),
+  source_repository_id uuid not null references public.repositories(id) on delete cascade,
+  target_repository_id uuid not null references public.repositories(id) on delete cascade,
+  source_branch text not null,
+  target_branch text not null,
+  source_sha text not null,
+  target_sha text not null,
+  created_by uuid references auth.users(id) on delete cascade,
+  created_at timestamptz not null default now()
+);
+
+alter table public.push_previews enable row level security;
@@ -0,0 +1,35 @@
+-- Pushes waiting for a second member's approval. git-operations creates,
+-- reviews and executes them; members of the target's workspace can read them.
+create table public.push_requests (
+  id uuid primary key default gen_random_uuid(),
+  source_repository_id uuid not null references public.repositories(id) on delete cascade,
+  target_repository_id uuid not null references public.repositories(id) on delete cascade,
+  source_branch text not null,
+  target_branch text not null,
+  push_type text not null check (push_type in ('regular', 'force', 'force-with-lease')),
+  -- Branch heads the requester previewed; execution fails if the source moved
+  source_sha text not null,
+  target_sha text not null,
+  status text not null default 'pending' check (status in ('pending', 'approved', 'rejected', 'executed', 'failed')),
+  requested_by uuid references auth.users(id) on delete set null,
+  requested_by_label text,
+  reviewed_by uuid references auth.users(id) on delete set null,
+  reviewed_by_label text,
+  review_comment text,
+  reviewed_at timestamptz,
+  executed_at timestamptz,
+  error_message text,
+  created_at timestamptz not null default now()
+);
+
+create index push_requests_target_repository_id_idx on public.push_requests (target_repository_id);
+
+alter table public.push_requests enable row level security;
+
+create policy "Members can read push requests into workspace repositories"
+  on public.push_requests for select
+  using (exists (
+    select 1 from public.repositories
+    where repositories.id = push_requests.target_repository_id
+      and public.workspace_role(repositories.workspace_id) is not null
+  ));
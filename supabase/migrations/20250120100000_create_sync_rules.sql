@@ -0,0 +1,84 @@
+-- Pushes git-operations runs on a schedule. `schedule` is a five-field cron
+-- expression in UTC; branches default to the repositories' default branches.
+create table public.sync_rules (
+  id uuid primary key default gen_random_uuid(),
+  source_repository_id uuid not null references public.repositories(id) on delete cascade,
+  target_repository_id uuid not null references public.repositories(id) on delete cascade,
+  source_branch text,
+  target_branch text,
+  push_type text not null default 'regular' check (push_type in ('regular', 'force', 'force-with-lease')),
+  schedule text not null,
+  enabled boolean not null default true,
+  run_as uuid references auth.users(id) on delete set null,
+  last_run_at timestamptz,
+  last_status text check (last_status in ('succeeded', 'failed')),
+  last_error text,
+  created_at timestamptz not null default now()
+);
+
+create index sync_rules_target_repository_id_idx on public.sync_rules (target_repository_id);
+
+-- Rules run as the member who last changed them, so nobody can make a rule
+-- do more than they could by hand. git-operations records results with the
+-- service role, which leaves run_as alone.
+create function public.set_sync_rule_run_as()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is not null then
+    new.run_as := auth.uid();
+  end if;
+  return new;
+end;
+$$;
+
+create trigger set_sync_rule_run_as
+  before insert or update on public.sync_rules
+  for each row execute function public.set_sync_rule_run_as();
+
+alter table public.sync_rules enable row level security;
+
+create policy "Members can read sync rules"
+  on public.sync_rules for select
+  using (exists (
+    select 1 from public.repositories
+    where repositories.id = sync_rules.target_repository_id
+      and public.workspace_role(repositories.workspace_id) is not null
+  ));
+
+create policy "Operators can manage sync rules"
+  on public.sync_rules for all
+  using (exists (
+    select 1 from public.repositories
+    where repositories.id = sync_rules.target_repository_id
+      and public.workspace_role(repositories.workspace_id) in ('operator', 'admin')
+  ))
+  with check (exists (
+    select 1 from public.repositories
+    where repositories.id = sync_rules.target_repository_id
+      and public.workspace_role(repositories.workspace_id) in ('operator', 'admin')
+  ));
+
+-- Every minute, ask git-operations to run the rules that are due. Expects
+-- the vault secrets `project_url`, `anon_key` (to pass the functions
+-- gateway) and `sync_schedule_secret`, which must match the function's
+-- SYNC_SCHEDULE_SECRET.
+create extension if not exists pg_cron;
+create extension if not exists pg_net;
+
+select cron.schedule(
+  'run-sync-rules',
+  '* * * * *',
+  $$
+  select net.http_post(
+    url := (select decrypted_secret from vault.decrypted_secrets where name = 'project_url') || '/functions/v1/git-operations',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (select decrypted_secret from vault.decrypted_secrets where name = 'anon_key'),
+      'x-schedule-secret', (select decrypted_secret from vault.decrypted_secrets where name = 'sync_schedule_secret')
+    ),
+    body := '{"type": "runSyncRules"}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,8 @@
+-- Sync rules can also run when repository-webhooks receives a push to their
+-- source branch. Rules that only run on push have no schedule.
+alter table public.sync_rules
+  add column run_on_push boolean not null default false,
+  alter column schedule drop not null,
+  add constraint sync_rules_has_trigger check (schedule is not null or run_on_push);
+
+create index sync_rules_source_repository_id_idx on public.sync_rules (source_repository_id) where run_on_push;
@@ -0,0 +1,33 @@
+-- Operations queued through git-operations' enqueueJob. The function runs
+-- them in the background and writes each step as it starts; members of the
+-- workspace follow their jobs over Realtime.
+create table public.operation_jobs (
+  id uuid primary key default gen_random_uuid(),
+  workspace_id uuid not null references public.workspaces(id) on delete cascade,
+  operation_type text not null,
+  -- The request the job runs, as sent to git-operations
+  operation jsonb not null,
+  status text not null default 'queued' check (status in ('queued', 'running', 'succeeded', 'failed', 'cancelled')),
+  -- [{ "name": "Reading branches", "startedAt": "..." }, ...]
+  steps jsonb not null default '[]'::jsonb,
+  cancel_requested boolean not null default false,
+  result jsonb,
+  -- { "code": "...", "message": "...", "details": {...} }
+  error jsonb,
+  created_by uuid references auth.users(id) on delete set null,
+  created_by_label text,
+  created_at timestamptz not null default now(),
+  started_at timestamptz,
+  finished_at timestamptz
+);
+
+create index operation_jobs_workspace_id_created_at_idx on public.operation_jobs (workspace_id, created_at desc);
+
+alter table public.operation_jobs enable row level security;
+
+create policy "Members can read workspace jobs"
+  on public.operation_jobs for select
+  using (public.workspace_role(workspace_id) is not null);
+
+-- Realtime only delivers changes the subscriber may select
+alter publication supabase_realtime add table public.operation_jobs;
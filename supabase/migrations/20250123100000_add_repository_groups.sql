@@ -0,0 +1,4 @@
+-- Free-form labels for arranging repositories, kept in the exported
+-- registry along with the rest of each repository's settings
+alter table public.repositories
+  add column groups text[] not null default '{}';
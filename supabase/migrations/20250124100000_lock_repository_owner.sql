@@ -0,0 +1,23 @@
+-- git-operations reads a repository's credential as the member who added
+-- it, so neither may change once the row exists: otherwise any admin could
+-- point a repository at another member's token. Clearing the credential is
+-- still allowed, as deleting a credential sets it to null. The service role
+-- is not restricted.
+create function public.lock_repository_owner()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is not null and (
+    new.user_id is distinct from old.user_id or
+    (new.credential_id is not null and new.credential_id is distinct from old.credential_id)
+  ) then
+    raise exception 'The owner and credential of a repository cannot be changed';
+  end if;
+  return new;
+end;
+$$;
+
+create trigger lock_repository_owner
+  before update on public.repositories
+  for each row execute function public.lock_repository_owner();
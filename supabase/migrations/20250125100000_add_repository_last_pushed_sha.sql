@@ -0,0 +1,7 @@
+-- The commit git-operations last pushed or merged into a repository's
+-- default branch. Force-with-lease pushes without an explicit expected SHA
+-- compare against it. last_commit cannot serve, as repository-webhooks also
+-- records other people's pushes there. Existing repositories start without
+-- one, so their first such push needs the expected SHA from the client.
+alter table public.repositories
+  add column last_pushed_sha text;
@@ -0,0 +1,7 @@
+-- git-operations claims an approved push request by moving it to executing
+-- in the same update that checks it is still approved, so two concurrent
+-- runs cannot both push it
+alter table public.push_requests drop constraint push_requests_status_check;
+
+alter table public.push_requests add constraint push_requests_status_check
+  check (status in ('pending', 'approved', 'rejected', 'executing', 'executed', 'failed'));
@@ -0,0 +1,16 @@
+-- repository-webhooks authenticates each delivery with the secret of the
+-- workspace named in its URL (?workspace=<id>) and only updates that
+-- workspace's repositories. Admins set up the provider webhooks, so only
+-- they can read or rotate the secret.
+create table public.workspace_webhook_secrets (
+  workspace_id uuid primary key references public.workspaces(id) on delete cascade,
+  secret text not null check (length(secret) >= 32),
+  created_at timestamptz not null default now()
+);
+
+alter table public.workspace_webhook_secrets enable row level security;
+
+create policy "Admins can manage webhook secrets"
+  on public.workspace_webhook_secrets for all
+  using (public.workspace_role(workspace_id) = 'admin')
+  with check (public.workspace_role(workspace_id) = 'admin');